@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * 레이어: API 호출 함수 레이어 - BFF (API Call Functions Layer - Backend-for-frontend)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zod (응답 스키마), TanStack Query (queryKey/queryFn)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): bffClient (시스템별 토큰 헤더 전달), 인증 세션 refresh
+ *     (src/lib/browser-clients.ts에 등록된 인스턴스를 호출 시점에 조회, BFF route가 이 모듈의 타입을 공유하므로)
+ *   - BFF 서버 API (src/app/api/bff/dashboard/route.ts): 세 시스템을 병렬 호출해 합친 응답
+ *   - UI 레이어 (src/app/dashboard/page.tsx): 대시보드 화면
+ * 
+ * 역할:
+ * - 대시보드 응답(시스템별 status + data/error) 스키마와 타입 선언 (BFF route와 공유)
+ * - 응답을 런타임에 검증 (불일치 시 SchemaApiError)
+ * - 일부 시스템이 401이면 그 시스템의 토큰만 refresh하고 한 번 다시 요청
+ *   (BFF는 200으로 부분 결과를 주므로 응답 인터셉터의 401 처리가 동작하지 않음)
+ * 
+ * 생성되는 함수:
+ * - bffApi.dashboard(): 대시보드 (HQ 요약 + 고객 프로필 + 입점사 주문 수)
+ * - bffApi.dashboard({ fail: ["hqErp"], timeout: ["vendorErp"] }): 부분 실패 테스트용
+ * - bffQueries.dashboard(...): useQuery용 { queryKey, queryFn }
+ * 
+ * 아키텍처:
+ *   UI 레이어 (dashboard/page.tsx)
+ *      ↓
+ *   API 호출 레이어 (api/bff.ts) ← 여기
+ *      ↓
+ *   BFF 클라이언트 (lib/axios.ts - bffClient)
+ *      ↓
+ *   BFF 서버 API (app/api/bff/dashboard) → HQ ERP / Client App / Vendor ERP (서버용 클라이언트)
+ */
+
+import type { AxiosRequestConfig } from "axios";
+import type { QueryFunctionContext } from "@tanstack/react-query";
+import { z } from "zod";
+import { SchemaApiError, type ApiErrorContext } from "@/lib/api-error";
+import { BFF_API_NAME } from "@/lib/api-systems";
+import { getBrowserClients } from "@/lib/browser-clients";
+import { publishApiError } from "@/lib/error-bus";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+
+const DASHBOARD_PATH = "/dashboard";
+
+// 실패한 시스템의 에러 요약 (ApiError에서 필요한 값만)
+const sourceError = z.object({
+  kind: z.string(),
+  status: z.number().nullable(),
+  code: z.string().nullable(),
+  message: z.string()
+});
+
+/**
+ * 시스템별 결과
+ * - ok: data 있음
+ * - timeout: 시스템별 타임아웃 초과
+ * - error: 그 외 실패 (HTTP 에러, 네트워크 오류, 응답 스키마 불일치)
+ */
+function sourceResult<TData extends z.ZodTypeAny>(data: TData) {
+  return z.union([
+    z.object({ status: z.literal("ok"), durationMs: z.number(), data }),
+    z.object({
+      status: z.enum(["timeout", "error"]),
+      durationMs: z.number(),
+      error: sourceError
+    })
+  ]);
+}
+
+const dashboardResponse = z.object({
+  sources: z.object({
+    hqErp: sourceResult(z.object({ message: z.string() })),
+    clientApp: sourceResult(z.object({ message: z.string() })),
+    vendorErp: sourceResult(z.object({ totalOrders: z.number() }))
+  }),
+  // 실패한 시스템이 하나라도 있으면 true
+  partial: z.boolean(),
+  generatedAt: z.string()
+});
+
+export type DashboardResponse = z.output<typeof dashboardResponse>;
+export type DashboardSourceError = z.output<typeof sourceError>;
+export type DashboardSource<TSystem extends ApiSystem> = DashboardResponse["sources"][TSystem];
+
+// 데모: 시스템별 강제 실패(500) / 강제 타임아웃
+export type DashboardQuery = {
+  fail?: ApiSystem[];
+  timeout?: ApiSystem[];
+};
+
+function toParams({ fail = [], timeout = [] }: DashboardQuery) {
+  return {
+    fail: fail.length > 0 ? fail.join(",") : undefined,
+    timeout: timeout.length > 0 ? timeout.join(",") : undefined
+  };
+}
+
+async function fetchDashboard(query: DashboardQuery, config?: AxiosRequestConfig) {
+  const { bffClient } = getBrowserClients();
+  const response = await bffClient.get(DASHBOARD_PATH, { ...config, params: toParams(query) });
+  const result = dashboardResponse.safeParse(response.data);
+  if (!result.success) {
+    const context: ApiErrorContext = {
+      apiName: BFF_API_NAME,
+      url: `/api/bff${DASHBOARD_PATH}`,
+      method: "GET"
+    };
+    const error = new SchemaApiError("response", result.error.issues, context);
+    console.error(`[${BFF_API_NAME}] response 스키마 검증 실패`, context.url, error.issues);
+    if (!config?.skipGlobalError) {
+      publishApiError(error);
+    }
+    throw error;
+  }
+  return result.data;
+}
+
+/**
+ * 대시보드 조회
+ * 
+ * 401인 시스템은 토큰을 refresh한 뒤 한 번만 다시 요청합니다 (시스템별 refresh는 세션마다 single-flight).
+ * refresh할 수 없으면(refresh token 없음/거부) 세션 만료 이벤트로 로그인 화면으로 이동합니다.
+ */
+async function dashboard(query: DashboardQuery = {}, config?: AxiosRequestConfig) {
+  const result = await fetchDashboard(query, config);
+  const unauthorized = API_SYSTEMS.filter((system) => {
+    const source: DashboardSource<ApiSystem> = result.sources[system];
+    return source.status === "error" && source.error.status === 401;
+  });
+  if (unauthorized.length === 0) {
+    return result;
+  }
+
+  const { authSessions } = getBrowserClients();
+  const tokens = await Promise.all(
+    unauthorized.map((system) => authSessions[system].refresh(BFF_API_NAME))
+  );
+  return tokens.some(Boolean) ? fetchDashboard(query, config) : result;
+}
+
+export const bffApi = { dashboard };
+
+export const bffQueries = {
+  dashboard: (query: DashboardQuery = {}) => ({
+    queryKey: ["bff", "dashboard", query] as const,
+    // 쿼리 에러는 QueryCache onError가 한 번만 발행 (lib/endpoint.ts와 같은 방식)
+    queryFn: ({ signal }: QueryFunctionContext) =>
+      dashboard(query, { signal, skipGlobalError: true })
+  })
+};
@@ -3,82 +3,130 @@
  * 레이어: API 호출 함수 레이어 (API Call Functions Layer)
  * ============================================================================
  * 
- * 📦 사용 라이브러리: 없음 (순수 TypeScript 함수)
+ * 📦 사용 라이브러리: Zod (요청/응답 스키마)
  * 🔗 연결 레이어:
- *   - 통합 API 클라이언트 (src/lib/axios.ts): hqApi, clientApi, vendorApi 사용
+ *   - 엔드포인트 정의 (src/lib/endpoint.ts): 레지스트리에서 호출 함수/Query 팩토리 생성
  *   - UI 레이어 (src/app/page.tsx): 이 함수들을 호출하여 API 요청
  * 
  * 역할:
- * - 각 API 엔드포인트별로 호출 함수를 정의
- * - 통합 API 클라이언트(lib/axios.ts)를 사용하여 실제 HTTP 요청 수행
+ * - 각 API 엔드포인트를 레지스트리 항목으로 선언
+ * - 요청 쿼리/응답 본문을 스키마로 검증 (반환 타입은 스키마에서 추론)
  * - UI 레이어와 통합 API 클라이언트 사이의 중간 계층
  * 
  * 구조:
- * - 본사 ERP API: /api/hq-erp/summary
+ * - 본사 ERP API: /api/hq-erp/summary, /api/hq-erp/branches (커서 페이지네이션)
  * - 고객 앱 API: /api/client-app/profile
- * - 입점사 ERP API: /api/vendor-erp/orders
+ * - 입점사 ERP API: /api/vendor-erp/orders (주문 리소스 전체는 api/vendor.ts)
  * 
- * 각 API별 함수:
- * - fetchXXX(): 정상 API 호출
- * - fetchXXXWithStatus(): 404/500 에러 테스트용
- * - fetchXXX401(): 401 에러 테스트용 (토큰 만료 시뮬레이션)
+ * 생성되는 함수:
+ * - demoApi.hqSummary(): 정상 API 호출 (401 테스트도 같은 호출, 토큰에 "expired" 포함 시 401)
+ * - demoApi.hqSummary({ query: { status: "404" } }): 404/500 에러 테스트용
+ * - demoApi.hqSummary({ query: createFlakyQuery(2) }): 재시도 테스트용 (N번 503 후 성공)
+ * - demoQueries.hqSummary(): useQuery용 { queryKey, queryFn }
+ * - withDemoClients(clients).api.hqSummary(): 서버용 클라이언트로 호출 (BFF, src/app/api/bff/dashboard/route.ts)
+ * - hqBranchPages.infiniteQuery() / hqBranchPages.items(): 지점 목록 (next 커서 + Link 헤더)
  * 
  * 아키텍처:
  *   UI 레이어 (page.tsx) ← 이 함수들을 호출
  *      ↓
  *   API 호출 레이어 (api/demo.ts) ← 여기
  *      ↓
- *   통합 API 클라이언트 (lib/axios.ts) ← 이 레이어에서 사용
+ *   엔드포인트 정의 (lib/endpoint.ts) ← 스키마 검증
+ *      ↓
+ *   통합 API 클라이언트 (lib/axios.ts)
  */
 
-import { clientApi, hqApi, vendorApi } from "@/lib/axios";
-
-// 본사 ERP API 호출 함수들
-export async function fetchHqSummary() {
-  const { data } = await hqApi.get("/summary");
-  return data as { message: string };
-}
+import { z } from "zod";
+import { createApiRegistry, endpoint } from "@/lib/endpoint";
+import { createPaginatedEndpoint, cursorPagination } from "@/lib/pagination";
 
-export async function fetchHqSummaryWithStatus(status: "404" | "500") {
-  const { data } = await hqApi.get("/summary", { params: { status } });
-  return data as { message: string };
-}
+// 데모 API 공통 응답 스키마
+const messageResponse = z.object({ message: z.string() });
 
-// 고객 앱 API 호출 함수들
-export async function fetchClientProfile() {
-  const { data } = await clientApi.get("/profile");
-  return data as { message: string };
-}
+/**
+ * 데모 API 공통 쿼리 스키마
+ * - status: 404/500 에러 테스트용
+ * - failTimes/failKey/retryAfter: 재시도 테스트용 (서버가 failKey별로 failTimes번 503 반환)
+ */
+const demoQuery = z
+  .object({
+    status: z.enum(["404", "500"]).optional(),
+    failTimes: z.number().int().min(0).optional(),
+    failKey: z.string().min(1).optional(),
+    retryAfter: z.number().min(0).optional()
+  })
+  .optional();
 
-export async function fetchClientProfileWithStatus(status: "404" | "500") {
-  const { data } = await clientApi.get("/profile", { params: { status } });
-  return data as { message: string };
-}
+/**
+ * 엔드포인트 레지스트리
+ * 새 엔드포인트는 여기에 한 항목만 추가하면 demoApi / demoQueries에 함께 생성됩니다.
+ */
+export const {
+  api: demoApi,
+  queries: demoQueries,
+  withClients: withDemoClients
+} = createApiRegistry({
+  // 본사 ERP
+  hqSummary: endpoint({
+    system: "hqErp",
+    path: "/summary",
+    query: demoQuery,
+    response: messageResponse
+  }),
+  // 고객 앱
+  clientProfile: endpoint({
+    system: "clientApp",
+    path: "/profile",
+    query: demoQuery,
+    response: messageResponse
+  }),
+  // 입점사 ERP
+  vendorOrders: endpoint({
+    system: "vendorErp",
+    path: "/orders",
+    query: demoQuery,
+    // 주문 목록 응답 중 데모 카드에 필요한 부분만 검증 (전체 스키마는 api/vendor.ts)
+    response: z.object({ items: z.array(z.unknown()), total: z.number() })
+  })
+});
 
-// 입점사 ERP API 호출 함수들
-export async function fetchVendorOrders() {
-  const { data } = await vendorApi.get("/orders");
-  return data as { message: string };
-}
+export type DemoEndpoint = keyof typeof demoApi;
 
-export async function fetchVendorOrdersWithStatus(status: "404" | "500") {
-  const { data } = await vendorApi.get("/orders", { params: { status } });
-  return data as { message: string };
-}
+const hqBranch = z.object({
+  id: z.string(),
+  name: z.string(),
+  region: z.string(),
+  openedAt: z.string()
+});
 
-// 401 테스트용: Access Token에 "expired"가 포함되면 401 에러 발생
-// 인터셉터가 자동으로 refresh token으로 재발급 후 재요청합니다
-export async function fetchHqSummary401() {
-  const { data } = await hqApi.get("/summary");
-  return data as { message: string };
-}
+/**
+ * 본사 ERP 지점 목록 (커서 페이지네이션)
+ * 다음 커서는 응답 본문 next에 있고, 같은 값이 Link 헤더(rel="next")에도 담겨 옵니다.
+ * 데모 시나리오(runScenario)와 쿼리 형식이 달라 레지스트리에는 넣지 않습니다.
+ */
+export const hqBranchPages = createPaginatedEndpoint(
+  "hqBranches",
+  endpoint({
+    system: "hqErp",
+    path: "/branches",
+    query: z
+      .object({
+        cursor: z.string().optional(),
+        size: z.number().int().min(1).max(50).optional(),
+        region: z.string().optional()
+      })
+      .optional(),
+    response: z.object({ items: z.array(hqBranch), next: z.string().nullable() })
+  }),
+  cursorPagination({ size: 5 })
+);
 
-export async function fetchClientProfile401() {
-  const { data } = await clientApi.get("/profile");
-  return data as { message: string };
-}
+export type HqBranch = z.output<typeof hqBranch>;
+export type DemoQuery = z.input<typeof demoQuery>;
 
-export async function fetchVendorOrders401() {
-  const { data } = await vendorApi.get("/orders");
-  return data as { message: string };
+// 재시도 테스트용: 서버가 failTimes번 503(Retry-After: 1)을 반환한 뒤 성공합니다
+// 재시도 adapter(lib/retry.ts)가 자동으로 재시도하므로 호출부에는 최종 성공만 전달됩니다
+export function createFlakyQuery(failTimes: number) {
+  const failKey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return { failTimes, failKey, retryAfter: 1 };
 }
@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * 레이어: API 호출 함수 레이어 - 입점사 ERP 주문 (API Call Functions Layer - Vendor Orders)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zod (요청/응답 스키마)
+ * 🔗 연결 레이어:
+ *   - 엔드포인트 정의 (src/lib/endpoint.ts): 레지스트리에서 호출 함수/Query 팩토리 생성
+ *   - UI 레이어 (src/app/vendor/orders/): 주문 목록/수정 화면 (서버에서 첫 목록 prefetch)
+ * 
+ * 역할:
+ * - 입점사 ERP 주문 리소스 엔드포인트 선언 (목록, 단건, 생성, 상태 변경, 취소)
+ * - 변경 요청은 If-Match 헤더(주문 version)를 입력으로 받음 → 다른 곳에서 먼저 수정했으면 412
+ * - 주문 생성은 오프라인 큐 사용 (lib/offline-queue.ts, Idempotency-Key 자동 첨부)
+ * 
+ * 생성되는 함수:
+ * - vendorApi.orders({ query: { page, size, status, q, sort, order } }): 주문 목록
+ * - vendorApi.order({ path: { orderId } }): 주문 단건
+ * - vendorApi.createOrder({ body: { sku, quantity, note } }): 주문 생성
+ * - vendorApi.updateOrderStatus({ path, headers: ifMatch(order), body: { status } }): 상태 변경
+ * - vendorApi.cancelOrder({ path, headers: ifMatch(order), body: { reason } }): 취소
+ * - vendorQueries.orders(...) / vendorQueries.order(...): useQuery용 { queryKey, queryFn }
+ * - vendorOrderPages.items({ query }) / vendorOrderPages.infiniteQuery(...): 전체 페이지 순회 / 무한 스크롤
+ * - withVendorClients(clients).queries.orders(...): 서버용 클라이언트로 prefetch (queryKey는 vendorQueries와 같음)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const { data } = useApiQuery(vendorQueries.orders({ query: { page: 1, status: "pending" } }));
+ * const update = useApiMutation(vendorApi.updateOrderStatus); // 성공 시 ["vendorErp"] invalidate
+ * update.mutate({ path: { orderId: order.id }, headers: ifMatch(order), body: { status: "confirmed" } });
+ * ```
+ */
+
+import { z } from "zod";
+import { createApiRegistry, endpoint } from "@/lib/endpoint";
+import { createPaginatedEndpoint, offsetPagination } from "@/lib/pagination";
+
+export const ORDER_STATUSES = ["pending", "confirmed", "shipped", "delivered", "canceled"] as const;
+// 상태 변경(PATCH)으로 바꿀 수 있는 상태 (취소는 cancelOrder로만)
+export const ORDER_STATUS_UPDATES = ["confirmed", "shipped", "delivered"] as const;
+export const ORDER_SORT_FIELDS = ["createdAt", "updatedAt", "quantity", "sku"] as const;
+
+const orderStatus = z.enum(ORDER_STATUSES);
+
+const vendorOrder = z.object({
+  id: z.string(),
+  sku: z.string(),
+  quantity: z.number(),
+  note: z.string().nullable(),
+  status: orderStatus,
+  cancelReason: z.string().nullable(),
+  version: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  // 현재 상태에서 바꿀 수 있는 상태 (서버 상태 전이 규칙)
+  nextStatuses: z.array(orderStatus)
+});
+
+const orderPage = z.object({
+  items: z.array(vendorOrder),
+  page: z.number(),
+  size: z.number(),
+  total: z.number(),
+  totalPages: z.number()
+});
+
+const orderListQuery = z
+  .object({
+    page: z.number().int().min(1).optional(),
+    size: z.number().int().min(1).max(100).optional(),
+    status: orderStatus.optional(),
+    q: z.string().optional(),
+    sort: z.enum(ORDER_SORT_FIELDS).optional(),
+    order: z.enum(["asc", "desc"]).optional()
+  })
+  .optional();
+
+// 주문 관리 화면의 첫 목록 조건 (서버 prefetch와 클라이언트 첫 쿼리가 같은 queryKey를 쓰도록 공유)
+export const DEFAULT_ORDER_LIST_QUERY: OrderListQuery = {
+  page: 1,
+  size: 10,
+  sort: "createdAt",
+  order: "desc"
+};
+
+// 변경 요청의 동시성 제어 헤더 (서버 ETag 형식: "<version>")
+const ifMatchHeaders = z.object({ "If-Match": z.string().min(1) });
+
+export const createOrderBody = z.object({
+  sku: z.string().trim().min(1, "SKU를 입력하세요"),
+  quantity: z.number().int("정수만 입력할 수 있습니다").positive("1 이상 입력하세요"),
+  note: z.string().optional()
+});
+
+const orderList = endpoint({
+  system: "vendorErp",
+  path: "/orders",
+  query: orderListQuery,
+  response: orderPage
+});
+
+/**
+ * 입점사 ERP 주문 엔드포인트 레지스트리
+ */
+export const {
+  api: vendorApi,
+  queries: vendorQueries,
+  withClients: withVendorClients
+} = createApiRegistry({
+  orders: orderList,
+  order: endpoint({
+    system: "vendorErp",
+    path: "/orders/:orderId",
+    response: vendorOrder
+  }),
+  // 불안정한 네트워크에서도 유실되지 않도록 오프라인 큐 사용
+  createOrder: endpoint({
+    system: "vendorErp",
+    method: "post",
+    path: "/orders",
+    body: createOrderBody,
+    response: vendorOrder,
+    offlineQueue: true
+  }),
+  updateOrderStatus: endpoint({
+    system: "vendorErp",
+    method: "patch",
+    path: "/orders/:orderId",
+    headers: ifMatchHeaders,
+    body: z.object({ status: z.enum(ORDER_STATUS_UPDATES) }),
+    response: vendorOrder
+  }),
+  cancelOrder: endpoint({
+    system: "vendorErp",
+    method: "post",
+    path: "/orders/:orderId/cancel",
+    headers: ifMatchHeaders,
+    body: z.object({ reason: z.string().optional() }).optional(),
+    response: vendorOrder
+  })
+});
+
+/**
+ * 주문 목록 페이지 순회 (offset: page/size, 응답의 totalPages로 마지막 페이지 판단)
+ * queryKey 이름이 레지스트리와 같은 "orders"라 주문 변경 후 함께 invalidate됩니다.
+ */
+export const vendorOrderPages = createPaginatedEndpoint(
+  "orders",
+  orderList,
+  offsetPagination({ size: 20 })
+);
+
+export type VendorOrder = z.output<typeof vendorOrder>;
+export type OrderStatus = z.output<typeof orderStatus>;
+export type OrderStatusUpdate = (typeof ORDER_STATUS_UPDATES)[number];
+export type OrderListQuery = NonNullable<z.input<typeof orderListQuery>>;
+
+export function isOrderStatusUpdate(status: OrderStatus): status is OrderStatusUpdate {
+  return (ORDER_STATUS_UPDATES as readonly OrderStatus[]).includes(status);
+}
+
+/**
+ * 주문 version → If-Match 헤더
+ */
+export function ifMatch(order: Pick<VendorOrder, "version">) {
+  return { "If-Match": `"${order.version}"` };
+}
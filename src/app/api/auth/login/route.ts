@@ -0,0 +1,60 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes, Zod
+ * 
+ * 역할:
+ * - 아이디/비밀번호를 검증하고 API 시스템(audience)별로 access/refresh token 쌍을 발급
+ * - audience마다 별도 토큰 family를 시작하므로 시스템별 인증 세션이 서로의 refresh token을 회전시키지 않음
+ * 
+ * 아키텍처:
+ *   인증 서비스 (lib/auth-service.ts - login) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { NextResponse } from "next/server";
+import { API_AUDIENCES, isApiAudience } from "@/lib/api-audience";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { issueTokenPair, type IssuedTokens } from "@/server/token-store";
+import { loginInput, verifyCredentials } from "@/server/users";
+
+/**
+ * 인증 API - 로그인 엔드포인트
+ * 
+ * 요청: POST { username, password, audiences? }
+ * 응답:
+ * - 200 { user: { id, username, name, roles }, tokens: { [audience]: { accessToken, refreshToken } } }
+ * - 400 INVALID_AUDIENCE: 알 수 없는 audience
+ * - 401 INVALID_CREDENTIALS: 아이디 또는 비밀번호 불일치 (어느 쪽이 틀렸는지는 알려주지 않음)
+ * - 422 VALIDATION_FAILED: 필수 입력 누락
+ */
+export async function POST(request: Request) {
+  const parsed = loginInput.safeParse(await request.json().catch(() => undefined));
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error, "Invalid login request");
+  }
+
+  const { username, password, audiences = Object.values(API_AUDIENCES) } = parsed.data;
+  if (!audiences.every(isApiAudience)) {
+    return apiErrorResponse(400, "INVALID_AUDIENCE", "Unknown audience", {
+      details: { audiences }
+    });
+  }
+
+  const user = verifyCredentials(username, password);
+  if (!user) {
+    return apiErrorResponse(401, "INVALID_CREDENTIALS", "Invalid username or password");
+  }
+
+  const tokens: Record<string, IssuedTokens> = {};
+  for (const audience of new Set(audiences)) {
+    tokens[audience] = issueTokenPair({
+      subject: user.id,
+      name: user.name,
+      audience: [audience],
+      roles: user.roles
+    });
+  }
+
+  // 발급된 토큰은 캐시되면 안 됩니다
+  return NextResponse.json({ user, tokens }, { headers: { "Cache-Control": "no-store" } });
+}
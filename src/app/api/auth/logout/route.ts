@@ -0,0 +1,31 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 로그아웃: 전달받은 refresh token이 속한 토큰 family를 폐기
+ *   (이미 발급된 access token은 만료 시각까지 유효하므로 수명을 짧게 유지합니다)
+ * 
+ * 아키텍처:
+ *   인증 서비스 (lib/auth-service.ts - logout) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { revokeRefreshToken } from "@/server/token-store";
+
+/**
+ * 인증 API - 로그아웃 엔드포인트
+ * 
+ * 요청: POST { refreshTokens: string[] } (API 시스템별 refresh token)
+ * 응답: 204 (알 수 없거나 이미 폐기된 토큰이어도 같은 응답, 여러 번 호출해도 안전)
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { refreshTokens?: unknown } | null;
+  const refreshTokens = Array.isArray(body?.refreshTokens) ? body.refreshTokens : [];
+
+  refreshTokens
+    .filter((token): token is string => typeof token === "string")
+    .forEach((token) => revokeRefreshToken(token));
+
+  return new Response(null, { status: 204, headers: { "Cache-Control": "no-store" } });
+}
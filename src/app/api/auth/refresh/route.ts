@@ -0,0 +1,64 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - refresh token을 검증하고 새 access/refresh token 쌍을 발급 (rotation)
+ * - 이미 사용된 refresh token 재사용 시 거부 및 세션 폐기
+ * 
+ * 아키텍처:
+ *   통합 API 클라이언트 (lib/axios.ts - refreshAccessToken) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { NextResponse } from "next/server";
+import { isApiAudience } from "@/lib/api-audience";
+import { rotateRefreshToken } from "@/server/token-store";
+import { apiErrorResponse } from "@/server/api-response";
+
+/**
+ * 인증 API - Refresh 엔드포인트
+ * 
+ * 요청: POST { refreshToken, audience? }
+ * - audience: access token을 사용할 API 시스템 (문자열 또는 배열, 새 family를 시작할 때만 적용)
+ * 응답:
+ * - 200 { accessToken, refreshToken }
+ * - 400 REFRESH_TOKEN_MISSING: refresh token 누락
+ * - 400 INVALID_AUDIENCE: 알 수 없는 audience
+ * - 401 REFRESH_TOKEN_INVALID / REFRESH_TOKEN_EXPIRED / REFRESH_TOKEN_REUSED: 검증 실패
+ * 
+ * 에러 응답의 details.reason으로 실패 사유("missing" | "invalid" | "expired" | "reused")를 전달합니다.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    refreshToken?: unknown;
+    audience?: unknown;
+  } | null;
+  const refreshToken = typeof body?.refreshToken === "string" ? body.refreshToken : "";
+
+  if (!refreshToken) {
+    return apiErrorResponse(400, "REFRESH_TOKEN_MISSING", "Refresh token is required", {
+      details: { reason: "missing" }
+    });
+  }
+
+  const audience = body?.audience === undefined ? undefined : [body.audience].flat();
+  if (audience && (audience.length === 0 || !audience.every(isApiAudience))) {
+    return apiErrorResponse(400, "INVALID_AUDIENCE", "Unknown audience", {
+      details: { audience: body?.audience }
+    });
+  }
+
+  const result = rotateRefreshToken(refreshToken, audience as string[] | undefined);
+  if (!result.ok) {
+    return apiErrorResponse(
+      401,
+      `REFRESH_TOKEN_${result.reason.toUpperCase()}`,
+      `Refresh token ${result.reason}`,
+      { details: { reason: result.reason } }
+    );
+  }
+
+  // 회전된 토큰은 캐시되면 안 됩니다
+  return NextResponse.json(result.tokens, { headers: { "Cache-Control": "no-store" } });
+}
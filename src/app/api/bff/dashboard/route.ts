@@ -0,0 +1,117 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes, axios (서버용 API 클라이언트)
+ * 
+ * 역할:
+ * - BFF(Backend-for-frontend): 대시보드에 필요한 HQ ERP / Client App / Vendor ERP 데이터를 한 번에 제공
+ * - 세 시스템을 병렬로 호출하고, 시스템마다 타임아웃을 따로 적용 (가장 느린 시스템이 전체를 막지 않음)
+ * - 일부 시스템이 실패해도 200으로 부분 결과를 반환 (시스템별 status: ok / timeout / error + 에러 요약)
+ * - 시스템별 access token은 요청의 X-Hq-Erp-Token 등 헤더(또는 토큰 쿠키)에서 읽어 그대로 전달
+ *   (BFF 자체는 토큰을 검증하지 않고, 각 시스템이 자기 audience/scope로 검증 → 401/403은 시스템별 결과에 담김)
+ * 
+ * 아키텍처:
+ *   BFF 클라이언트 (lib/axios.ts - bffClient) -> BFF (app/api/bff) <- 여기
+ *     -> 서버용 API 클라이언트 (server/api-client.ts) -> 각 시스템 API (app/api/hq-erp, client-app, vendor-erp)
+ */
+
+import { NextResponse } from "next/server";
+import type { DashboardResponse, DashboardSourceError } from "@/api/bff";
+import { withDemoClients } from "@/api/demo";
+import { toApiError } from "@/lib/api-error";
+import { API_NAMES } from "@/lib/api-systems";
+import { createServerApiClients } from "@/server/api-client";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+
+// 시스템별 타임아웃 (ms)
+const UPSTREAM_TIMEOUTS_MS: Record<ApiSystem, number> = {
+  hqErp: 2000,
+  clientApp: 1500,
+  vendorErp: 3000
+};
+
+// 데모: timeout 쿼리로 지정한 시스템은 이 타임아웃으로 호출해 타임아웃을 재현
+const FORCED_TIMEOUT_MS = 1;
+
+type SourceResult<TData> =
+  | { status: "ok"; durationMs: number; data: TData }
+  | { status: "timeout" | "error"; durationMs: number; error: DashboardSourceError };
+
+/**
+ * "hqErp,vendorErp" → ["hqErp", "vendorErp"] (알 수 없는 이름은 무시)
+ */
+function parseSystems(value: string | null): ApiSystem[] {
+  return (value ?? "")
+    .split(",")
+    .filter((name): name is ApiSystem => API_SYSTEMS.includes(name as ApiSystem));
+}
+
+/**
+ * 시스템 호출 결과 → 시스템별 결과 (실패는 throw하지 않고 에러 요약으로 변환)
+ */
+async function settle<TData>(apiName: string, call: () => Promise<TData>): Promise<SourceResult<TData>> {
+  const startedAt = Date.now();
+  try {
+    const data = await call();
+    return { status: "ok", durationMs: Date.now() - startedAt, data };
+  } catch (error) {
+    const apiError = toApiError(error, apiName);
+    return {
+      status: apiError.kind === "timeout" ? "timeout" : "error",
+      durationMs: Date.now() - startedAt,
+      error: {
+        kind: apiError.kind,
+        status: apiError.status,
+        code: apiError.kind === "http" ? apiError.code : null,
+        message: apiError.message
+      }
+    };
+  }
+}
+
+/**
+ * BFF - 대시보드
+ * 
+ * 요청: GET (헤더: X-Hq-Erp-Token, X-Client-App-Token, X-Vendor-Erp-Token)
+ * 응답: 200 { sources: { hqErp, clientApp, vendorErp }, partial, generatedAt }
+ * 데모용: fail=<시스템,...> 쿼리로 해당 시스템에 500을, timeout=<시스템,...> 쿼리로 타임아웃을 발생시킬 수 있습니다.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const failing = parseSystems(url.searchParams.get("fail"));
+  const timingOut = parseSystems(url.searchParams.get("timeout"));
+
+  const { api } = withDemoClients(createServerApiClients());
+  // 시스템별 요청 옵션 (서버 에러 버스로 발행하지 않음 → 결과는 응답에 담김)
+  const options = (system: ApiSystem) => ({
+    input: { query: failing.includes(system) ? { status: "500" as const } : undefined },
+    config: {
+      timeout: timingOut.includes(system) ? FORCED_TIMEOUT_MS : UPSTREAM_TIMEOUTS_MS[system],
+      skipGlobalError: true
+    }
+  });
+
+  const [hqErp, clientApp, vendorErp] = await Promise.all([
+    settle(API_NAMES.hqErp, () => {
+      const { input, config } = options("hqErp");
+      return api.hqSummary(input, config);
+    }),
+    settle(API_NAMES.clientApp, () => {
+      const { input, config } = options("clientApp");
+      return api.clientProfile(input, config);
+    }),
+    settle(API_NAMES.vendorErp, async () => {
+      const { input, config } = options("vendorErp");
+      const { total } = await api.vendorOrders(input, config);
+      return { totalOrders: total };
+    })
+  ]);
+
+  const body: DashboardResponse = {
+    sources: { hqErp, clientApp, vendorErp },
+    partial: [hqErp, clientApp, vendorErp].some((source) => source.status !== "ok"),
+    generatedAt: new Date().toISOString()
+  };
+  // 사용자별 토큰으로 만든 응답이므로 캐시하지 않음
+  return NextResponse.json(body, { headers: { "Cache-Control": "no-store" } });
+}
@@ -6,6 +6,7 @@
  * 역할:
  * - 실제 HTTP 요청을 처리하는 서버 사이드 엔드포인트
  * - 데모용으로 401/404/500 에러를 시뮬레이션
+ * - 에러는 공통 형식(ApiErrorEnvelope: code, message, details, fieldErrors, traceId)으로 응답
  * - 통합 API 클라이언트에서 호출되는 실제 API 서버 역할
  * 
  * 아키텍처:
@@ -13,29 +14,37 @@
  */
 
 import { NextResponse } from "next/server";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { simulateFlakyFailure } from "@/server/flaky";
+import { apiErrorResponse } from "@/server/api-response";
+
+// 이 API 시스템용으로 발급되고 프로필 조회 권한이 있는 access token만 허용
+const AUTH: AuthOptions = { audience: API_AUDIENCES.clientApp, scopes: ["client:profile:read"] };
 
 /**
  * 고객 앱 API - Profile 엔드포인트
  * 데모용: status 쿼리 파라미터로 404/500 에러를 시뮬레이션할 수 있습니다.
+ * 데모용: failTimes/failKey 쿼리 파라미터로 "N번 실패 후 성공"을 시뮬레이션할 수 있습니다.
  */
-export async function GET(request: Request) {
+export const GET = withAuth(AUTH, async (request, { claims }) => {
   const url = new URL(request.url);
   const status = url.searchParams.get("status");
-  const authHeader = request.headers.get("authorization") ?? "";
-
-  // 데모: Authorization 헤더에 "expired"가 포함되면 401 반환 (토큰 만료 시뮬레이션)
-  if (authHeader.includes("expired")) {
-    return NextResponse.json({ message: "Token expired" }, { status: 401 });
-  }
 
   // 데모: status 쿼리 파라미터로 404/500 에러 강제 발생 (인터셉터 테스트용)
   if (status === "404") {
-    return NextResponse.json({ message: "Profile not found" }, { status: 404 });
+    return apiErrorResponse(404, "NOT_FOUND", "Profile not found");
   }
   if (status === "500") {
-    return NextResponse.json({ message: "Client app error" }, { status: 500 });
+    return apiErrorResponse(500, "INTERNAL_ERROR", "Client app error");
+  }
+
+  // 데모: N번 실패 후 성공 (재시도 정책 테스트용)
+  const flakyResponse = simulateFlakyFailure(url, "Client app");
+  if (flakyResponse) {
+    return flakyResponse;
   }
 
-  // 정상 응답
-  return NextResponse.json({ message: "Client profile ok" });
-}
+  // 정상 응답 (검증된 토큰의 사용자)
+  return NextResponse.json({ message: "Client profile ok", userId: claims.sub });
+});
@@ -0,0 +1,43 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 본사 ERP 지점 목록 (커서 페이지네이션)
+ * - 본문의 next 커서와 Link 헤더(rel="next")로 다음 페이지를 함께 알려줌
+ * 
+ * 아키텍처:
+ *   페이지네이션 유틸 (lib/pagination.ts) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { NextResponse } from "next/server";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { listBranchesQuery, listHqBranches } from "@/server/hq-branches";
+import { nextLinkHeader } from "@/server/pagination";
+
+// 이 API 시스템용으로 발급되고 본사 조회 권한(hq:read)이 있는 access token만 허용
+const AUTH: AuthOptions = { audience: API_AUDIENCES.hqErp, scopes: ["hq:read"] };
+
+/**
+ * 본사 ERP API - 지점 목록
+ * 쿼리: cursor(이전 응답의 next), size(최대 50), region
+ * 잘못된 쿼리는 422 + fieldErrors, 알 수 없는 커서는 422 INVALID_CURSOR로 응답합니다.
+ */
+export const GET = withAuth(AUTH, async (request) => {
+  const url = new URL(request.url);
+
+  const query = listBranchesQuery.safeParse(Object.fromEntries(url.searchParams));
+  if (!query.success) {
+    return validationErrorResponse(query.error, "Invalid branch list query");
+  }
+
+  const page = listHqBranches(query.data);
+  if (!page) {
+    return apiErrorResponse(422, "INVALID_CURSOR", "Cursor does not point to a branch");
+  }
+
+  return NextResponse.json(page, { headers: nextLinkHeader(request, { cursor: page.next }) });
+});
@@ -0,0 +1,55 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 클라이언트 요청 로그 수집 (beacon sink가 모아서 전송, lib/request-log.ts)
+ * - 수집된 최근 로그 조회 (운영자 전용: HQ ERP audience + hq:logs:read scope)
+ * 
+ * 아키텍처:
+ *   요청 로그 beacon sink (lib/request-log.ts) -> 로그 수집 API (app/api/logs) <- 여기
+ */
+
+import { NextResponse } from "next/server";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { collectLogs, collectLogsInput, listCollectedLogs } from "@/server/log-collector";
+
+// 수집된 로그에는 다른 사용자의 요청 URL/헤더가 담기므로 운영자 scope가 있는 토큰만 조회 허용
+const READ_AUTH: AuthOptions = { audience: API_AUDIENCES.hqErp, scopes: ["hq:logs:read"] };
+
+/**
+ * 로그 수집
+ * sendBeacon은 Authorization 헤더를 보낼 수 없으므로 인증 없이 받습니다.
+ * sendBeacon은 응답을 읽지 않으므로 본문 없이 204로 응답합니다.
+ * 잘못된 본문은 400(JSON 아님) / 422(형식 불일치)로 응답합니다.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = JSON.parse(await request.text());
+  } catch {
+    return apiErrorResponse(400, "INVALID_JSON", "Request body must be JSON");
+  }
+
+  const parsed = collectLogsInput.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error, "Invalid log entries");
+  }
+
+  collectLogs(parsed.data.entries);
+  return new NextResponse(null, { status: 204 });
+}
+
+/**
+ * 최근 로그 조회
+ * 쿼리: requestId(같은 요청 ID만), limit(기본 50, 최대 500)
+ */
+export const GET = withAuth(READ_AUTH, async (request) => {
+  const url = new URL(request.url);
+  const limit = Math.min(500, Math.max(1, Number(url.searchParams.get("limit")) || 50));
+  const requestId = url.searchParams.get("requestId") ?? undefined;
+  return NextResponse.json({ items: listCollectedLogs({ requestId, limit }) });
+});
@@ -0,0 +1,78 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 클라이언트 메트릭 수집 (exporter가 주기적으로 전송, lib/metrics.ts)
+ *   - Content-Type: text/plain → Prometheus 텍스트, application/json → OTLP-JSON
+ *   - ?instance=<탭 ID>별로 최신 값만 보관
+ * - 수집된 메트릭 조회 (운영자 전용: HQ ERP audience + hq:metrics:read scope)
+ * 
+ * 아키텍처:
+ *   메트릭 exporter (lib/metrics.ts) -> 메트릭 수집 API (app/api/metrics) <- 여기
+ */
+
+import { NextResponse } from "next/server";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import {
+  collectMetrics,
+  listCollectedMetrics,
+  MAX_METRICS_BODY_BYTES,
+  otlpMetricsInput
+} from "@/server/metrics-collector";
+
+// instance ID 형식 (exporter는 UUID 사용)
+const INSTANCE_PATTERN = /^[\w-]{1,64}$/;
+
+// 수집된 메트릭에는 라우트별 URL/응답 시간/에러율이 담기므로 운영자 scope가 있는 토큰만 조회 허용
+const READ_AUTH: AuthOptions = { audience: API_AUDIENCES.hqErp, scopes: ["hq:metrics:read"] };
+
+/**
+ * 메트릭 수집
+ * sendBeacon은 Authorization 헤더를 보낼 수 없으므로 인증 없이 받습니다.
+ * sendBeacon은 응답을 읽지 않으므로 본문 없이 204로 응답합니다.
+ * instance가 없으면 400, 본문이 너무 크면 413, OTLP 형식이 틀리면 422로 응답합니다.
+ */
+export async function POST(request: Request) {
+  const instance = new URL(request.url).searchParams.get("instance") ?? "";
+  if (!INSTANCE_PATTERN.test(instance)) {
+    return apiErrorResponse(400, "INVALID_INSTANCE", "instance query parameter is required");
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_METRICS_BODY_BYTES) {
+    return apiErrorResponse(413, "PAYLOAD_TOO_LARGE", "Metrics payload is too large");
+  }
+
+  if (!request.headers.get("content-type")?.includes("application/json")) {
+    collectMetrics({ instance, format: "prometheus", body: text });
+    return new NextResponse(null, { status: 204 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return apiErrorResponse(400, "INVALID_JSON", "Request body must be JSON");
+  }
+
+  const parsed = otlpMetricsInput.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error, "Invalid OTLP metrics");
+  }
+
+  collectMetrics({ instance, format: "otlp", body: parsed.data });
+  return new NextResponse(null, { status: 204 });
+}
+
+/**
+ * 수집된 메트릭 조회 (instance별 최신 값)
+ * 쿼리: instance(해당 탭만)
+ */
+export const GET = withAuth(READ_AUTH, async (request) => {
+  const instance = new URL(request.url).searchParams.get("instance") ?? undefined;
+  return NextResponse.json({ items: listCollectedMetrics(instance) });
+});
@@ -0,0 +1,64 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 입점사 ERP 주문 취소 (POST /orders/:orderId/cancel)
+ * - If-Match로 동시 수정을 막음 (If-Match 없음 → 428, 버전 불일치 → 412)
+ * - 이미 출고/배송/취소된 주문은 409
+ * 
+ * 아키텍처:
+ *   통합 API 클라이언트 (lib/axios.ts) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { checkIfMatch, jsonWithETag, versionETag } from "@/server/etag";
+import {
+  canTransition,
+  cancelOrderInput,
+  findVendorOrder,
+  toOrderJson,
+  updateVendorOrder
+} from "@/server/vendor-orders";
+
+// 이 API 시스템용으로 발급되고 주문 변경 권한이 있는 access token만 허용
+const WRITE_AUTH: AuthOptions = { audience: API_AUDIENCES.vendorErp, scopes: ["vendor:orders:write"] };
+
+type RouteContext = { params: { orderId: string } };
+
+/**
+ * 입점사 ERP API - 주문 취소
+ * 본문(선택): { reason?: string }, 헤더: If-Match: "<version>"
+ */
+export const POST = withAuth<RouteContext>(WRITE_AUTH, async (request, { params }) => {
+  const order = findVendorOrder(params.orderId);
+  if (!order) {
+    return apiErrorResponse(404, "ORDER_NOT_FOUND", `Order ${params.orderId} not found`);
+  }
+
+  // 본문이 없으면 사유 없이 취소
+  const parsed = cancelOrderInput.safeParse((await request.json().catch(() => null)) ?? {});
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error, "Invalid cancel request");
+  }
+
+  const preconditionFailed = checkIfMatch(request, versionETag(order.version));
+  if (preconditionFailed) {
+    return preconditionFailed;
+  }
+
+  if (!canTransition(order.status, "canceled")) {
+    return apiErrorResponse(
+      409,
+      "ORDER_NOT_CANCELABLE",
+      `Order in ${order.status} status cannot be canceled`,
+      { details: { status: order.status } }
+    );
+  }
+
+  updateVendorOrder(order, { status: "canceled", cancelReason: parsed.data.reason || null });
+  return jsonWithETag(request, toOrderJson(order), { etag: versionETag(order.version) });
+});
@@ -0,0 +1,76 @@
+/**
+ * 레이어: 서버 API 레이어 (Server API Layer / Backend)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 입점사 ERP 주문 단건 조회(GET) / 상태 변경(PATCH)
+ * - 응답에 버전 기반 ETag를 붙이고, 변경 요청은 If-Match로 동시 수정을 막음
+ *   (If-Match 없음 → 428, 버전 불일치 → 412)
+ * - 본문 검증 실패 → 422, 허용되지 않는 상태 전이 → 409
+ * 
+ * 아키텍처:
+ *   통합 API 클라이언트 (lib/axios.ts) -> 서버 API 레이어 (app/api) <- 여기
+ */
+
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { checkIfMatch, jsonWithETag, versionETag } from "@/server/etag";
+import {
+  canTransition,
+  findVendorOrder,
+  toOrderJson,
+  updateOrderStatusInput,
+  updateVendorOrder
+} from "@/server/vendor-orders";
+
+// 이 API 시스템용으로 발급되고 주문 조회/변경 권한이 있는 access token만 허용
+const READ_AUTH: AuthOptions = { audience: API_AUDIENCES.vendorErp, scopes: ["vendor:orders:read"] };
+const WRITE_AUTH: AuthOptions = { audience: API_AUDIENCES.vendorErp, scopes: ["vendor:orders:write"] };
+
+type RouteContext = { params: { orderId: string } };
+
+/**
+ * 입점사 ERP API - 주문 단건 조회
+ */
+export const GET = withAuth<RouteContext>(READ_AUTH, async (request, { params }) => {
+  const order = findVendorOrder(params.orderId);
+  if (!order) {
+    return apiErrorResponse(404, "ORDER_NOT_FOUND", `Order ${params.orderId} not found`);
+  }
+  return jsonWithETag(request, toOrderJson(order), { etag: versionETag(order.version) });
+});
+
+/**
+ * 입점사 ERP API - 주문 상태 변경
+ * 본문: { status: "confirmed" | "shipped" | "delivered" }, 헤더: If-Match: "<version>"
+ */
+export const PATCH = withAuth<RouteContext>(WRITE_AUTH, async (request, { params }) => {
+  const order = findVendorOrder(params.orderId);
+  if (!order) {
+    return apiErrorResponse(404, "ORDER_NOT_FOUND", `Order ${params.orderId} not found`);
+  }
+
+  const parsed = updateOrderStatusInput.safeParse(await request.json().catch(() => undefined));
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error, "Invalid order status");
+  }
+
+  const preconditionFailed = checkIfMatch(request, versionETag(order.version));
+  if (preconditionFailed) {
+    return preconditionFailed;
+  }
+
+  if (!canTransition(order.status, parsed.data.status)) {
+    return apiErrorResponse(
+      409,
+      "INVALID_STATUS_TRANSITION",
+      `Cannot change order status from ${order.status} to ${parsed.data.status}`,
+      { details: { from: order.status, to: parsed.data.status } }
+    );
+  }
+
+  updateVendorOrder(order, { status: parsed.data.status });
+  return jsonWithETag(request, toOrderJson(order), { etag: versionETag(order.version) });
+});
@@ -6,6 +6,9 @@
  * 역할:
  * - 실제 HTTP 요청을 처리하는 서버 사이드 엔드포인트
  * - 데모용으로 401/404/500 에러를 시뮬레이션
+ * - 에러는 공통 형식(ApiErrorEnvelope: code, message, details, fieldErrors, traceId)으로 응답
+ * - 주문 목록 조회(GET: 페이지네이션/필터/정렬), 주문 생성(POST)
+ * - 주문 생성(POST)은 Idempotency-Key를 지원 (같은 키로 다시 오면 저장된 응답 반환)
  * - 통합 API 클라이언트에서 호출되는 실제 API 서버 역할
  * 
  * 아키텍처:
@@ -13,29 +16,85 @@
  */
 
 import { NextResponse } from "next/server";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { withAuth, type AuthOptions } from "@/server/auth";
+import { simulateFlakyFailure } from "@/server/flaky";
+import { apiErrorResponse, validationErrorResponse } from "@/server/api-response";
+import { jsonWithETag, versionETag } from "@/server/etag";
+import { withIdempotency } from "@/server/idempotency";
+import {
+  createOrderInput,
+  createVendorOrder,
+  listOrdersQuery,
+  listVendorOrders,
+  toOrderJson
+} from "@/server/vendor-orders";
+
+// 이 API 시스템용으로 발급되고 주문 조회/변경 권한이 있는 access token만 허용
+const READ_AUTH: AuthOptions = { audience: API_AUDIENCES.vendorErp, scopes: ["vendor:orders:read"] };
+const WRITE_AUTH: AuthOptions = { audience: API_AUDIENCES.vendorErp, scopes: ["vendor:orders:write"] };
 
 /**
- * 입점사 ERP API - Orders 엔드포인트
- * 데모용: status 쿼리 파라미터로 404/500 에러를 시뮬레이션할 수 있습니다.
+ * 입점사 ERP API - 주문 목록
+ * 쿼리: page, size(최대 100), status, q(주문 ID/SKU 검색), sort(createdAt|updatedAt|quantity|sku), order(asc|desc)
+ * 잘못된 쿼리는 422 + fieldErrors로 응답합니다.
+ * 데모용: status=404/500 쿼리 파라미터로 404/500 에러를 시뮬레이션할 수 있습니다.
+ * 데모용: failTimes/failKey 쿼리 파라미터로 "N번 실패 후 성공"을 시뮬레이션할 수 있습니다.
  */
-export async function GET(request: Request) {
+export const GET = withAuth(READ_AUTH, async (request) => {
   const url = new URL(request.url);
   const status = url.searchParams.get("status");
-  const authHeader = request.headers.get("authorization") ?? "";
-
-  // 데모: Authorization 헤더에 "expired"가 포함되면 401 반환 (토큰 만료 시뮬레이션)
-  if (authHeader.includes("expired")) {
-    return NextResponse.json({ message: "Token expired" }, { status: 401 });
-  }
 
   // 데모: status 쿼리 파라미터로 404/500 에러 강제 발생 (인터셉터 테스트용)
   if (status === "404") {
-    return NextResponse.json({ message: "Vendor orders not found" }, { status: 404 });
+    return apiErrorResponse(404, "NOT_FOUND", "Vendor orders not found");
   }
   if (status === "500") {
-    return NextResponse.json({ message: "Vendor ERP error" }, { status: 500 });
+    return apiErrorResponse(500, "INTERNAL_ERROR", "Vendor ERP error");
+  }
+
+  // 데모: N번 실패 후 성공 (재시도 정책 테스트용)
+  const flakyResponse = simulateFlakyFailure(url, "Vendor ERP");
+  if (flakyResponse) {
+    return flakyResponse;
+  }
+
+  const query = listOrdersQuery.safeParse(Object.fromEntries(url.searchParams));
+  if (!query.success) {
+    return validationErrorResponse(query.error, "Invalid order list query");
   }
 
-  // 정상 응답
-  return NextResponse.json({ message: "Vendor orders ok" });
+  // 매번 재검증 (변경이 잦은 목록이므로 max-age 없이 ETag만 사용)
+  return jsonWithETag(request, listVendorOrders(query.data));
+});
+
+/**
+ * 입점사 ERP API - 주문 생성
+ * Idempotency-Key 헤더가 있으면 같은 키의 재전송(오프라인 큐, 네트워크 오류 후 재시도)을 한 번만 처리합니다.
+ * 본문 검증 실패는 422 + fieldErrors로 응답합니다.
+ */
+export const POST = withAuth(WRITE_AUTH, async (request, { claims }) => {
+  return withIdempotency(request, claims.sub, (rawBody) => {
+    const parsed = createOrderInput.safeParse(parseJson(rawBody));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error, "Invalid order");
+    }
+
+    const order = createVendorOrder(parsed.data);
+    return NextResponse.json(toOrderJson(order), {
+      status: 201,
+      headers: {
+        Location: `/api/vendor-erp/orders/${order.id}`,
+        ETag: versionETag(order.version)
+      }
+    });
+  });
+});
+
+function parseJson(rawBody: string): unknown {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return undefined;
+  }
 }
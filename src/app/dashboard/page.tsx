@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 대시보드 (Presentation Layer - Dashboard)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: TanStack Query (useApiQuery)
+ * 🔗 연결 레이어:
+ *   - API 호출 레이어 (src/api/bff.ts): bffQueries.dashboard (BFF 한 번 호출로 세 시스템 데이터)
+ * 
+ * 역할:
+ * - HQ ERP 요약, 고객 프로필, 입점사 주문 수를 한 화면에 표시
+ * - 시스템별 결과(ok / timeout / error)와 소요 시간을 카드로 표시 (일부가 실패해도 나머지는 표시)
+ * - 데모: 시스템별 강제 실패(500) / 강제 타임아웃 선택
+ */
+
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { bffQueries, type DashboardQuery, type DashboardSource } from "@/api/bff";
+import { useApiQuery } from "@/lib/api-query";
+import { API_NAMES } from "@/lib/api-systems";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+
+const STATUS_STYLES: Record<DashboardSource<ApiSystem>["status"], string> = {
+  ok: "bg-emerald-50 text-emerald-700",
+  timeout: "bg-amber-50 text-amber-700",
+  error: "bg-red-50 text-red-700"
+};
+
+export default function DashboardPage() {
+  const [query, setQuery] = useState<Required<DashboardQuery>>({ fail: [], timeout: [] });
+  const dashboardQuery = useApiQuery(bffQueries.dashboard(query));
+  const dashboard = dashboardQuery.data;
+
+  // 데모: 시스템별 강제 실패/타임아웃 토글
+  const toggle = (key: keyof DashboardQuery, system: ApiSystem) =>
+    setQuery((current) => ({
+      ...current,
+      [key]: current[key].includes(system)
+        ? current[key].filter((item) => item !== system)
+        : [...current[key], system]
+    }));
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-5xl flex-col gap-6 px-6 py-10">
+      <section className="rounded-2xl border border-brand-200 bg-white/70 p-8 shadow-sm">
+        <Link className="text-xs text-brand-600 underline" href="/">
+          ← 데모 홈
+        </Link>
+        <h1 className="mt-2 text-2xl font-semibold">대시보드 (BFF)</h1>
+        <p className="mt-1 text-sm text-brand-700">
+          /api/bff/dashboard가 세 시스템을 서버에서 병렬로 호출하고, 시스템별 결과를 한 번에 돌려줍니다.
+        </p>
+
+        <div className="mt-4 grid gap-2 text-sm md:grid-cols-3">
+          {API_SYSTEMS.map((system) => (
+            <div key={system} className="rounded-lg bg-brand-50 p-2">
+              <p className="text-xs font-semibold text-brand-700">{API_NAMES[system]}</p>
+              <label className="mr-3 text-xs">
+                <input
+                  type="checkbox"
+                  checked={query.fail.includes(system)}
+                  onChange={() => toggle("fail", system)}
+                />{" "}
+                500
+              </label>
+              <label className="text-xs">
+                <input
+                  type="checkbox"
+                  checked={query.timeout.includes(system)}
+                  onChange={() => toggle("timeout", system)}
+                />{" "}
+                타임아웃
+              </label>
+            </div>
+          ))}
+        </div>
+        <button
+          className="mt-3 rounded-lg border border-brand-300 px-3 py-1 text-sm"
+          type="button"
+          onClick={() => void dashboardQuery.refetch()}
+        >
+          새로고침 {dashboardQuery.isFetching ? "(불러오는 중…)" : ""}
+        </button>
+      </section>
+
+      {dashboardQuery.isPending ? <p className="text-sm text-brand-700">불러오는 중…</p> : null}
+      {dashboardQuery.isError ? (
+        <p className="text-sm text-red-600" role="alert">
+          대시보드를 불러오지 못했습니다: {dashboardQuery.error.message}
+        </p>
+      ) : null}
+
+      {dashboard ? (
+        <>
+          {dashboard.partial ? (
+            <p className="rounded bg-amber-50 p-2 text-xs text-amber-700" role="status">
+              일부 시스템의 데이터를 불러오지 못했습니다. 나머지 결과만 표시합니다.
+            </p>
+          ) : null}
+          <section className="grid gap-4 md:grid-cols-3">
+            <SourceCard system="hqErp" title="본사 요약" source={dashboard.sources.hqErp}>
+              {(data) => data.message}
+            </SourceCard>
+            <SourceCard system="clientApp" title="고객 프로필" source={dashboard.sources.clientApp}>
+              {(data) => data.message}
+            </SourceCard>
+            <SourceCard system="vendorErp" title="입점사 주문" source={dashboard.sources.vendorErp}>
+              {(data) => `주문 ${data.totalOrders}건`}
+            </SourceCard>
+          </section>
+          <p className="text-xs text-brand-600">생성 시각: {dashboard.generatedAt}</p>
+        </>
+      ) : null}
+    </main>
+  );
+}
+
+type SourceCardProps<TSystem extends ApiSystem> = {
+  system: TSystem;
+  title: string;
+  source: DashboardSource<TSystem>;
+  // 성공한 시스템의 데이터 표시
+  children: (data: Extract<DashboardSource<TSystem>, { status: "ok" }>["data"]) => string;
+};
+
+function SourceCard<TSystem extends ApiSystem>({ system, title, source, children }: SourceCardProps<TSystem>) {
+  return (
+    <div className="rounded-2xl border border-brand-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-base font-semibold">{title}</h2>
+        <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[source.status]}`}>
+          {source.status}
+        </span>
+      </div>
+      <p className="text-xs text-brand-700">
+        {API_NAMES[system]} · {source.durationMs}ms
+      </p>
+      {source.status === "ok" ? (
+        <p className="mt-3 text-sm">{children(source.data)}</p>
+      ) : (
+        <p className="mt-3 text-sm text-red-600">
+          {source.error.status ? `${source.error.status} ${source.error.code ?? ""}` : source.error.kind}
+          <span className="block text-xs text-brand-600">{source.error.message}</span>
+        </p>
+      )}
+    </div>
+  );
+}
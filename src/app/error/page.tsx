@@ -1,11 +1,25 @@
 "use client";
 
 import { useSearchParams } from "next/navigation";
+import { Suspense } from "react";
 
+// useSearchParams는 Suspense 경계 안에서만 정적 빌드가 가능합니다.
 export default function ErrorPage() {
+  return (
+    <Suspense>
+      <ErrorDetails />
+    </Suspense>
+  );
+}
+
+function ErrorDetails() {
   const params = useSearchParams();
   const status = params.get("status") ?? "unknown";
   const api = params.get("api") ?? "Unknown API";
+  // 서버 에러 응답(ApiErrorEnvelope)에서 온 값 (없을 수 있음)
+  const code = params.get("code");
+  const message = params.get("message");
+  const traceId = params.get("traceId");
 
   // 에러 상태에 따른 메시지 설정
   const getErrorMessage = () => {
@@ -15,6 +29,12 @@ export default function ErrorPage() {
     if (status === "500") {
       return "서버에서 오류가 발생했습니다.";
     }
+    if (status === "timeout") {
+      return "응답 시간이 초과되었습니다.";
+    }
+    if (status === "network") {
+      return "네트워크에 연결할 수 없습니다.";
+    }
     return "에러가 발생했습니다.";
   };
 
@@ -35,7 +55,18 @@ export default function ErrorPage() {
             <span className="font-medium text-brand-900">발생 API:</span>{" "}
             <span className="font-semibold text-brand-700">{decodeURIComponent(api)}</span>
           </p>
-          <p className="text-sm text-brand-700">{getErrorMessage()}</p>
+          {code ? (
+            <p className="text-sm">
+              <span className="font-medium text-brand-900">에러 코드:</span>{" "}
+              <span className="font-mono text-brand-700">{code}</span>
+            </p>
+          ) : null}
+          <p className="text-sm text-brand-700">{message ?? getErrorMessage()}</p>
+          {traceId ? (
+            <p className="text-xs text-brand-600">
+              traceId: <span className="font-mono">{traceId}</span>
+            </p>
+          ) : null}
         </div>
 
         <a
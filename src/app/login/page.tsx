@@ -0,0 +1,172 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 로그인 (Presentation Layer - Login)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리:
+ *   - React Hook Form + Zod: 로그인 폼 (서버 422 fieldErrors는 applyFieldErrors로 표시)
+ *   - Next.js (useRouter, useSearchParams): 로그인 후 returnUrl로 이동
+ * 
+ * 🔗 연결 레이어:
+ *   - 인증 서비스 (src/lib/auth-service.ts): login, returnUrl 검증
+ * 
+ * 역할:
+ * - 아이디/비밀번호 로그인 → 시스템별 토큰 저장 → returnUrl(없으면 홈)로 이동
+ * - 세션 만료(reason=expired) / 권한 부족 step-up(reason=step-up)으로 이동해 온 경우 안내 표시
+ * - 데모 계정 목록 (클릭하면 입력란 채움)
+ */
+
+"use client";
+
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { login, sanitizeReturnUrl } from "@/lib/auth-service";
+import { isApiError } from "@/lib/api-error";
+import { applyFieldErrors } from "@/lib/form-errors";
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "아이디를 입력하세요"),
+  password: z.string().min(1, "비밀번호를 입력하세요")
+});
+
+type LoginForm = z.infer<typeof loginSchema>;
+
+// 데모 계정 (src/server/users.ts, 비밀번호는 모두 demo1234)
+const DEMO_ACCOUNTS = [
+  { username: "admin", description: "모든 역할" },
+  { username: "hq", description: "본사 직원 (hq:read)" },
+  { username: "customer", description: "고객 (client:profile:read)" },
+  { username: "vendor", description: "입점사 (vendor:orders:read/write)" },
+  { username: "viewer", description: "입점사 조회 전용 (vendor:orders:read)" }
+];
+
+// useSearchParams는 Suspense 경계 안에서만 정적 빌드가 가능합니다.
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginPanel />
+    </Suspense>
+  );
+}
+
+function LoginPanel() {
+  const router = useRouter();
+  const params = useSearchParams();
+  const returnUrl = sanitizeReturnUrl(params.get("returnUrl"));
+  const reason = params.get("reason");
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    setValue,
+    formState: { errors, isSubmitting }
+  } = useForm<LoginForm>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" }
+  });
+
+  /**
+   * 로그인 실패 처리
+   * - 422: 필드별 에러 표시
+   * - 401 등: 폼 상단에 서버 메시지 표시 (아이디/비밀번호 중 무엇이 틀렸는지는 알려주지 않음)
+   */
+  const onSubmit = async (values: LoginForm) => {
+    try {
+      await login(values);
+      router.replace(returnUrl);
+    } catch (error) {
+      if (applyFieldErrors(error, setError)) {
+        return;
+      }
+      const message =
+        isApiError(error) && error.status === 401
+          ? "아이디 또는 비밀번호가 올바르지 않습니다."
+          : "로그인하지 못했습니다. 잠시 후 다시 시도하세요.";
+      setError("root.server", { type: "server", message });
+    }
+  };
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-md flex-col justify-center px-6 py-10">
+      <div className="rounded-2xl border border-brand-200 bg-white p-8 shadow-sm">
+        <Link className="text-xs text-brand-600 underline" href="/">
+          ← 데모 홈
+        </Link>
+        <h1 className="mt-2 text-2xl font-semibold">로그인</h1>
+        {reason === "expired" ? (
+          <p className="mt-3 rounded bg-amber-50 p-2 text-xs text-amber-700" role="status">
+            세션이 만료되었습니다. 다시 로그인하면 이전 화면으로 돌아갑니다.
+          </p>
+        ) : null}
+        {reason === "step-up" ? (
+          <p className="mt-3 rounded bg-amber-50 p-2 text-xs text-amber-700" role="status">
+            권한이 더 필요한 작업입니다. 권한 있는 계정으로 로그인하면 이전 화면으로 돌아갑니다.
+          </p>
+        ) : null}
+
+        <form className="mt-4 flex flex-col gap-3" onSubmit={handleSubmit(onSubmit)}>
+          <label className="text-sm font-medium">아이디</label>
+          <input
+            className="rounded-lg border border-brand-200 px-3 py-2"
+            autoComplete="username"
+            {...register("username")}
+          />
+          {errors.username ? (
+            <span className="text-xs text-red-600">{errors.username.message}</span>
+          ) : null}
+
+          <label className="mt-2 text-sm font-medium">비밀번호</label>
+          <input
+            className="rounded-lg border border-brand-200 px-3 py-2"
+            type="password"
+            autoComplete="current-password"
+            {...register("password")}
+          />
+          {errors.password ? (
+            <span className="text-xs text-red-600">{errors.password.message}</span>
+          ) : null}
+
+          {errors.root?.server ? (
+            <p className="text-xs text-red-600" role="alert">
+              {errors.root.server.message}
+            </p>
+          ) : null}
+
+          <button
+            className="mt-3 rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+            type="submit"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "로그인 중…" : "로그인"}
+          </button>
+        </form>
+
+        <div className="mt-6 text-xs text-brand-700">
+          <p className="font-semibold">데모 계정 (비밀번호: demo1234)</p>
+          <ul className="mt-1 space-y-1">
+            {DEMO_ACCOUNTS.map(({ username, description }) => (
+              <li key={username}>
+                <button
+                  className="underline"
+                  type="button"
+                  onClick={() => {
+                    setValue("username", username);
+                    setValue("password", "demo1234");
+                  }}
+                >
+                  {username}
+                </button>{" "}
+                - {description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </main>
+  );
+}
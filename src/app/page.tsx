@@ -6,12 +6,13 @@
  * 📦 사용 라이브러리:
  *   - React Hook Form: 폼 상태 관리
  *   - Zod: 폼 입력값 유효성 검사 (스키마 검증)
- *   - TanStack Query (useQuery): API 호출 상태 관리 (loading, error, success)
+ *   - TanStack Query (useApiQuery, fetchQuery): API 호출 상태 관리 (loading, error, success)
  *   - Zustand (useAuthStore): 전역 토큰 상태 읽기/쓰기
  * 
  * 🔗 연결 레이어:
  *   - API 호출 레이어 (src/api/demo.ts): API 호출 함수 사용
  *   - 전역 상태 레이어 (src/store/auth.ts): 토큰 상태 관리
+ *   - 인증 서비스 (src/lib/auth-service.ts): 로그인 화면 이동 / 로그아웃
  * 
  * 역할:
  * - 사용자 인터페이스 렌더링
@@ -23,49 +24,62 @@
  *   1. 사용자가 폼 입력 → Zod로 검증 → Zustand에 저장
  *   2. 사용자가 버튼 클릭 → API 호출 함수 실행
  *   3. API 호출 함수 → 통합 API 클라이언트 → 서버 API
- *   4. 응답 상태 → useQuery로 관리 → UI에 반영
+ *   4. 응답 상태 → useApiQuery로 관리 → UI에 반영 (최종 실패는 QueryCache → 에러 버스)
  */
 
 "use client";
 
+import Link from "next/link";
 import { useMemo } from "react";
 import { useForm } from "react-hook-form";
 // 📦 Zod: 스키마 검증 라이브러리 - 토큰 입력 폼의 유효성 검사에 사용
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 // 📦 Zustand: 전역 상태 관리 - 토큰 상태를 읽고 쓰는 데 사용
-import { useAuthStore } from "@/store/auth";
-// 📦 TanStack Query (useQuery): 데이터 페칭 및 캐싱 - API 호출 상태 관리에 사용
-import { useQuery, type QueryStatus } from "@tanstack/react-query";
-import {
-  fetchClientProfile,
-  fetchClientProfileWithStatus,
-  fetchClientProfile401,
-  fetchHqSummary,
-  fetchHqSummaryWithStatus,
-  fetchHqSummary401,
-  fetchVendorOrders,
-  fetchVendorOrdersWithStatus,
-  fetchVendorOrders401
-} from "@/api/demo";
+import { API_SYSTEMS, useAuthStore, type ApiSystem } from "@/store/auth";
+import { API_NAMES } from "@/lib/api-systems";
+import { buildLoginUrl, logout } from "@/lib/auth-service";
+import { decodeJwtPayload } from "@/lib/jwt";
+import { useApiErrorStrategy, type ApiErrorStrategy } from "@/components/api-error-handler";
+import { OfflineQueuePanel } from "@/components/offline-queue-panel";
+import { PaginationPanel } from "@/components/pagination-panel";
+import { ServiceStatusBanner } from "@/components/service-status-banner";
+// 📦 TanStack Query: 데이터 페칭 및 캐싱 - API 호출 상태 관리에 사용
+import { useQueryClient, type FetchQueryOptions, type QueryStatus } from "@tanstack/react-query";
+import { useApiQuery } from "@/lib/api-query";
+import { createFlakyQuery, demoQueries, type DemoEndpoint, type DemoQuery } from "@/api/demo";
 
 /**
  * 📦 Zod 사용 위치: 토큰 입력 폼 검증 스키마
  * 
  * Zod를 사용하여 Access Token과 Refresh Token의 유효성을 검사합니다.
- * - 최소 3자 이상 입력 필요
+ * - 최소 3자 이상 입력 필요 (Refresh Token은 비워 두면 로그인으로 받은 값을 유지)
+ * - 대상 시스템: 특정 API 시스템 또는 전체("all")
  * - React Hook Form의 zodResolver와 연결되어 폼 제출 시 자동 검증
  */
 const tokenSchema = z.object({
+  system: z.enum(["all", ...API_SYSTEMS]),
   accessToken: z.string().min(3, "Access token is required"),
-  refreshToken: z.string().min(3, "Refresh token is required")
+  refreshToken: z
+    .string()
+    .refine((value) => value === "" || value.length >= 3, "Refresh token must be at least 3 characters")
 });
 
 // Zod 스키마로부터 TypeScript 타입 자동 추론
 type TokenForm = z.infer<typeof tokenSchema>;
 
+// 데모: 전역 에러 처리 전략 선택지 (null = 기본 전략)
+const ERROR_STRATEGY_OPTIONS: Array<{ value: ApiErrorStrategy | null; label: string }> = [
+  { value: null, label: "기본 (404 → 리다이렉트, 그 외 → toast)" },
+  { value: "toast", label: "toast" },
+  { value: "boundary", label: "에러 바운더리" },
+  { value: "redirect", label: "/error 리다이렉트" },
+  { value: "ignore", label: "무시" }
+];
+
 export default function HomePage() {
-  const { accessToken, refreshToken, setTokens, clearTokens } = useAuthStore();
+  const { override: errorStrategy, setOverride: setErrorStrategy } = useApiErrorStrategy();
+  const { tokens, setTokens, clearTokens } = useAuthStore();
 
   const {
     register,
@@ -74,90 +88,87 @@ export default function HomePage() {
   } = useForm<TokenForm>({
     // Zod 스키마를 React Hook Form과 연결 (폼 제출 시 자동 검증)
     resolver: zodResolver(tokenSchema),
-    defaultValues: { accessToken: "demo-access", refreshToken: "demo-refresh" }
+    defaultValues: { system: "all", accessToken: "expired", refreshToken: "" }
   });
 
   /**
-   * 📦 TanStack Query (useQuery) 사용 위치: API 호출 상태 관리
+   * 📦 TanStack Query (useApiQuery) 사용 위치: API 호출 상태 관리
    * 
-   * useQuery를 사용하여 각 API 호출의 상태를 관리합니다.
+   * useApiQuery(lib/api-query.ts)를 사용하여 각 API 호출의 상태를 관리합니다.
    * - enabled: false로 설정하여 자동 호출 방지 (버튼 클릭 시에만 refetch)
-   * - queryKey: 캐싱 및 상태 추적을 위한 고유 키
-   * - queryFn: 실제 API 호출 함수
+   * - queryKey/queryFn: 엔드포인트 레지스트리(demoQueries)에서 생성
+   * - error: ApiError (4xx는 재시도하지 않음)
    * 
-   * 각 쿼리는 status (idle, loading, error, success) 상태를 제공하여 UI에 반영할 수 있습니다.
+   * 각 쿼리는 status (pending, error, success) 상태를 제공하여 UI에 반영할 수 있습니다.
    */
-  const hqQuery = useQuery({ queryKey: ["hq-summary"], queryFn: fetchHqSummary, enabled: false });
-  const clientQuery = useQuery({
-    queryKey: ["client-profile"],
-    queryFn: fetchClientProfile,
-    enabled: false
-  });
-  const vendorQuery = useQuery({
-    queryKey: ["vendor-orders"],
-    queryFn: fetchVendorOrders,
-    enabled: false
-  });
-
-  // 데모: 각 API 클라이언트에서 404/500 에러를 트리거하여 인터셉터 동작 확인
-  const callHqError = async (status: "404" | "500") => {
-    try {
-      await fetchHqSummaryWithStatus(status);
-    } catch (error) {
-      // 에러는 인터셉터에서 처리되며, 404/500 시 /error 페이지로 리다이렉트됩니다
-      console.log(`[HQ-ERP] ${status} 에러 발생 - 인터셉터가 처리합니다`);
-    }
-  };
-  const callClientError = async (status: "404" | "500") => {
-    try {
-      await fetchClientProfileWithStatus(status);
-    } catch (error) {
-      console.log(`[Client-App] ${status} 에러 발생 - 인터셉터가 처리합니다`);
-    }
-  };
-  const callVendorError = async (status: "404" | "500") => {
-    try {
-      await fetchVendorOrdersWithStatus(status);
-    } catch (error) {
-      console.log(`[Vendor-ERP] ${status} 에러 발생 - 인터셉터가 처리합니다`);
-    }
-  };
+  const hqQuery = useApiQuery(demoQueries.hqSummary(), { enabled: false });
+  const clientQuery = useApiQuery(demoQueries.clientProfile(), { enabled: false });
+  const vendorQuery = useApiQuery(demoQueries.vendorOrders(), { enabled: false });
 
-  // 401 테스트: Access Token에 "expired"가 포함되면 401 발생
-  // 인터셉터가 자동으로 refresh token으로 재발급 후 재요청합니다
-  const callHq401 = async () => {
-    try {
-      await fetchHqSummary401();
-      alert("✅ 401 발생 → 토큰 재발급 → 재요청 성공!");
-    } catch (error) {
-      console.log("[HQ-ERP] 401 처리 실패");
-    }
-  };
-  const callClient401 = async () => {
-    try {
-      await fetchClientProfile401();
-      alert("✅ 401 발생 → 토큰 재발급 → 재요청 성공!");
-    } catch (error) {
-      console.log("[Client-App] 401 처리 실패");
-    }
-  };
-  const callVendor401 = async () => {
-    try {
-      await fetchVendorOrders401();
-      alert("✅ 401 발생 → 토큰 재발급 → 재요청 성공!");
-    } catch (error) {
-      console.log("[Vendor-ERP] 401 처리 실패");
+  /**
+   * 데모 시나리오 실행 (401 refresh, 503 재시도, 404/500 에러)
+   * 
+   * React Query(fetchQuery)로 요청하므로 최종 실패는 QueryCache onError가 에러 버스로 한 번만 발행하고,
+   * 선택된 전략(toast/바운더리/리다이렉트)으로 표시됩니다.
+   * - 401: Access Token에 "expired"가 포함되면 401 → 인터셉터가 refresh 후 재요청
+   * - 503: 서버가 2번 503을 반환한 뒤 성공 → 재시도 정책이 자동으로 재시도
+   */
+  const queryClient = useQueryClient();
+  const runScenario = async (endpoint: DemoEndpoint, query?: DemoQuery, successMessage?: string) => {
+    // 시나리오는 성공 여부만 확인하므로 엔드포인트별 응답 타입은 구분하지 않음
+    const scenario: FetchQueryOptions<unknown> = { ...demoQueries[endpoint]({ query }), staleTime: 0 };
+    const succeeded = await queryClient
+      .fetchQuery(scenario)
+      .then(
+        () => true,
+        () => false
+      );
+    if (succeeded && successMessage) {
+      alert(successMessage);
     }
   };
+  const scenarioHandlers = (endpoint: DemoEndpoint) => ({
+    on401: () => runScenario(endpoint, undefined, "✅ 401 발생 → 토큰 재발급 → 재요청 성공!"),
+    onFlaky: () => runScenario(endpoint, createFlakyQuery(2), "✅ 503 × 2 → 자동 재시도 → 성공!"),
+    on404: () => runScenario(endpoint, { status: "404" }),
+    on500: () => runScenario(endpoint, { status: "500" })
+  });
 
+  // API 시스템별 현재 토큰
   const currentTokens = useMemo(
-    () => ({ accessToken: accessToken ?? "-", refreshToken: refreshToken ?? "-" }),
-    [accessToken, refreshToken]
+    () =>
+      API_SYSTEMS.map((system) => ({
+        system,
+        accessToken: tokens[system].accessToken ?? "-",
+        refreshToken: tokens[system].refreshToken ?? "-"
+      })),
+    [tokens]
   );
 
+  /**
+   * 로그인 사용자 (access token의 name/sub/roles 클레임, 서명 검증은 서버 책임)
+   * 직접 입력한 토큰("expired")처럼 JWT가 아니면 null
+   */
+  const currentUser = useMemo(() => {
+    const accessToken = API_SYSTEMS.map((system) => tokens[system].accessToken).find(Boolean);
+    const payload = accessToken ? decodeJwtPayload(accessToken) : null;
+    if (!payload) {
+      return null;
+    }
+    const roles = Array.isArray(payload.roles) ? payload.roles.join(", ") : "";
+    return { name: String(payload.name ?? payload.sub ?? "-"), roles };
+  }, [tokens]);
+
   const onSubmit = (data: TokenForm) => {
-    // 회의 시 시연을 위해 토큰을 수동으로 세팅하는 폼
-    setTokens({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+    // 회의 시 시연을 위해 토큰을 수동으로 세팅하는 폼 (선택한 시스템 또는 전체에 저장)
+    // Refresh Token을 비워 두면 로그인으로 받은 refresh token을 그대로 사용
+    const targets = data.system === "all" ? API_SYSTEMS : [data.system];
+    targets.forEach((system) =>
+      setTokens(system, {
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken || tokens[system].refreshToken
+      })
+    );
   };
 
   return (
@@ -167,6 +178,33 @@ export default function HomePage() {
         <p className="mt-2 text-sm text-brand-700">
           Next.js + React Hook Form, Zod, Zustand, Tailwind, TanStack Query 사용 예시
         </p>
+        <Link className="mt-3 inline-block text-sm text-brand-600 underline" href="/vendor/orders">
+          입점사 주문 관리 →
+        </Link>
+        <Link className="ml-4 mt-3 inline-block text-sm text-brand-600 underline" href="/dashboard">
+          대시보드 (BFF) →
+        </Link>
+        <div className="mt-4 flex items-center gap-3 text-sm">
+          {currentUser ? (
+            <>
+              <span>
+                👤 <strong>{currentUser.name}</strong>
+                {currentUser.roles ? ` (${currentUser.roles})` : null}
+              </span>
+              <button
+                className="rounded-lg border border-brand-300 px-3 py-1 text-xs"
+                type="button"
+                onClick={() => void logout()}
+              >
+                로그아웃
+              </button>
+            </>
+          ) : (
+            <Link className="text-brand-600 underline" href={buildLoginUrl("/")}>
+              로그인 →
+            </Link>
+          )}
+        </div>
       </section>
 
       <section className="grid gap-6 md:grid-cols-2">
@@ -176,11 +214,29 @@ export default function HomePage() {
             인터셉터가 Authorization 헤더를 붙이고, 401 시 refresh 로직을 실행합니다.
           </p>
           <p className="mt-2 text-xs text-amber-700 bg-amber-50 p-2 rounded">
-            💡 401 테스트: Access Token에 <strong>"expired"</strong>를 입력하고 401 버튼을 클릭하세요!
+            💡 401 테스트: 로그인한 뒤 Access Token에 <strong>"expired"</strong>를 입력해 저장하고(Refresh Token은
+            비워 두기) 401 버튼을 클릭하세요!
+          </p>
+          <p className="mt-2 text-xs text-amber-700 bg-amber-50 p-2 rounded">
+            💡 403 테스트: <strong>viewer</strong>(주문 조회 전용) 계정으로 로그인하고 입점사 주문 관리에서
+            주문을 생성/변경해 보세요. step-up 확인 후 로그인 화면에서 권한 있는 계정으로 다시 로그인합니다.
           </p>
 
           <form className="mt-4 flex flex-col gap-3" onSubmit={handleSubmit(onSubmit)}>
-            <label className="text-sm font-medium">Access Token</label>
+            <label className="text-sm font-medium">대상 시스템</label>
+            <select
+              className="rounded-lg border border-brand-200 px-3 py-2"
+              {...register("system")}
+            >
+              <option value="all">전체 시스템</option>
+              {API_SYSTEMS.map((system) => (
+                <option key={system} value={system}>
+                  {API_NAMES[system]}
+                </option>
+              ))}
+            </select>
+
+            <label className="mt-2 text-sm font-medium">Access Token</label>
             <input
               className="rounded-lg border border-brand-200 px-3 py-2"
               placeholder="access-token"
@@ -193,7 +249,7 @@ export default function HomePage() {
             <label className="mt-2 text-sm font-medium">Refresh Token</label>
             <input
               className="rounded-lg border border-brand-200 px-3 py-2"
-              placeholder="refresh-token"
+              placeholder="비워 두면 현재 refresh token 유지"
               {...register("refreshToken")}
             />
             {errors.refreshToken ? (
@@ -210,9 +266,9 @@ export default function HomePage() {
               <button
                 className="rounded-lg border border-brand-300 px-4 py-2 text-sm"
                 type="button"
-                onClick={clearTokens}
+                onClick={() => clearTokens()}
               >
-                토큰 초기화
+                전체 초기화
               </button>
             </div>
           </form>
@@ -221,14 +277,28 @@ export default function HomePage() {
         <div className="rounded-2xl border border-brand-200 bg-white p-6 shadow-sm">
           <h2 className="text-lg font-semibold">현재 토큰 상태 (Zustand)</h2>
           <div className="mt-4 space-y-2 text-sm">
-            <p>
-              <span className="font-medium">Access:</span> {currentTokens.accessToken}
-            </p>
-            <p>
-              <span className="font-medium">Refresh:</span> {currentTokens.refreshToken}
-            </p>
+            {currentTokens.map(({ system, accessToken, refreshToken }) => (
+              <div key={system} className="rounded-lg bg-brand-50 p-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-semibold text-brand-700">{API_NAMES[system]}</p>
+                  <button
+                    className="rounded border border-brand-300 bg-white px-2 py-0.5 text-xs"
+                    type="button"
+                    onClick={() => clearTokens(system)}
+                  >
+                    초기화
+                  </button>
+                </div>
+                <p className="break-all">
+                  <span className="font-medium">Access:</span> {accessToken}
+                </p>
+                <p className="break-all">
+                  <span className="font-medium">Refresh:</span> {refreshToken}
+                </p>
+              </div>
+            ))}
             <p className="text-xs text-brand-600">
-              토큰은 전역 상태로 관리되고, axios 인터셉터에서 항상 최신 값을 참조합니다.
+              토큰은 API 시스템별로 관리되고, 각 클라이언트의 인터셉터는 자기 시스템의 토큰만 참조/갱신합니다.
             </p>
           </div>
         </div>
@@ -241,46 +311,65 @@ export default function HomePage() {
           각 카드의 버튼을 클릭하여 정상 호출 및 404/500 에러를 테스트할 수 있습니다.
         </p>
         <p className="mt-2 text-xs text-brand-600">
-          💡 404/500 에러 발생 시 axios 인터셉터가 자동으로 /error 페이지로 리다이렉트합니다.
+          💡 404/500 에러 발생 시 axios 인터셉터가 ApiError를 에러 버스로 발행하고, 아래에서 선택한 전략으로 표시합니다.
         </p>
+        <label className="mt-3 flex items-center gap-2 text-sm">
+          <span className="font-medium">에러 처리 전략</span>
+          <select
+            className="rounded-lg border border-brand-200 px-2 py-1"
+            value={errorStrategy ?? ""}
+            onChange={(event) =>
+              setErrorStrategy((event.target.value || null) as ApiErrorStrategy | null)
+            }
+          >
+            {ERROR_STRATEGY_OPTIONS.map(({ value, label }) => (
+              <option key={label} value={value ?? ""}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
 
         <div className="mt-4 grid gap-4 md:grid-cols-3">
           <ApiCard
             title="본사 ERP"
+            system="hqErp"
             description="/summary 호출"
             status={hqQuery.status}
             onClick={() => hqQuery.refetch()}
-            on401={callHq401}
-            on404={() => callHqError("404")}
-            on500={() => callHqError("500")}
+            {...scenarioHandlers("hqSummary")}
           />
           <ApiCard
             title="고객 앱"
+            system="clientApp"
             description="/profile 호출"
             status={clientQuery.status}
             onClick={() => clientQuery.refetch()}
-            on401={callClient401}
-            on404={() => callClientError("404")}
-            on500={() => callClientError("500")}
+            {...scenarioHandlers("clientProfile")}
           />
           <ApiCard
             title="입점사 ERP"
+            system="vendorErp"
             description="/orders 호출"
             status={vendorQuery.status}
             onClick={() => vendorQuery.refetch()}
-            on401={callVendor401}
-            on404={() => callVendorError("404")}
-            on500={() => callVendorError("500")}
+            {...scenarioHandlers("vendorOrders")}
           />
         </div>
       </section>
 
+      <OfflineQueuePanel />
+
+      <PaginationPanel />
+
       <section className="rounded-2xl border border-brand-200 bg-white p-6 shadow-sm">
         <h2 className="text-lg font-semibold">설명 포인트</h2>
         <ul className="mt-3 list-inside list-disc text-sm text-brand-700">
           <li>axios 인터셉터에서 404/500 공통 처리 및 안내</li>
           <li>401 발생 시 refresh token으로 재발급 후 재요청</li>
-          <li>실패 시 에러 페이지로 이동하도록 처리</li>
+          <li>실패 시 ApiError를 에러 버스로 발행 → toast / 에러 바운더리 / 리다이렉트 중 선택</li>
+          <li>오프라인 큐: 네트워크 오류로 실패한 변경 요청을 저장 후 온라인 복귀 시 재전송</li>
+          <li>서킷 브레이커: 500을 연속으로 발생시키면 카드에 "서비스 지연"이 표시되고 요청을 바로 실패시킴</li>
         </ul>
       </section>
     </main>
@@ -289,20 +378,34 @@ export default function HomePage() {
 
 type ApiCardProps = {
   title: string;
+  // 서킷 브레이커 상태를 표시할 API 시스템
+  system: ApiSystem;
   description: string;
   // 📦 TanStack Query의 QueryStatus 타입: 'idle' | 'loading' | 'error' | 'success'
   status: QueryStatus;
   onClick: () => void;
   on401: () => void;
+  onFlaky: () => void;
   on404: () => void;
   on500: () => void;
 };
 
-function ApiCard({ title, description, status, onClick, on401, on404, on500 }: ApiCardProps) {
+function ApiCard({
+  title,
+  system,
+  description,
+  status,
+  onClick,
+  on401,
+  onFlaky,
+  on404,
+  on500
+}: ApiCardProps) {
   return (
     <div className="rounded-xl border border-brand-100 bg-brand-50 p-4">
       <h3 className="text-base font-semibold">{title}</h3>
       <p className="text-xs text-brand-700">{description}</p>
+      <ServiceStatusBanner system={system} />
       
       {/* 정상 API 호출 버튼 */}
       <button
@@ -312,8 +415,8 @@ function ApiCard({ title, description, status, onClick, on401, on404, on500 }: A
         정상 호출 ({status})
       </button>
       
-      {/* 에러 테스트 버튼: 401/404/500 강제 발생 */}
-      <div className="mt-2 grid grid-cols-3 gap-1.5">
+      {/* 에러 테스트 버튼: 401/503/404/500 강제 발생 */}
+      <div className="mt-2 grid grid-cols-4 gap-1.5">
         <button
           className="rounded-lg border border-blue-200 bg-blue-50 px-2 py-2 text-xs font-medium text-blue-700 transition-colors hover:bg-blue-100"
           onClick={on401}
@@ -321,23 +424,30 @@ function ApiCard({ title, description, status, onClick, on401, on404, on500 }: A
         >
           🔵 401
         </button>
+        <button
+          className="rounded-lg border border-purple-200 bg-purple-50 px-2 py-2 text-xs font-medium text-purple-700 transition-colors hover:bg-purple-100"
+          onClick={onFlaky}
+          title="503 2번 발생 → 지수 백오프로 자동 재시도 → 성공"
+        >
+          🟣 503
+        </button>
         <button
           className="rounded-lg border border-red-200 bg-red-50 px-2 py-2 text-xs font-medium text-red-700 transition-colors hover:bg-red-100"
           onClick={on404}
-          title="404 에러 발생 → /error 페이지로 리다이렉트"
+          title="404 에러 발생 → 전역 에러 처리 (기본: /error 페이지로 이동)"
         >
           🔴 404
         </button>
         <button
           className="rounded-lg border border-amber-200 bg-amber-50 px-2 py-2 text-xs font-medium text-amber-700 transition-colors hover:bg-amber-100"
           onClick={on500}
-          title="500 에러 발생 → /error 페이지로 리다이렉트"
+          title="500 에러 발생 → 재시도 후 전역 에러 처리 (기본: toast)"
         >
           🟠 500
         </button>
       </div>
       <p className="mt-2 text-xs text-brand-600">
-        401: 자동 refresh | 404/500: /error 이동
+        401: 자동 refresh | 503: 자동 재시도 | 404/500: 전역 에러 처리
       </p>
     </div>
   );
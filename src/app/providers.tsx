@@ -9,34 +9,167 @@
  * - TanStack Query의 QueryClientProvider를 설정
  * - 전역 쿼리 설정 (retry, staleTime 등)
  * - React 앱 전체에서 useQuery 훅 사용 가능하도록 제공
+ * - 저장된 토큰 복원, 탭 간 토큰 동기화, 백그라운드 토큰 refresh 시작
+ * - 오프라인 큐 복원 및 온라인 복귀 시 재전송 시작
+ * - 요청 로그 sink 설정 (콘솔 + 메모리 링 버퍼 + 로그 수집 API beacon + 네트워크 인스펙터 + 메트릭)
+ * - 클라이언트 메트릭 주기 전송 (/api/metrics, Prometheus 텍스트)
+ * - 권한 부족(403) step-up 재인증 핸들러 등록 (확인 후 로그인 화면으로 이동, 권한 있는 계정으로 로그인하면 돌아옴)
+ * - 전역 API 에러 처리 (ApiErrorHandler: toast / 에러 바운더리 / 리다이렉트)
+ * - 세션 만료(refresh 실패) / 로그아웃 시 로그인 화면으로 이동 (SessionExpiredRedirect, returnUrl 유지)
+ * - 로그아웃 시 TanStack Query 캐시 삭제 (이전 사용자의 데이터가 다음 사용자에게 보이지 않도록)
+ * - 네트워크 인스펙터 패널 (모든 화면 오른쪽 아래)
  * 
  * 사용 위치:
  * - src/app/layout.tsx: 앱 전체를 Providers로 감쌈
  * - src/app/page.tsx: useQuery 훅 사용
  * 
  * 설정:
- * - retry: 1 (에러 발생 시 1번 재시도)
+ * - retry: 5xx/타임아웃/네트워크 오류는 1번 재시도, 4xx/취소/스키마 불일치는 재시도 안 함
  * - staleTime: 20초 (20초 동안 캐시된 데이터를 fresh로 간주)
+ * - QueryCache/MutationCache onError: 최종 실패를 에러 버스로 발행 (인터셉터와 같은 전역 처리)
  */
 
 "use client";
 
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import {
+  MutationCache,
+  QueryCache,
+  QueryClient,
+  QueryClientProvider
+} from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
 import type { ReactNode } from "react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useAuthStore } from "@/store/auth";
+import { startAuthSync } from "@/store/auth-channel";
+import { authSessions } from "@/lib/axios";
+import { setStepUpHandler } from "@/lib/auth-session";
+import { buildLoginUrl, subscribeAuthEvents } from "@/lib/auth-service";
+import { publishQueryError, shouldRetryApiError } from "@/lib/api-query";
+import { startOfflineQueue } from "@/lib/offline-queue";
+import { createMetricsSink, startMetricsExporter } from "@/lib/metrics";
+import { createInspectorSink } from "@/lib/network-inspector";
+import {
+  createBeaconSink,
+  createConsoleSink,
+  requestLogBuffer,
+  startRequestLog
+} from "@/lib/request-log";
+import { ApiErrorHandler } from "@/components/api-error-handler";
+import { NetworkInspector } from "@/components/network-inspector";
+import { SessionExpiredRedirect } from "@/components/session-expired-redirect";
 
 export function Providers({ children }: { children: ReactNode }) {
+  const router = useRouter();
+
+  /**
+   * 요청 로그 sink + 메트릭 exporter 설정 (토큰과 무관하므로 마운트 즉시 시작)
+   * 중지 시 beacon sink에 남은 로그와 마지막 메트릭을 바로 전송합니다.
+   */
+  useEffect(() => {
+    const metrics = createMetricsSink();
+    const stopRequestLog = startRequestLog([
+      createConsoleSink(),
+      requestLogBuffer,
+      createBeaconSink(),
+      createInspectorSink(),
+      metrics
+    ]);
+    const stopMetricsExporter = startMetricsExporter(metrics, { format: "prometheus" });
+
+    return () => {
+      stopMetricsExporter();
+      stopRequestLog();
+    };
+  }, []);
+
+  /**
+   * 저장된 토큰 불러오기 + 탭 간 동기화 + 백그라운드 refresh + 오프라인 큐 시작
+   * 
+   * 서버 렌더링과 첫 렌더링 결과를 맞추기 위해 마운트 후에 rehydrate합니다.
+   * 불러온 토큰이 다른 탭으로 전파되지 않도록 동기화는 rehydrate 이후에 시작합니다.
+   * 오프라인 큐 재전송에도 토큰이 필요하므로 함께 rehydrate 이후에 시작합니다.
+   */
+  useEffect(() => {
+    let stoppers: Array<() => void> = [];
+    let cancelled = false;
+
+    void Promise.resolve(useAuthStore.persist.rehydrate()).then(() => {
+      if (!cancelled) {
+        stoppers = [
+          startAuthSync(),
+          ...Object.values(authSessions).map((session) => session.startAutoRefresh()),
+          startOfflineQueue()
+        ];
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stoppers.forEach((stop) => stop());
+    };
+  }, []);
+
+  /**
+   * step-up 재인증 (403 권한 부족)
+   * 
+   * 확인을 받으면 로그인 화면으로 이동하고(현재 주소를 returnUrl로 전달),
+   * 사용자가 권한 있는 계정으로 로그인하면 원래 화면으로 돌아와 다시 요청합니다.
+   * 화면을 떠나므로 원래 요청은 재요청하지 않고 403으로 끝냅니다.
+   */
+  useEffect(
+    () =>
+      setStepUpHandler(async ({ apiName, missingScopes }) => {
+        const confirmed = window.confirm(
+          `[${apiName}] ${missingScopes.join(", ")} 권한이 필요합니다. 권한 있는 계정으로 다시 로그인할까요?`
+        );
+        if (confirmed) {
+          const { pathname, search, hash } = window.location;
+          router.push(buildLoginUrl(`${pathname}${search}${hash}`, "step-up"));
+        }
+        return false;
+      }),
+    [router]
+  );
+
   const [client] = useState(
     () =>
       new QueryClient({
+        queryCache: new QueryCache({
+          onError: (error, query) => publishQueryError(error, query.queryKey, query.meta)
+        }),
+        mutationCache: new MutationCache({
+          onError: (error, _variables, _onMutateResult, mutation) =>
+            publishQueryError(error, mutation.options.mutationKey, mutation.meta)
+        }),
         defaultOptions: {
           queries: {
-            retry: 1,
+            retry: shouldRetryApiError,
             staleTime: 1000 * 20
           }
         }
       })
   );
 
-  return <QueryClientProvider client={client}>{children}</QueryClientProvider>;
+  /**
+   * 로그아웃하면 쿼리 캐시 삭제
+   * HTTP 캐시와 오프라인 큐는 logout()이 비우고, 쿼리 캐시는 QueryClient를 가진 여기서 비웁니다.
+   */
+  useEffect(
+    () =>
+      subscribeAuthEvents((event) => {
+        if (event.type === "logout") {
+          client.clear();
+        }
+      }),
+    [client]
+  );
+
+  return (
+    <QueryClientProvider client={client}>
+      <ApiErrorHandler>{children}</ApiErrorHandler>
+      <NetworkInspector />
+      <SessionExpiredRedirect />
+    </QueryClientProvider>
+  );
 }
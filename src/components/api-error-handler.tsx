@@ -0,0 +1,205 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 전역 API 에러 처리 (Presentation Layer - Global API Errors)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: React, Next.js (useRouter)
+ * 🔗 연결 레이어:
+ *   - 에러 버스 (src/lib/error-bus.ts): 전역 처리 대상 ApiError 구독
+ *   - 프로바이더 레이어 (src/app/providers.tsx): 앱 전체를 감쌈
+ * 
+ * 역할:
+ * - 에러마다 처리 전략을 골라 화면에 반영
+ *   - toast: 화면 하단에 알림 (앱 상태 유지)
+ *   - boundary: 앱 내 에러 바운더리 fallback 표시 (다시 시도 가능)
+ *   - redirect: Next.js 라우터로 /error 페이지 이동 (새로고침 없음)
+ *   - ignore: 아무것도 하지 않음 (예: 폼이 직접 표시하는 400/422)
+ */
+
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Component,
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode
+} from "react";
+import { isApiError, isValidationError, type ApiError } from "@/lib/api-error";
+import { subscribeApiErrors } from "@/lib/error-bus";
+
+export type ApiErrorStrategy = "toast" | "boundary" | "redirect" | "ignore";
+
+export type ApiErrorStrategyResolver = (error: ApiError) => ApiErrorStrategy;
+
+// toast 표시 시간
+const TOAST_DURATION_MS = 5000;
+
+/**
+ * 기본 전략
+ * - 400/422: 폼이 필드 옆에 직접 표시하므로 무시
+ * - 서킷 오픈: 화면이 서킷 상태로 "서비스 지연"을 표시하므로 무시
+ * - 404: /error 페이지로 이동
+ * - 그 외 (401 refresh 실패, 403 권한 부족, 5xx, 타임아웃, 네트워크 오류): toast
+ *   (403은 페이지를 떠나지 않고 부족한 scope를 함께 표시)
+ */
+export const defaultApiErrorStrategy: ApiErrorStrategyResolver = (error) => {
+  if (isValidationError(error) || error.kind === "circuit-open") {
+    return "ignore";
+  }
+  if (error.status === 404) {
+    return "redirect";
+  }
+  return "toast";
+};
+
+/**
+ * 화면에서 전략을 일시적으로 고정할 수 있도록 제공 (데모용)
+ * null이면 resolveStrategy 결과를 사용합니다.
+ */
+const ApiErrorStrategyContext = createContext<{
+  override: ApiErrorStrategy | null;
+  setOverride: (strategy: ApiErrorStrategy | null) => void;
+}>({ override: null, setOverride: () => undefined });
+
+export const useApiErrorStrategy = () => useContext(ApiErrorStrategyContext);
+
+type Toast = { id: number; error: ApiError };
+
+type ApiErrorHandlerProps = {
+  children: ReactNode;
+  resolveStrategy?: ApiErrorStrategyResolver;
+};
+
+export function ApiErrorHandler({
+  children,
+  resolveStrategy = defaultApiErrorStrategy
+}: ApiErrorHandlerProps) {
+  const router = useRouter();
+  const [override, setOverride] = useState<ApiErrorStrategy | null>(null);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [boundaryError, setBoundaryError] = useState<ApiError | null>(null);
+  const toastId = useRef(0);
+
+  useEffect(
+    () =>
+      subscribeApiErrors((error) => {
+        const strategy = override ?? resolveStrategy(error);
+
+        if (strategy === "toast") {
+          const id = ++toastId.current;
+          setToasts((prev) => [...prev, { id, error }]);
+          setTimeout(
+            () => setToasts((prev) => prev.filter((toast) => toast.id !== id)),
+            TOAST_DURATION_MS
+          );
+        }
+        if (strategy === "boundary") {
+          setBoundaryError(error);
+        }
+        if (strategy === "redirect") {
+          const params = new URLSearchParams({
+            status: String(error.status ?? error.kind),
+            api: error.apiName,
+            message: error.message
+          });
+          if (error.kind === "http") {
+            params.set("code", error.code);
+            if (error.traceId) {
+              params.set("traceId", error.traceId);
+            }
+          }
+          router.push(`/error?${params.toString()}`);
+        }
+      }),
+    [override, resolveStrategy, router]
+  );
+
+  return (
+    <ApiErrorStrategyContext.Provider value={{ override, setOverride }}>
+      <ApiErrorBoundary onReset={() => setBoundaryError(null)}>
+        {boundaryError ? <ThrowError error={boundaryError} /> : children}
+      </ApiErrorBoundary>
+
+      <div className="pointer-events-none fixed bottom-4 right-4 z-50 flex w-80 flex-col gap-2">
+        {toasts.map(({ id, error }) => (
+          <div
+            key={id}
+            className="pointer-events-auto rounded-lg border border-red-200 bg-white p-3 text-sm shadow-lg"
+            role="alert"
+          >
+            <p className="font-semibold text-red-700">
+              [{error.apiName}] {error.kind === "http" ? `${error.status} ${error.code}` : error.kind}
+            </p>
+            <p className="mt-1 text-brand-700">{error.message}</p>
+            {error.kind === "http" && error.missingScopes.length > 0 ? (
+              <p className="mt-1 text-xs text-brand-600">필요한 권한: {error.missingScopes.join(", ")}</p>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </ApiErrorStrategyContext.Provider>
+  );
+}
+
+/**
+ * boundary 전략: 렌더링 중 에러를 던져 가장 가까운 에러 바운더리가 처리하도록 함
+ */
+function ThrowError({ error }: { error: ApiError }): never {
+  throw error;
+}
+
+type ApiErrorBoundaryProps = { children: ReactNode; onReset: () => void };
+
+/**
+ * 앱 내 에러 바운더리
+ * 
+ * 렌더링 중 발생한 에러(boundary 전략의 ApiError 포함)를 잡아 fallback을 표시합니다.
+ */
+class ApiErrorBoundary extends Component<ApiErrorBoundaryProps, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  reset = () => {
+    this.props.onReset();
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+
+    const apiError = isApiError(error) ? error : null;
+    return (
+      <main className="mx-auto flex min-h-screen max-w-2xl flex-col justify-center px-6 py-10">
+        <div className="rounded-2xl border border-red-200 bg-white p-8 shadow-sm">
+          <h1 className="text-2xl font-semibold text-red-700">문제가 발생했습니다</h1>
+          {apiError ? (
+            <p className="mt-2 text-sm text-brand-700">
+              [{apiError.apiName}] {apiError.method} {apiError.url} →{" "}
+              {apiError.kind === "http" ? `${apiError.status} ${apiError.code}` : apiError.kind}
+            </p>
+          ) : null}
+          <p className="mt-2 text-sm text-brand-700">{error.message}</p>
+          {apiError?.kind === "http" && apiError.traceId ? (
+            <p className="mt-1 text-xs text-brand-600">traceId: {apiError.traceId}</p>
+          ) : null}
+          <button
+            className="mt-6 rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white"
+            onClick={this.reset}
+          >
+            다시 시도
+          </button>
+        </div>
+      </main>
+    );
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 네트워크 인스펙터 (Presentation Layer - Network Inspector)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand (useNetworkInspectorStore)
+ * 🔗 연결 레이어:
+ *   - 네트워크 인스펙터 (src/lib/network-inspector.ts): 재전송 / 기록 비우기
+ *   - 전역 상태 (src/store/network-inspector.ts): 요청 기록, refresh 이벤트, 필터
+ *   - 프로바이더 레이어 (src/app/providers.tsx): 모든 화면에 패널을 렌더링
+ * 
+ * 역할:
+ * - 화면 오른쪽 아래 버튼으로 여닫는 인스펙터 패널
+ * - 타임라인: 요청(상태별 색)과 토큰 refresh 구간을 같은 시간축에 표시
+ * - 요청 목록: 재시도 횟수, refresh 대기/재요청 여부, 가려진 헤더, 재전송
+ * - 클라이언트 / 상태 코드 필터
+ */
+
+"use client";
+
+import { useState } from "react";
+import type { AuthSessionEvent } from "@/lib/auth-session";
+import { API_NAMES } from "@/lib/api-systems";
+import { clearNetworkInspector, replayRequest } from "@/lib/network-inspector";
+import {
+  selectFilteredRequests,
+  useNetworkInspectorStore,
+  type InspectedRequest,
+  type InspectorStatusFilter
+} from "@/store/network-inspector";
+
+const STATUS_FILTERS: InspectorStatusFilter[] = ["all", "2xx", "3xx", "4xx", "5xx", "error", "canceled"];
+
+// 타임라인에 표시할 최근 요청 수
+const TIMELINE_LIMIT = 40;
+
+type RefreshSpan = Extract<AuthSessionEvent, { type: "refresh-success" | "refresh-failure" }>;
+
+function statusColor(request: InspectedRequest) {
+  if (request.outcome === "canceled") {
+    return "bg-gray-400";
+  }
+  if (request.status === null || request.status >= 500) {
+    return "bg-red-500";
+  }
+  if (request.status >= 400) {
+    return "bg-amber-500";
+  }
+  return "bg-emerald-500";
+}
+
+function formatTime(value: string | number) {
+  return new Date(value).toLocaleTimeString("ko-KR", { hour12: false });
+}
+
+export function NetworkInspector() {
+  const { open, requests, refreshEvents, clientFilter, statusFilter } = useNetworkInspectorStore();
+  const filtered = useNetworkInspectorStore(selectFilteredRequests);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const selected = requests.find((request) => request.id === selectedId) ?? null;
+
+  const replay = async (id: string) => {
+    setReplayingId(id);
+    try {
+      await replayRequest(id);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        className="fixed bottom-4 right-4 z-40 rounded-full bg-brand-900 px-4 py-2 text-xs font-semibold text-white shadow-lg"
+        type="button"
+        onClick={() => useNetworkInspectorStore.setState({ open: true })}
+      >
+        네트워크 ({requests.length})
+      </button>
+    );
+  }
+
+  // 타임라인 시간축: 표시할 요청과 refresh 구간을 모두 포함
+  const timeline = filtered.slice(-TIMELINE_LIMIT);
+  const refreshSpans = refreshEvents.filter(
+    (event): event is RefreshSpan => event.type === "refresh-success" || event.type === "refresh-failure"
+  );
+  const starts = timeline.map((request) => Date.parse(request.startedAt));
+  const ends = timeline.map((request, index) => starts[index] + request.durationMs);
+  const windowStart = Math.min(...starts, ...refreshSpans.map((span) => span.at - span.durationMs));
+  const windowEnd = Math.max(...ends, ...refreshSpans.map((span) => span.at));
+  const windowMs = Math.max(1, windowEnd - windowStart);
+  const position = (start: number, duration: number) => ({
+    left: `${((start - windowStart) / windowMs) * 100}%`,
+    width: `${Math.max(0.5, (duration / windowMs) * 100)}%`
+  });
+  const visibleSpans = refreshSpans.filter((span) => span.at >= windowStart);
+
+  return (
+    <section className="fixed inset-x-0 bottom-0 z-40 max-h-[60vh] overflow-y-auto border-t border-brand-200 bg-white p-4 text-xs shadow-2xl">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="mr-auto text-sm font-semibold">네트워크 인스펙터 ({filtered.length}/{requests.length})</h2>
+        <select
+          className="rounded border border-brand-200 px-2 py-1"
+          value={clientFilter ?? ""}
+          onChange={(event) =>
+            useNetworkInspectorStore.setState({ clientFilter: event.target.value || null })
+          }
+        >
+          <option value="">전체 클라이언트</option>
+          {Object.values(API_NAMES).map((apiName) => (
+            <option key={apiName} value={apiName}>
+              {apiName}
+            </option>
+          ))}
+        </select>
+        <select
+          className="rounded border border-brand-200 px-2 py-1"
+          value={statusFilter}
+          onChange={(event) =>
+            useNetworkInspectorStore.setState({
+              statusFilter: event.target.value as InspectorStatusFilter
+            })
+          }
+        >
+          {STATUS_FILTERS.map((filter) => (
+            <option key={filter} value={filter}>
+              {filter === "all" ? "전체 상태" : filter}
+            </option>
+          ))}
+        </select>
+        <button
+          className="rounded border border-brand-300 px-2 py-1"
+          type="button"
+          onClick={() => {
+            setSelectedId(null);
+            clearNetworkInspector();
+          }}
+        >
+          비우기
+        </button>
+        <button
+          className="rounded bg-brand-900 px-2 py-1 text-white"
+          type="button"
+          onClick={() => useNetworkInspectorStore.setState({ open: false })}
+        >
+          닫기
+        </button>
+      </div>
+
+      {timeline.length > 0 ? (
+        <div className="mt-3 space-y-1">
+          {visibleSpans.map((span) => (
+            <div key={`${span.slot}-${span.at}`} className="relative h-2 rounded bg-brand-50">
+              <div
+                className={`absolute h-2 rounded ${span.type === "refresh-success" ? "bg-sky-400" : "bg-red-300"}`}
+                style={position(span.at - span.durationMs, span.durationMs)}
+                title={`refresh ${span.slot} (${span.durationMs}ms, 대기 ${span.waiters}건)`}
+              />
+            </div>
+          ))}
+          {timeline.map((request, index) => (
+            <button
+              key={request.id}
+              className={`relative block h-2 w-full rounded ${request.id === selectedId ? "bg-brand-200" : "bg-brand-50"}`}
+              type="button"
+              title={`${request.method} ${request.url} → ${request.status ?? request.outcome}`}
+              onClick={() => setSelectedId(request.id)}
+            >
+              <span
+                className={`absolute top-0 h-2 rounded ${statusColor(request)}`}
+                style={position(starts[index], request.durationMs)}
+              />
+            </button>
+          ))}
+          <p className="text-[10px] text-brand-600">
+            파란 막대: 토큰 refresh 구간 · 초록/주황/빨강: 2xx·3xx / 4xx / 5xx·응답 없음 ({windowMs}ms)
+          </p>
+        </div>
+      ) : null}
+
+      <div className="mt-3 grid gap-3 lg:grid-cols-[2fr_1fr]">
+        <table className="w-full table-fixed text-left">
+          <thead className="text-brand-600">
+            <tr>
+              <th className="w-16">시각</th>
+              <th className="w-20">클라이언트</th>
+              <th>요청</th>
+              <th className="w-14">상태</th>
+              <th className="w-14">시간</th>
+              <th className="w-40">표시</th>
+              <th className="w-14" />
+            </tr>
+          </thead>
+          <tbody>
+            {[...filtered].reverse().map((request) => (
+              <tr
+                key={request.id}
+                className={`cursor-pointer border-t border-brand-100 ${request.id === selectedId ? "bg-brand-50" : ""}`}
+                onClick={() => setSelectedId(request.id)}
+              >
+                <td>{formatTime(request.startedAt)}</td>
+                <td>{request.apiName}</td>
+                <td className="truncate">
+                  {request.method} {request.url}
+                </td>
+                <td>{request.status ?? request.errorCode ?? request.outcome}</td>
+                <td>{request.durationMs}ms</td>
+                <td className="space-x-1">
+                  {request.retryCount > 0 ? (
+                    <span className="rounded bg-amber-50 px-1 text-amber-700">재시도 {request.retryCount}</span>
+                  ) : null}
+                  {request.refreshWait ? (
+                    <span className="rounded bg-sky-50 px-1 text-sky-700">
+                      refresh 대기 {request.refreshWait.durationMs}ms
+                    </span>
+                  ) : null}
+                  {request.afterRefresh ? (
+                    <span className="rounded bg-sky-50 px-1 text-sky-700">재요청</span>
+                  ) : null}
+                  {request.replayed ? (
+                    <span className="rounded bg-brand-100 px-1 text-brand-700">재전송</span>
+                  ) : null}
+                </td>
+                <td>
+                  <button
+                    className="rounded border border-brand-300 px-1 disabled:opacity-50"
+                    type="button"
+                    title={request.replayBlockedReason ?? undefined}
+                    disabled={replayingId !== null || request.replayBlockedReason !== null}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      void replay(request.id);
+                    }}
+                  >
+                    {replayingId === request.id ? "…" : "재전송"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-3">
+          {selected ? (
+            <div className="rounded-lg bg-brand-50 p-2">
+              <p className="font-semibold">
+                {selected.method} {selected.url}
+              </p>
+              <p className="mt-1 break-all text-brand-700">
+                X-Request-Id {selected.requestId}
+                <br />
+                trace {selected.traceId} / span {selected.spanId}
+              </p>
+              {selected.refreshWait ? (
+                <p className="mt-1 text-sky-700">
+                  {selected.refreshWait.reason === "expiring"
+                    ? "토큰 만료 임박 → 보내기 전에 refresh 대기"
+                    : "401 → refresh 대기 후 재요청"}{" "}
+                  ({selected.refreshWait.durationMs}ms)
+                </p>
+              ) : null}
+              {selected.replayBlockedReason ? (
+                <p className="mt-1 text-amber-700">{selected.replayBlockedReason}</p>
+              ) : null}
+              <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-2 break-all">
+                {Object.entries(selected.headers).map(([name, value]) => (
+                  <div key={name} className="contents">
+                    <dt className="text-brand-600">{name}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ) : (
+            <p className="text-brand-600">요청을 선택하면 헤더와 추적 ID가 표시됩니다.</p>
+          )}
+
+          <div>
+            <h3 className="font-semibold">토큰 refresh 이벤트</h3>
+            <ul className="mt-1 space-y-0.5">
+              {refreshEvents.length === 0 ? <li className="text-brand-600">없음</li> : null}
+              {[...refreshEvents].reverse().map((event) => (
+                <li key={`${event.type}-${event.slot}-${event.at}-${event.apiName}`}>
+                  {formatTime(event.at)} [{event.slot}] {event.type}
+                  {event.type === "refresh-join" ? ` ← ${event.apiName}${event.remote ? " (다른 탭)" : ""}` : ""}
+                  {event.type === "refresh-success" || event.type === "refresh-failure"
+                    ? ` ${event.durationMs}ms, 대기 요청 ${event.waiters}건`
+                    : ""}
+                  {event.type === "refresh-failure" ? ` (${event.reason})` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
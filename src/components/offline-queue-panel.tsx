@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 오프라인 큐 (Presentation Layer - Offline Queue)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand (useOfflineQueueStore), TanStack Query (useApiMutation)
+ * 🔗 연결 레이어:
+ *   - 오프라인 큐 (src/lib/offline-queue.ts): 재전송 / 다시 시도 / 삭제
+ *   - 전역 상태 (src/store/offline-queue.ts): 대기/실패 요청 목록
+ *   - API 호출 레이어 (src/api/vendor.ts): 주문 생성 (offlineQueue 엔드포인트)
+ * 
+ * 역할:
+ * - 온라인 상태와 큐에 쌓인 요청(pending/failed) 표시
+ * - 오프라인에서 주문을 생성해보고, 온라인 복귀 시 재전송되는 과정을 시연
+ */
+
+"use client";
+
+import { useState } from "react";
+import { vendorApi } from "@/api/vendor";
+import { useApiMutation } from "@/lib/api-query";
+import {
+  discardOfflineRequest,
+  replayOfflineQueue,
+  retryOfflineRequest
+} from "@/lib/offline-queue";
+import { useOfflineQueueStore } from "@/store/offline-queue";
+
+export function OfflineQueuePanel() {
+  const { entries, online, replaying } = useOfflineQueueStore();
+  const [lastOrderId, setLastOrderId] = useState<string | null>(null);
+
+  // 오프라인이어도 mutationFn을 호출해야 큐에 저장되므로 networkMode: "always"
+  const createOrder = useApiMutation(vendorApi.createOrder, {
+    networkMode: "always",
+    onSuccess: (order) => setLastOrderId(order.id)
+  });
+
+  return (
+    <section className="rounded-2xl border border-brand-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">오프라인 큐 (입점사 주문)</h2>
+        <span
+          className={`rounded-full px-3 py-1 text-xs font-semibold ${
+            online ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {online ? "온라인" : "오프라인"}
+        </span>
+      </div>
+      <p className="mt-1 text-sm text-brand-700">
+        네트워크 오류로 실패한 주문은 IndexedDB에 저장되고, 온라인이 되면 순서대로 재전송됩니다.
+        Idempotency-Key가 붙어 있어 서버는 같은 주문을 한 번만 처리합니다.
+      </p>
+      <p className="mt-2 text-xs text-brand-600">
+        💡 DevTools → Network → Offline으로 바꾼 뒤 주문을 생성하고, 다시 온라인으로 바꿔보세요.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button
+          className="rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white"
+          type="button"
+          onClick={() => createOrder.mutate({ body: { sku: "SKU-DEMO", quantity: 1 } })}
+        >
+          주문 생성 ({createOrder.isPending ? "대기 중" : createOrder.status})
+        </button>
+        <button
+          className="rounded-lg border border-brand-300 px-4 py-2 text-sm disabled:opacity-50"
+          type="button"
+          disabled={replaying || !online}
+          onClick={() => void replayOfflineQueue()}
+        >
+          {replaying ? "재전송 중…" : "지금 재전송"}
+        </button>
+        {lastOrderId ? (
+          <span className="text-xs text-brand-700">마지막 생성 주문: {lastOrderId}</span>
+        ) : null}
+      </div>
+
+      <ul className="mt-4 space-y-2 text-sm">
+        {entries.length === 0 ? (
+          <li className="text-xs text-brand-600">큐가 비어 있습니다.</li>
+        ) : null}
+        {entries.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex items-center justify-between gap-2 rounded-lg bg-brand-50 p-2"
+          >
+            <div className="min-w-0">
+              <p className="font-medium">
+                {entry.method.toUpperCase()} {entry.url}{" "}
+                <span
+                  className={
+                    entry.status === "failed" ? "text-red-600" : "text-amber-700"
+                  }
+                >
+                  ({entry.status}, 시도 {entry.attempts}회)
+                </span>
+              </p>
+              <p className="truncate text-xs text-brand-600">
+                {entry.apiName} · Idempotency-Key {entry.idempotencyKey}
+              </p>
+              {entry.error ? <p className="text-xs text-red-600">{entry.error}</p> : null}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              {entry.status === "failed" ? (
+                <button
+                  className="rounded border border-brand-300 bg-white px-2 py-0.5 text-xs"
+                  type="button"
+                  onClick={() => void retryOfflineRequest(entry.id)}
+                >
+                  다시 시도
+                </button>
+              ) : null}
+              <button
+                className="rounded border border-red-200 bg-white px-2 py-0.5 text-xs text-red-700"
+                type="button"
+                onClick={() => discardOfflineRequest(entry.id)}
+              >
+                삭제
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 페이지네이션 (Presentation Layer - Pagination)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: TanStack Query (useApiPaginatedQuery)
+ * 🔗 연결 레이어:
+ *   - 페이지네이션 (src/lib/pagination.ts): 커서/오프셋 다음 페이지 계산, async iterator
+ *   - API 호출 레이어 (src/api/demo.ts, src/api/vendor.ts): hqBranchPages, vendorOrderPages
+ * 
+ * 역할:
+ * - 본사 지점 목록: 커서 페이지네이션 + useInfiniteQuery ("더 보기")
+ * - 입점사 주문: 오프셋 페이지네이션 + async iterator로 전체 페이지 순회 (중단 가능)
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { hqBranchPages } from "@/api/demo";
+import { vendorOrderPages } from "@/api/vendor";
+import { toApiError } from "@/lib/api-error";
+import { API_NAMES } from "@/lib/api-systems";
+import { useApiPaginatedQuery } from "@/lib/api-query";
+
+type WalkState = {
+  pages: number;
+  items: number;
+  status: "idle" | "running" | "done" | "aborted" | "error";
+  message?: string;
+};
+
+export function PaginationPanel() {
+  const branches = useApiPaginatedQuery(hqBranchPages.infiniteQuery());
+  const branchItems = branches.data?.pages.flatMap((page) => page.data.items) ?? [];
+
+  const [walk, setWalk] = useState<WalkState>({ pages: 0, items: 0, status: "idle" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 주문 전체 순회: 페이지를 받을 때마다 진행 상황 갱신
+  const walkAllOrders = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setWalk({ pages: 0, items: 0, status: "running" });
+
+    let pages = 0;
+    let items = 0;
+    try {
+      const iterator = vendorOrderPages.pages({}, {
+        config: { signal: controller.signal, skipGlobalError: true }
+      });
+      for await (const page of iterator) {
+        pages += 1;
+        items += page.items.length;
+        setWalk({ pages, items, status: "running" });
+      }
+      setWalk({ pages, items, status: "done" });
+    } catch (error) {
+      const apiError = toApiError(error, API_NAMES.vendorErp);
+      setWalk({
+        pages,
+        items,
+        status: apiError.kind === "canceled" ? "aborted" : "error",
+        message: apiError.message
+      });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-brand-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold">페이지네이션 (커서 / 오프셋)</h2>
+      <p className="mt-1 text-sm text-brand-700">
+        본사 지점 목록은 next 커서(Link 헤더 rel=&quot;next&quot;)로, 입점사 주문은 page/size로 다음
+        페이지를 요청합니다.
+      </p>
+
+      <div className="mt-4 grid gap-6 md:grid-cols-2">
+        <div>
+          <h3 className="text-sm font-semibold text-brand-800">본사 지점 (useInfiniteQuery)</h3>
+          <ul className="mt-2 space-y-1 text-sm">
+            {branchItems.map((branch) => (
+              <li key={branch.id} className="flex justify-between rounded bg-brand-50 px-2 py-1">
+                <span>{branch.name}</span>
+                <span className="text-xs text-brand-600">{branch.id}</span>
+              </li>
+            ))}
+          </ul>
+          {branches.error ? (
+            <p className="mt-2 text-xs text-red-600">{branches.error.message}</p>
+          ) : null}
+          <button
+            className="mt-3 rounded-lg border border-brand-300 px-4 py-2 text-sm disabled:opacity-50"
+            type="button"
+            disabled={!branches.hasNextPage || branches.isFetchingNextPage}
+            onClick={() => void branches.fetchNextPage()}
+          >
+            {branches.isFetchingNextPage
+              ? "불러오는 중…"
+              : branches.hasNextPage
+                ? `더 보기 (${branchItems.length}개 표시 중)`
+                : `마지막 페이지 (${branchItems.length}개)`}
+          </button>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-brand-800">입점사 주문 전체 순회 (async iterator)</h3>
+          <p className="mt-2 text-sm text-brand-700">
+            {walk.pages}페이지 / 주문 {walk.items}건 ({walk.status})
+          </p>
+          {walk.message ? <p className="text-xs text-red-600">{walk.message}</p> : null}
+          <div className="mt-3 flex gap-2">
+            <button
+              className="rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+              type="button"
+              disabled={walk.status === "running"}
+              onClick={() => void walkAllOrders()}
+            >
+              전체 페이지 순회
+            </button>
+            <button
+              className="rounded-lg border border-brand-300 px-4 py-2 text-sm disabled:opacity-50"
+              type="button"
+              disabled={walk.status !== "running"}
+              onClick={() => abortRef.current?.abort()}
+            >
+              중단
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 서비스 상태 표시 (Presentation Layer - Service Status)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand (useCircuitBreakerStore)
+ * 🔗 연결 레이어:
+ *   - 전역 상태 (src/store/circuit-breaker.ts): API 시스템별 서킷 상태
+ *   - 서킷 브레이커 (src/lib/circuit-breaker.ts): 수동 재개 (resetCircuitBreaker)
+ * 
+ * 역할:
+ * - 서킷이 열려 있거나(open) 복구 확인 중(half-open)이면 "서비스 지연" 안내 표시
+ *   (에러 페이지로 이동시키지 않고 해당 영역에서만 알림)
+ * - 서킷이 닫혀 있으면 아무것도 렌더링하지 않음
+ */
+
+"use client";
+
+import { API_NAMES } from "@/lib/api-systems";
+import { resetCircuitBreaker } from "@/lib/circuit-breaker";
+import { selectCircuit, useCircuitBreakerStore } from "@/store/circuit-breaker";
+import type { ApiSystem } from "@/store/auth";
+
+const REASON_LABELS = {
+  "consecutive-failures": "연속 실패",
+  "error-rate": "에러율 초과",
+  "probe-failed": "복구 확인 실패"
+} as const;
+
+export function ServiceStatusBanner({ system }: { system: ApiSystem }) {
+  const circuit = useCircuitBreakerStore(selectCircuit(system));
+
+  if (circuit.state === "closed") {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800" role="status">
+      <p className="font-semibold">⚠️ 서비스 지연 ({API_NAMES[system]})</p>
+      {circuit.state === "open" ? (
+        <p className="mt-1">
+          응답이 불안정해 요청을 잠시 멈췄습니다
+          {circuit.reason ? ` (${REASON_LABELS[circuit.reason]})` : ""}.
+          {circuit.retryAt
+            ? ` ${new Date(circuit.retryAt).toLocaleTimeString("ko-KR", { hour12: false })}부터 다시 확인합니다.`
+            : ""}
+        </p>
+      ) : (
+        <p className="mt-1">복구 여부를 확인하는 중입니다. 다음 요청이 성공하면 정상으로 돌아옵니다.</p>
+      )}
+      <button
+        className="mt-2 rounded border border-amber-300 bg-white px-2 py-0.5"
+        type="button"
+        onClick={() => resetCircuitBreaker(system)}
+      >
+        지금 다시 시도
+      </button>
+    </div>
+  );
+}
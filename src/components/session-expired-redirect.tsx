@@ -0,0 +1,46 @@
+/**
+ * ============================================================================
+ * 레이어: UI 레이어 - 세션 만료 처리 (Presentation Layer - Session Expired)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Next.js (useRouter)
+ * 🔗 연결 레이어:
+ *   - 인증 서비스 (src/lib/auth-service.ts): session-expired / logout 이벤트 구독
+ *   - 프로바이더 레이어 (src/app/providers.tsx): 모든 화면에 연결
+ * 
+ * 역할:
+ * - refresh token이 없거나 거부되어 세션이 만료되면 로그인 화면으로 이동
+ *   (현재 주소를 returnUrl로 넘겨 로그인 후 돌아옴)
+ * - 로그아웃하면 로그인 화면으로 이동
+ * - 렌더링하는 내용은 없음
+ */
+
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { buildLoginUrl, LOGIN_PATH, subscribeAuthEvents } from "@/lib/auth-service";
+
+export function SessionExpiredRedirect() {
+  const router = useRouter();
+
+  useEffect(
+    () =>
+      subscribeAuthEvents((event) => {
+        if (event.type !== "session-expired" && event.type !== "logout") {
+          return;
+        }
+        // 이미 로그인 화면이면 그대로 둠 (로그인 화면의 요청이 실패한 경우)
+        const { pathname, search } = window.location;
+        if (pathname === LOGIN_PATH) {
+          return;
+        }
+        router.push(
+          buildLoginUrl(`${pathname}${search}`, event.type === "session-expired" ? "expired" : undefined)
+        );
+      }),
+    [router]
+  );
+
+  return null;
+}
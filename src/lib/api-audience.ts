@@ -0,0 +1,37 @@
+/**
+ * ============================================================================
+ * 레이어: 유틸리티 - API audience (Utility Layer - API Audience)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 인증 세션이 refresh 때 요청할 audience
+ *   - 서버 인증 (src/server/auth.ts): route handler가 요구하는 audience
+ *   - BFF 클라이언트 / 서버용 API 클라이언트 (src/lib/axios.ts, src/server/api-client.ts): 시스템별 토큰 전달 헤더
+ * 
+ * 역할:
+ * - API 시스템별 access token의 audience(aud 클레임) 값을 한곳에서 선언
+ * - 클라이언트와 서버가 같은 값을 쓰도록 의존성 없는 모듈로 분리
+ *   (다른 시스템용으로 발급된 토큰은 서버가 401로 거부합니다)
+ * - 여러 시스템을 대신 호출하는 서버 API(BFF)에 시스템별 access token을 전달할 헤더 이름 선언
+ *   (Authorization 헤더에는 토큰을 하나만 담을 수 있으므로)
+ */
+
+import type { ApiSystem } from "@/store/auth";
+
+export const API_AUDIENCES: Record<ApiSystem, string> = {
+  hqErp: "hq-erp",
+  clientApp: "client-app",
+  vendorErp: "vendor-erp"
+};
+
+// BFF 요청에 시스템별 access token을 담는 헤더 (요청 로그에서는 값을 가림)
+export const API_TOKEN_HEADERS: Record<ApiSystem, string> = {
+  hqErp: "X-Hq-Erp-Token",
+  clientApp: "X-Client-App-Token",
+  vendorErp: "X-Vendor-Erp-Token"
+};
+
+export function isApiAudience(value: unknown): value is string {
+  return typeof value === "string" && Object.values(API_AUDIENCES).includes(value);
+}
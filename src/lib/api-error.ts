@@ -0,0 +1,290 @@
+/**
+ * ============================================================================
+ * 레이어: API 에러 모델 (API Error Model Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (AxiosError 변환)
+ * 🔗 연결 레이어:
+ *   - 서버 API 레이어 (src/server/api-response.ts): ApiErrorEnvelope 형식으로 에러 응답
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 모든 실패를 ApiError로 변환해서 reject
+ *   - 에러 버스 (src/lib/error-bus.ts): ApiError를 구독자(UI)에게 전달
+ * 
+ * 역할:
+ * - 서버와 클라이언트가 공유하는 에러 응답 형식(ApiErrorEnvelope) 정의
+ * - 모든 실패(HTTP, 타임아웃, 취소, 네트워크, 스키마 불일치, 서킷 오픈)를 하나의 구별된 유니온(ApiError)으로 변환
+ * 
+ * 사용 방법:
+ * ```typescript
+ * try {
+ *   await hqApi.get("/summary");
+ * } catch (error) {
+ *   if (isApiError(error) && error.kind === "http") {
+ *     console.log(error.status, error.code, error.fieldErrors);
+ *   }
+ * }
+ * ```
+ */
+
+import axios from "axios";
+import type { ZodIssue } from "zod";
+
+/**
+ * 서버 에러 응답 본문 (src/app/api/** 공통)
+ * - code: 기계가 읽는 에러 코드 (예: "NOT_FOUND", "TOKEN_EXPIRED", "VALIDATION_FAILED", "INSUFFICIENT_SCOPE")
+ * - message: 사람이 읽는 메시지
+ * - details: 추가 정보 (코드별로 다름)
+ * - fieldErrors: 입력 필드별 검증 에러 (폼에서 필드 옆에 표시)
+ * - traceId: 서버 로그 추적용 ID
+ */
+export type ApiErrorEnvelope = {
+  code: string;
+  message: string;
+  details?: unknown;
+  fieldErrors?: Record<string, string[]>;
+  traceId: string;
+};
+
+export function isApiErrorEnvelope(data: unknown): data is ApiErrorEnvelope {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as ApiErrorEnvelope).code === "string" &&
+    typeof (data as ApiErrorEnvelope).message === "string"
+  );
+}
+
+export type ApiErrorKind = "http" | "timeout" | "canceled" | "network" | "schema" | "circuit-open";
+
+// 서킷 브레이커(lib/circuit-breaker.ts)가 요청을 보내지 않고 실패시킬 때의 axios 에러 코드
+export const CIRCUIT_OPEN_CODE = "ERR_CIRCUIT_OPEN";
+
+export type ApiErrorContext = {
+  // 에러가 발생한 API 이름 (예: "HQ-ERP")
+  apiName: string;
+  url: string;
+  method: string;
+  cause?: unknown;
+};
+
+/**
+ * 모든 ApiError의 공통 속성
+ */
+abstract class ApiErrorBase extends Error {
+  abstract readonly kind: ApiErrorKind;
+  // HTTP 상태 코드 (응답이 없는 에러는 null)
+  abstract readonly status: number | null;
+  readonly apiName: string;
+  readonly url: string;
+  readonly method: string;
+
+  constructor(message: string, { apiName, url, method, cause }: ApiErrorContext) {
+    super(message);
+    this.name = "ApiError";
+    this.apiName = apiName;
+    this.url = url;
+    this.method = method;
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+/**
+ * 서버가 에러 상태 코드로 응답함
+ */
+export class HttpApiError extends ApiErrorBase {
+  readonly kind = "http" as const;
+  readonly code: string;
+  // 서버가 응답 본문에 담아 보낸 메시지
+  readonly serverMessage: string | null;
+  readonly details: unknown;
+  readonly fieldErrors: Record<string, string[]>;
+  readonly traceId: string | null;
+  // 서버가 X-Request-Id 헤더로 돌려준 요청 ID (문의/로그 추적용)
+  readonly requestId: string | null;
+
+  constructor(
+    public readonly status: number,
+    envelope: Partial<ApiErrorEnvelope> | null,
+    requestId: string | null,
+    context: ApiErrorContext
+  ) {
+    super(
+      envelope?.message ?? `${context.apiName} ${context.method} ${context.url} failed (${status})`,
+      context
+    );
+    this.code = envelope?.code ?? `HTTP_${status}`;
+    this.serverMessage = envelope?.message ?? null;
+    this.details = envelope?.details;
+    this.fieldErrors = envelope?.fieldErrors ?? {};
+    this.traceId = envelope?.traceId ?? null;
+    this.requestId = requestId;
+  }
+
+  /**
+   * 입력값 검증 실패 (폼에서 필드 옆에 표시해야 하는 에러)
+   */
+  get isValidationError() {
+    return this.status === 400 || this.status === 422;
+  }
+
+  /**
+   * 권한 부족 (토큰은 유효하므로 refresh로 해결되지 않음)
+   */
+  get isForbidden() {
+    return this.status === 403;
+  }
+
+  /**
+   * 서버가 403 INSUFFICIENT_SCOPE의 details.missingScopes로 알려준 부족한 scope
+   */
+  get missingScopes(): string[] {
+    const details = this.details as { missingScopes?: unknown } | undefined;
+    return this.isForbidden && Array.isArray(details?.missingScopes)
+      ? details.missingScopes.filter((scope): scope is string => typeof scope === "string")
+      : [];
+  }
+}
+
+/**
+ * 제한 시간 안에 응답이 오지 않음
+ */
+export class TimeoutApiError extends ApiErrorBase {
+  readonly kind = "timeout" as const;
+  readonly status = null;
+
+  constructor(public readonly timeoutMs: number, context: ApiErrorContext) {
+    super(`${context.apiName} ${context.method} ${context.url} timed out after ${timeoutMs}ms`, context);
+  }
+}
+
+/**
+ * 호출부(AbortController, 언마운트 등)에서 요청을 취소함
+ * 사용자에게 보여줄 에러가 아니므로 전역 에러 처리 대상이 아닙니다.
+ */
+export class CanceledApiError extends ApiErrorBase {
+  readonly kind = "canceled" as const;
+  readonly status = null;
+
+  constructor(context: ApiErrorContext) {
+    super(`${context.apiName} ${context.method} ${context.url} canceled`, context);
+  }
+}
+
+/**
+ * 응답을 받지 못함 (오프라인, DNS, CORS 등)
+ */
+export class NetworkApiError extends ApiErrorBase {
+  readonly kind = "network" as const;
+  readonly status = null;
+
+  constructor(context: ApiErrorContext) {
+    super(`${context.apiName} ${context.method} ${context.url} network error`, context);
+  }
+}
+
+/**
+ * 요청 파라미터 또는 응답 본문이 엔드포인트 스키마(Zod)와 맞지 않음
+ * - params: 호출부가 잘못된 값을 넘김 (요청을 보내지 않음)
+ * - response: 서버가 약속과 다른 형식으로 응답함 (HTTP 상태는 성공)
+ */
+export class SchemaApiError extends ApiErrorBase {
+  readonly kind = "schema" as const;
+  readonly status = null;
+
+  constructor(
+    public readonly stage: "params" | "response",
+    public readonly issues: ZodIssue[],
+    context: ApiErrorContext
+  ) {
+    super(`${context.apiName} ${context.method} ${context.url} ${stage} schema mismatch`, context);
+  }
+}
+
+/**
+ * 서킷 브레이커가 열려 있어 요청을 보내지 않고 바로 실패함
+ * 백엔드 장애가 이어지는 동안 타임아웃까지 기다리지 않도록 하는 에러이며,
+ * 화면은 서킷 상태(src/store/circuit-breaker.ts)로 "서비스 지연"을 표시합니다.
+ */
+export class CircuitOpenError extends ApiErrorBase {
+  readonly kind = "circuit-open" as const;
+  readonly status = null;
+
+  constructor(context: ApiErrorContext) {
+    super(`${context.apiName} ${context.method} ${context.url} circuit open`, context);
+  }
+}
+
+export type ApiError =
+  | HttpApiError
+  | TimeoutApiError
+  | CanceledApiError
+  | NetworkApiError
+  | SchemaApiError
+  | CircuitOpenError;
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiErrorBase;
+}
+
+/**
+ * 폼에서 필드별로 표시해야 하는 검증 에러인지 확인
+ */
+export function isValidationError(error: unknown): error is HttpApiError {
+  return error instanceof HttpApiError && error.isValidationError;
+}
+
+/**
+ * 권한 부족(403) 에러인지 확인
+ */
+export function isForbiddenError(error: unknown): error is HttpApiError {
+  return error instanceof HttpApiError && error.isForbidden;
+}
+
+/**
+ * 임의의 실패 → ApiError 변환
+ * 
+ * - 취소 → canceled
+ * - ERR_CIRCUIT_OPEN → circuit-open
+ * - ECONNABORTED/ETIMEDOUT → timeout
+ * - 응답 있음 → http (본문이 ApiErrorEnvelope면 code/fieldErrors 등을 채움)
+ * - 그 외 → network
+ */
+export function toApiError(error: unknown, apiName: string): ApiError {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  const config = axios.isAxiosError(error) ? error.config : undefined;
+  const context: ApiErrorContext = {
+    apiName,
+    url: `${config?.baseURL ?? ""}${config?.url ?? ""}`,
+    method: (config?.method ?? "get").toUpperCase(),
+    cause: error
+  };
+
+  if (axios.isCancel(error)) {
+    return new CanceledApiError(context);
+  }
+  if (!axios.isAxiosError(error)) {
+    return new NetworkApiError(context);
+  }
+  if (error.code === CIRCUIT_OPEN_CODE) {
+    return new CircuitOpenError(context);
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new TimeoutApiError(config?.timeout ?? 0, context);
+  }
+  if (!error.response) {
+    return new NetworkApiError(context);
+  }
+
+  const { data, headers, status } = error.response;
+  const requestId = headers?.["x-request-id"];
+  return new HttpApiError(
+    status,
+    isApiErrorEnvelope(data) ? data : null,
+    typeof requestId === "string" ? requestId : null,
+    context
+  );
+}
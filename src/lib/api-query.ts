@@ -0,0 +1,253 @@
+/**
+ * ============================================================================
+ * 레이어: 쿼리 훅 (Query Hooks Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: TanStack Query (useQuery, useMutation, useInfiniteQuery)
+ * 🔗 연결 레이어:
+ *   - 엔드포인트 정의 (src/lib/endpoint.ts): 레지스트리의 queries / api 함수를 그대로 받음
+ *   - API 에러 모델 (src/lib/api-error.ts): 쿼리 에러를 ApiError로 통일
+ *   - 에러 버스 (src/lib/error-bus.ts): QueryCache/MutationCache onError에서 발행
+ *   - 페이지네이션 (src/lib/pagination.ts): 페이지 엔드포인트의 infiniteQuery() 결과를 받음
+ *   - 프로바이더 레이어 (src/app/providers.tsx): QueryClient 전역 설정
+ * 
+ * 역할:
+ * - 쿼리/뮤테이션 에러 상태를 ApiError로 통일 (error.kind, error.status로 분기)
+ * - 4xx, 취소, 스키마 불일치는 재시도하지 않음
+ * - 뮤테이션 성공 후 관련 queryKey invalidate (기본: 같은 시스템의 모든 쿼리)
+ * - 재시도가 끝난 최종 에러만 에러 버스로 한 번 발행 (요청마다 toast가 뜨지 않도록)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const hqQuery = useApiQuery(demoQueries.hqSummary(), { enabled: false });
+ * const createOrder = useApiMutation(vendorApi.createOrder); // 성공 시 ["vendorErp"] invalidate
+ * const orders = useApiInfiniteQuery((page) => vendorQueries.orders({ query: { page } }), {
+ *   initialPageParam: 1,
+ *   getNextPageParam: (last) => (last.page < last.totalPages ? last.page + 1 : undefined)
+ * });
+ * const branches = useApiPaginatedQuery(hqBranchPages.infiniteQuery()); // 커서/Link 헤더 자동 처리
+ * 
+ * // 전역 처리 끄기 (컴포넌트에서 직접 표시할 때)
+ * useApiQuery(demoQueries.hqSummary(), { meta: { skipGlobalError: true } });
+ * ```
+ */
+
+import type { AxiosRequestConfig } from "axios";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryFunctionContext,
+  type QueryKey,
+  type UseInfiniteQueryOptions,
+  type UseMutationOptions,
+  type UseQueryOptions
+} from "@tanstack/react-query";
+import { isApiError, toApiError, type ApiError } from "@/lib/api-error";
+import { API_NAMES } from "@/lib/api-systems";
+import { publishApiError } from "@/lib/error-bus";
+import type { Page, PaginatedQueryOptions } from "@/lib/pagination";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+
+type ApiQueryMeta = {
+  // true면 최종 실패도 에러 버스로 발행하지 않음 (컴포넌트에서 error 상태로 직접 처리)
+  skipGlobalError?: boolean;
+};
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    defaultError: ApiError;
+    queryMeta: ApiQueryMeta;
+    mutationMeta: ApiQueryMeta;
+  }
+}
+
+// 쿼리 재시도 횟수 (axios 재시도 adapter가 먼저 재시도하므로 1번만)
+const MAX_QUERY_RETRIES = 1;
+
+/**
+ * 쿼리 재시도 여부 (QueryClient defaultOptions.queries.retry)
+ * - 4xx: 다시 보내도 같은 결과이므로 재시도 안 함 (401은 인터셉터가 이미 refresh 후 재요청함)
+ * - 취소/스키마 불일치/서킷 오픈: 재시도 안 함
+ */
+export function shouldRetryApiError(failureCount: number, error: unknown) {
+  if (isApiError(error)) {
+    if (error.kind === "canceled" || error.kind === "schema" || error.kind === "circuit-open") {
+      return false;
+    }
+    if (error.status !== null && error.status >= 400 && error.status < 500) {
+      return false;
+    }
+  }
+  return failureCount < MAX_QUERY_RETRIES;
+}
+
+/**
+ * queryKey 첫 번째 항목(시스템)으로 API 이름 조회
+ */
+function getApiName(key: QueryKey | undefined) {
+  const system = key?.[0];
+  return API_SYSTEMS.includes(system as ApiSystem) ? API_NAMES[system as ApiSystem] : "Query";
+}
+
+/**
+ * 쿼리/뮤테이션 최종 에러 → 에러 버스 발행 (QueryCache/MutationCache onError)
+ */
+export function publishQueryError(error: unknown, key: QueryKey | undefined, meta?: ApiQueryMeta) {
+  if (meta?.skipGlobalError) {
+    return;
+  }
+  const apiError = toApiError(error, getApiName(key));
+  if (apiError.kind !== "canceled") {
+    publishApiError(apiError);
+  }
+}
+
+/**
+ * queryFn/mutationFn 실패를 ApiError로 변환
+ */
+function withApiError<TArgs extends unknown[], TData>(
+  key: QueryKey | undefined,
+  fn: (...args: TArgs) => Promise<TData>
+) {
+  return async (...args: TArgs) => {
+    try {
+      return await fn(...args);
+    } catch (error) {
+      throw toApiError(error, getApiName(key));
+    }
+  };
+}
+
+type ApiQuery<TData, TQueryKey extends QueryKey> = {
+  queryKey: TQueryKey;
+  queryFn: (context: QueryFunctionContext<TQueryKey>) => Promise<TData>;
+};
+
+export type ApiQueryOptions<TData, TQueryKey extends QueryKey = QueryKey> = Omit<
+  UseQueryOptions<TData, ApiError, TData, TQueryKey>,
+  "queryKey" | "queryFn"
+>;
+
+/**
+ * useQuery + ApiError
+ * @param query - 레지스트리 Query 팩토리 결과 (예: demoQueries.hqSummary())
+ */
+export function useApiQuery<TData, TQueryKey extends QueryKey>(
+  query: ApiQuery<TData, TQueryKey>,
+  options?: ApiQueryOptions<TData, TQueryKey>
+) {
+  return useQuery({
+    ...options,
+    queryKey: query.queryKey,
+    queryFn: withApiError(query.queryKey, query.queryFn)
+  });
+}
+
+export type ApiInfiniteQueryOptions<TData, TPageParam> = Omit<
+  UseInfiniteQueryOptions<TData, ApiError, InfiniteData<TData, TPageParam>, QueryKey, TPageParam>,
+  "queryKey" | "queryFn"
+>;
+
+/**
+ * useInfiniteQuery + ApiError
+ * @param query - 페이지 파라미터 → 레지스트리 Query 팩토리 결과
+ *                (queryKey는 첫 페이지 기준 + "infinite")
+ */
+export function useApiInfiniteQuery<TData, TPageParam>(
+  query: (pageParam: TPageParam) => ApiQuery<TData, QueryKey>,
+  options: ApiInfiniteQueryOptions<TData, TPageParam>
+) {
+  const queryKey: QueryKey = [...query(options.initialPageParam).queryKey, "infinite"];
+  return useInfiniteQuery<TData, ApiError, InfiniteData<TData, TPageParam>, QueryKey, TPageParam>({
+    ...options,
+    queryKey,
+    queryFn: withApiError(queryKey, (context: QueryFunctionContext<QueryKey, TPageParam>) =>
+      query(context.pageParam as TPageParam).queryFn(context)
+    )
+  });
+}
+
+export type ApiPaginatedQueryOptions<TData, TPageParam> = Omit<
+  ApiInfiniteQueryOptions<Page<TData, TPageParam>, TPageParam>,
+  "initialPageParam" | "getNextPageParam"
+>;
+
+/**
+ * useInfiniteQuery + ApiError (페이지 엔드포인트용)
+ * @param query - 페이지 엔드포인트의 infiniteQuery() 결과 (예: hqBranchPages.infiniteQuery())
+ *                다음 페이지 파라미터는 페이지 방식(offset/cursor)이 응답에서 계산
+ */
+export function useApiPaginatedQuery<TData, TPageParam>(
+  query: PaginatedQueryOptions<TData, TPageParam>,
+  options?: ApiPaginatedQueryOptions<TData, TPageParam>
+) {
+  return useInfiniteQuery<
+    Page<TData, TPageParam>,
+    ApiError,
+    InfiniteData<Page<TData, TPageParam>, TPageParam>,
+    QueryKey,
+    TPageParam
+  >({
+    ...options,
+    queryKey: query.queryKey,
+    queryFn: withApiError(query.queryKey, query.queryFn),
+    initialPageParam: query.initialPageParam,
+    getNextPageParam: query.getNextPageParam
+  });
+}
+
+// 레지스트리 api 함수 (lib/endpoint.ts의 EndpointCall)
+type ApiCall = ((input: never, config?: AxiosRequestConfig) => Promise<unknown>) & {
+  readonly key: readonly [ApiSystem, string];
+};
+
+export type ApiMutationOptions<TData, TVariables> = Omit<
+  UseMutationOptions<TData, ApiError, TVariables>,
+  "mutationFn"
+> & {
+  // 성공 후 invalidate할 queryKey 목록 (기본: [[시스템]], 빈 배열이면 invalidate 안 함)
+  invalidates?: QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+};
+
+/**
+ * useMutation + ApiError + 성공 후 관련 쿼리 invalidate
+ * @param call - 레지스트리 api 함수 (예: vendorApi.createOrder)
+ */
+export function useApiMutation<TCall extends ApiCall>(
+  call: TCall,
+  {
+    invalidates,
+    onSuccess,
+    ...options
+  }: ApiMutationOptions<Awaited<ReturnType<TCall>>, Parameters<TCall>[0]> = {}
+) {
+  type TData = Awaited<ReturnType<TCall>>;
+  type TVariables = Parameters<TCall>[0];
+
+  const queryClient = useQueryClient();
+  const request = call as unknown as (
+    variables: TVariables,
+    config?: AxiosRequestConfig
+  ) => Promise<TData>;
+
+  return useMutation<TData, ApiError, TVariables>({
+    mutationKey: call.key,
+    ...options,
+    mutationFn: withApiError(call.key, (variables: TVariables) =>
+      // 최종 에러는 MutationCache onError가 발행
+      request(variables, { skipGlobalError: true })
+    ),
+    onSuccess: async (...args) => {
+      const [data, variables] = args;
+      const keys =
+        typeof invalidates === "function"
+          ? invalidates(data, variables)
+          : (invalidates ?? [[call.key[0]]]);
+      await Promise.all(keys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+      return onSuccess?.(...args);
+    }
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * 레이어: 유틸리티 - API 시스템 (Utility Layer - API Systems)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 브라우저 클라이언트의 baseURL / 이름
+ *   - 서버용 API 클라이언트 (src/server/api-client.ts): origin을 붙인 baseURL / 이름
+ *   - API 호출 레이어 (src/api/bff.ts): BFF 에러 표시 이름
+ *   - UI 레이어: 시스템 이름 표시
+ * 
+ * 역할:
+ * - API 시스템별 base URL과 표시 이름을 한곳에서 선언
+ * - 서버 코드가 브라우저 클라이언트 모듈(인증 세션, 인터셉터, 오프라인 큐 등 모듈 로드 시 부수 효과가 있음)을
+ *   import하지 않고도 같은 값을 쓰도록 의존성 없는 모듈로 분리
+ */
+
+import type { ApiSystem } from "@/store/auth";
+
+// 각 API 클라이언트의 base URL 정의 (서버용 클라이언트는 origin을 붙여 사용, src/server/api-client.ts)
+export const API_BASES: Record<ApiSystem, string> = {
+  hqErp: "/api/hq-erp",
+  clientApp: "/api/client-app",
+  vendorErp: "/api/vendor-erp"
+};
+
+// 각 API 클라이언트의 이름 (에러 로깅 및 에러 표시용)
+export const API_NAMES: Record<ApiSystem, string> = {
+  hqErp: "HQ-ERP",
+  clientApp: "Client-App",
+  vendorErp: "Vendor-ERP"
+};
+
+// BFF 클라이언트 이름 (src/lib/axios.ts의 bffClient)
+export const BFF_API_NAME = "BFF";
@@ -0,0 +1,216 @@
+/**
+ * ============================================================================
+ * 레이어: 인증 서비스 (Auth Service Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios
+ * 🔗 연결 레이어:
+ *   - 인증 세션 (src/lib/auth-session.ts): refresh 성공/실패 이벤트 → 라이프사이클 이벤트
+ *   - Zustand (src/store/auth.ts): 로그인 시 시스템별 토큰 저장, 로그아웃 시 초기화
+ *   - 로그인 화면 (src/app/login/page.tsx), 세션 만료 리다이렉트 (src/components/session-expired-redirect.tsx)
+ * 
+ * 역할:
+ * - 로그인: /api/auth/login으로 API 시스템(audience)별 토큰 쌍을 받아 각 슬롯에 저장
+ * - 로그아웃: 모든 슬롯 초기화(진행 중인 요청 취소) 후 /api/auth/logout으로 서버의 refresh token 폐기
+ * - 세션 라이프사이클 이벤트 발행 (subscribeAuthEvents)
+ *   - login / logout: 로그인, 로그아웃
+ *   - refreshed / refresh-failed: 시스템별 토큰 refresh 결과
+ *   - session-expired: refresh token이 없거나 서버가 거부함 → 다시 로그인해야 함
+ *     (네트워크 오류로 인한 refresh-failed는 일시적이므로 session-expired가 아님)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * await login({ username: "admin", password: "demo1234" });
+ * 
+ * const unsubscribe = subscribeAuthEvents((event) => {
+ *   if (event.type === "session-expired") router.push(buildLoginUrl(location.pathname));
+ * });
+ * 
+ * await logout();
+ * ```
+ */
+
+import axios from "axios";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { toApiError } from "@/lib/api-error";
+import {
+  subscribeAuthSessionEvents,
+  type AuthSessionEvent,
+  type TokenRefreshFailureReason
+} from "@/lib/auth-session";
+import { clearHttpCache } from "@/lib/http-cache";
+import { clearOfflineQueue } from "@/lib/offline-queue";
+import { API_SYSTEMS, clearTokens, getTokens, setTokens, type ApiSystem } from "@/store/auth";
+
+// 인증 엔드포인트 (src/app/api/auth/login, src/app/api/auth/logout)
+const LOGIN_URL = "/api/auth/login";
+const LOGOUT_URL = "/api/auth/logout";
+
+// 로그인 화면 경로 (세션 만료 시 이동)
+export const LOGIN_PATH = "/login";
+
+// 에러 로그/표시용 이름
+const AUTH_API_NAME = "Auth";
+
+export type AuthUser = {
+  id: string;
+  username: string;
+  name: string;
+  roles: string[];
+};
+
+export type LoginCredentials = {
+  username: string;
+  password: string;
+};
+
+type LoginResponse = {
+  user: AuthUser;
+  // audience → 토큰 쌍
+  tokens: Record<string, { accessToken: string; refreshToken: string }>;
+};
+
+export type AuthEvent =
+  | { type: "login"; user: AuthUser; at: number }
+  | { type: "refreshed"; slot: ApiSystem; at: number }
+  | { type: "refresh-failed"; slot: ApiSystem; reason: TokenRefreshFailureReason; at: number }
+  | { type: "session-expired"; slot: ApiSystem; reason: TokenRefreshFailureReason; at: number }
+  | { type: "logout"; at: number };
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const listeners = new Set<AuthEventListener>();
+// 인증 세션 이벤트 구독 해제 함수 (구독자가 있는 동안만 구독)
+let unsubscribeSessionEvents: (() => void) | null = null;
+
+function emitAuthEvent(event: AuthEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+/**
+ * 인증 세션의 refresh 결과 → 라이프사이클 이벤트
+ * 
+ * 네트워크 오류가 아닌 실패는 세션이 토큰을 비우므로 session-expired를 함께 발행합니다.
+ */
+function forwardSessionEvent(event: AuthSessionEvent) {
+  if (event.type === "refresh-success") {
+    emitAuthEvent({ type: "refreshed", slot: event.slot, at: event.at });
+  }
+  if (event.type === "refresh-failure") {
+    const { slot, reason, at } = event;
+    emitAuthEvent({ type: "refresh-failed", slot, reason, at });
+    if (reason !== "network") {
+      emitAuthEvent({ type: "session-expired", slot, reason, at });
+    }
+  }
+}
+
+/**
+ * 세션 라이프사이클 이벤트 구독
+ * @returns 구독 해제 함수
+ */
+export function subscribeAuthEvents(listener: AuthEventListener) {
+  listeners.add(listener);
+  unsubscribeSessionEvents ??= subscribeAuthSessionEvents(forwardSessionEvent);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && unsubscribeSessionEvents) {
+      unsubscribeSessionEvents();
+      unsubscribeSessionEvents = null;
+    }
+  };
+}
+
+/**
+ * 로그인
+ * 
+ * 시스템마다 자기 audience의 토큰 쌍을 저장합니다 (시스템별 refresh token family가 분리됨).
+ * 실패하면 ApiError로 reject합니다 (401 INVALID_CREDENTIALS, 422 VALIDATION_FAILED 등).
+ */
+export async function login(credentials: LoginCredentials): Promise<AuthUser> {
+  let data: LoginResponse;
+  try {
+    ({ data } = await axios.post<LoginResponse>(
+      LOGIN_URL,
+      { ...credentials, audiences: API_SYSTEMS.map((system) => API_AUDIENCES[system]) },
+      { timeout: 5000 }
+    ));
+  } catch (error) {
+    throw toApiError(error, AUTH_API_NAME);
+  }
+
+  API_SYSTEMS.forEach((system) => {
+    const tokens = data.tokens[API_AUDIENCES[system]];
+    if (tokens) {
+      setTokens(system, tokens);
+    }
+  });
+  emitAuthEvent({ type: "login", user: data.user, at: Date.now() });
+  return data.user;
+}
+
+/**
+ * 로그아웃
+ * 
+ * 토큰을 먼저 비워 진행 중인 요청을 취소하고(src/lib/request-control.ts),
+ * 이전 사용자의 응답과 요청이 남지 않도록 HTTP 캐시와 오프라인 큐를 비웁니다.
+ * (TanStack Query 캐시는 logout 이벤트를 받은 프로바이더가 비움, src/app/providers.tsx)
+ * 서버의 refresh token 폐기는 실패해도 로그아웃을 막지 않습니다.
+ */
+export async function logout() {
+  const refreshTokens = API_SYSTEMS.map((system) => getTokens(system).refreshToken).filter(
+    (token): token is string => Boolean(token)
+  );
+  clearTokens();
+  clearHttpCache();
+  clearOfflineQueue();
+
+  try {
+    await axios.post(LOGOUT_URL, { refreshTokens }, { timeout: 5000 });
+  } catch (error) {
+    console.warn("[Auth] 로그아웃 요청 실패 (토큰은 이미 삭제됨)", error);
+  }
+  emitAuthEvent({ type: "logout", at: Date.now() });
+}
+
+/**
+ * 로그인 후 돌아갈 주소 검증
+ * 
+ * 브라우저와 같은 방식(URL 파서)으로 현재 origin 기준 주소를 만든 뒤,
+ * origin이 다르거나("//evil.com", "/\t/evil.com", "https://..." 등) 로그인 화면 자신이면
+ * "/"로 바꿉니다 (open redirect 방지).
+ * 
+ * @returns 파싱한 주소의 경로 + 쿼리 + 해시 (입력 문자열을 그대로 돌려주지 않음)
+ */
+export function sanitizeReturnUrl(returnUrl: string | null | undefined) {
+  if (!returnUrl) {
+    return "/";
+  }
+  // 서버 렌더링 중에는 origin을 알 수 없으므로 임시 origin으로 같은 규칙 적용
+  const origin = typeof window === "undefined" ? "http://localhost" : window.location.origin;
+  let url: URL;
+  try {
+    url = new URL(returnUrl, origin);
+  } catch {
+    return "/";
+  }
+  if (url.origin !== origin || url.pathname === LOGIN_PATH) {
+    return "/";
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * 로그인 화면 주소 (로그인 후 returnUrl로 돌아옴)
+ * 
+ * @param returnUrl - 돌아올 경로 (예: "/vendor/orders?page=2")
+ * @param reason - 로그인 화면에 표시할 사유 (예: "expired")
+ */
+export function buildLoginUrl(returnUrl: string, reason?: string) {
+  const params = new URLSearchParams({ returnUrl: sanitizeReturnUrl(returnUrl) });
+  if (reason) {
+    params.set("reason", reason);
+  }
+  return `${LOGIN_PATH}?${params.toString()}`;
+}
@@ -0,0 +1,434 @@
+/**
+ * ============================================================================
+ * 레이어: 인증 세션 (Auth Session Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios
+ * 🔗 연결 레이어:
+ *   - Zustand (src/store/auth.ts): 토큰 슬롯 읽기/쓰기
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 클라이언트마다 세션을 하나씩 연결
+ * 
+ * 역할:
+ * - 인증 서버(토큰 슬롯) 단위로 토큰 refresh 상태를 독립적으로 관리
+ * - 같은 세션을 공유하는 클라이언트끼리만 refresh를 한 번으로 합침 (single-flight)
+ * - access token(JWT) 만료 전에 백그라운드에서 미리 refresh
+ * 
+ * 세션 공유:
+ * - HQ ERP, Client App, Vendor ERP가 서로 다른 인증 서버를 사용하면 각자 세션을 생성
+ * - 같은 IdP를 사용하는 시스템은 하나의 세션을 createApiClient에 함께 전달
+ *   (audience에 두 시스템을 모두 지정해야 서버가 토큰을 받아들임)
+ * 
+ * 탭 간 공유:
+ * - refresh 시작/완료를 BroadcastChannel(src/store/auth-channel.ts)로 다른 탭에 알림
+ * - 다른 탭이 refresh 중이면 새로 refresh하지 않고 그 결과를 refreshQueue에서 함께 받음
+ * 
+ * 이벤트:
+ * - refresh 시작/성공/실패, 진행 중인 refresh에 합류한 요청을 subscribeAuthSessionEvents로 구독
+ *   (네트워크 인스펙터 src/lib/network-inspector.ts에서 표시)
+ * 
+ * step-up 재인증:
+ * - 403 권한 부족(부족한 scope)은 refresh로 해결되지 않으므로 setStepUpHandler로 등록한
+ *   핸들러가 권한 있는 계정으로 다시 인증하도록 위임 (등록하지 않으면 403은 그대로 실패)
+ */
+
+import axios from "axios";
+import {
+  clearTokens,
+  getTokens as getSystemTokens,
+  setTokens,
+  useAuthStore,
+  type ApiSystem,
+  type AuthTokens
+} from "@/store/auth";
+import { postAuthMessage, subscribeAuthMessages } from "@/store/auth-channel";
+import { getTokenExpiry } from "@/lib/jwt";
+import { isApiErrorEnvelope } from "@/lib/api-error";
+import { API_NAMES } from "@/lib/api-systems";
+
+// 토큰 재발급 엔드포인트 (src/app/api/auth/refresh/route.ts)
+const DEFAULT_REFRESH_URL = "/api/auth/refresh";
+
+// 다른 탭의 refresh 결과를 기다리는 최대 시간 (탭이 닫히는 경우 대비)
+const REMOTE_REFRESH_TIMEOUT_MS = 10000;
+
+// access token 만료 몇 ms 전에 미리 refresh할지 (기본값)
+export const DEFAULT_REFRESH_SKEW_MS = 30000;
+
+// 여러 탭의 백그라운드 refresh가 동시에 실행되지 않도록 더하는 무작위 지연 최대값
+const AUTO_REFRESH_JITTER_MS = 5000;
+
+/**
+ * 토큰 refresh 실패 사유
+ * - missing: 스토어에 refresh token이 없음 (refresh를 시도하지 않음)
+ * - invalid / expired / reused: 서버가 refresh token을 거부함
+ * - network: 서버 응답을 받지 못함 (토큰은 유지)
+ */
+export type TokenRefreshFailureReason = "missing" | "invalid" | "expired" | "reused" | "network";
+
+/**
+ * 토큰 refresh 실패 에러
+ * 
+ * refresh token이 없는 경우와 서버가 거부한 경우를 reason으로 구분합니다.
+ */
+export class TokenRefreshError extends Error {
+  constructor(public readonly reason: TokenRefreshFailureReason) {
+    super(`Token refresh failed: ${reason}`);
+    this.name = "TokenRefreshError";
+  }
+}
+
+export type AuthSessionEvent =
+  | { type: "refresh-start"; slot: ApiSystem; apiName: string; at: number }
+  // 이미 진행 중인 refresh(이 탭 또는 다른 탭)의 결과를 기다리는 요청
+  | { type: "refresh-join"; slot: ApiSystem; apiName: string; at: number; remote: boolean }
+  | {
+      type: "refresh-success";
+      slot: ApiSystem;
+      apiName: string;
+      at: number;
+      durationMs: number;
+      // 결과를 함께 받은 대기 요청 수
+      waiters: number;
+    }
+  | {
+      type: "refresh-failure";
+      slot: ApiSystem;
+      apiName: string;
+      at: number;
+      durationMs: number;
+      waiters: number;
+      reason: TokenRefreshFailureReason;
+    };
+
+type AuthSessionEventListener = (event: AuthSessionEvent) => void;
+
+const sessionEventListeners = new Set<AuthSessionEventListener>();
+
+/**
+ * 모든 세션의 refresh 이벤트 구독
+ * @returns 구독 해제 함수
+ */
+export function subscribeAuthSessionEvents(listener: AuthSessionEventListener) {
+  sessionEventListeners.add(listener);
+  return () => {
+    sessionEventListeners.delete(listener);
+  };
+}
+
+function emitSessionEvent(event: AuthSessionEvent) {
+  sessionEventListeners.forEach((listener) => listener(event));
+}
+
+/**
+ * step-up 재인증 요청 정보
+ * - missingScopes: 요청에 필요한데 현재 토큰에 없는 scope
+ */
+export type StepUpRequest = {
+  slot: ApiSystem;
+  apiName: string;
+  missingScopes: string[];
+};
+
+/**
+ * step-up 재인증 핸들러
+ * 
+ * 권한 있는 계정으로 다시 인증해 슬롯에 새 토큰을 저장했으면 true를 반환합니다.
+ * true면 원래 요청을 새 토큰으로 한 번 재요청하고, false면 403 그대로 실패합니다.
+ */
+export type StepUpHandler = (request: StepUpRequest) => Promise<boolean>;
+
+let stepUpHandler: StepUpHandler | null = null;
+
+/**
+ * step-up 재인증 핸들러 등록 (모든 세션 공통)
+ * @returns 등록 해제 함수
+ */
+export function setStepUpHandler(handler: StepUpHandler) {
+  stepUpHandler = handler;
+  return () => {
+    if (stepUpHandler === handler) {
+      stepUpHandler = null;
+    }
+  };
+}
+
+type RefreshResponse = {
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type AuthSessionOptions = {
+  // 토큰을 보관할 스토어 슬롯 (API 시스템, 예: "hqErp")
+  slot: ApiSystem;
+  // 해당 인증 서버의 refresh 엔드포인트
+  refreshUrl?: string;
+  // 발급받을 access token의 audience (src/lib/api-audience.ts, 생략 시 서버 기본값)
+  audience?: string | string[];
+  // 요청과 무관하게 시작한 refresh(다른 탭 대기 시간 초과)의 이벤트/로그에 쓸 API 이름 (생략 시 API_NAMES[slot])
+  apiName?: string;
+};
+
+export type AuthSession = {
+  slot: ApiSystem;
+  // 현재 슬롯의 토큰 조회
+  getTokens: () => AuthTokens;
+  /**
+   * 토큰 refresh 요청 (중복 호출 시 진행 중인 refresh 결과를 함께 받음)
+   * 성공하면 새 access token을, 실패하면 null을 반환합니다.
+   */
+  refresh: (apiName: string) => Promise<string | null>;
+  /**
+   * 백그라운드 refresh 시작 (요청이 없는 세션도 만료 전에 토큰을 갱신)
+   * @returns 중지 함수
+   */
+  startAutoRefresh: (skewMs?: number) => () => void;
+  /**
+   * step-up 재인증 (403 권한 부족, 동시에 호출되면 진행 중인 재인증 결과를 함께 받음)
+   * 재인증에 성공하면 새 access token을, 핸들러가 없거나 실패하면 null을 반환합니다.
+   */
+  stepUp: (apiName: string, missingScopes: string[]) => Promise<string | null>;
+};
+
+/**
+ * 인증 세션 생성 함수
+ * 
+ * 세션마다 isRefreshing / refreshQueue를 독립적으로 가지므로
+ * 한 인증 서버의 401이 다른 인증 서버의 토큰을 덮어쓰지 않습니다.
+ */
+export function createAuthSession({
+  slot,
+  refreshUrl = DEFAULT_REFRESH_URL,
+  audience,
+  apiName: sessionApiName = API_NAMES[slot]
+}: AuthSessionOptions): AuthSession {
+  /**
+   * 토큰 refresh 중복 요청 방지 메커니즘
+   * 
+   * 여러 API 요청이 동시에 401을 받을 경우, refresh 요청이 중복으로 발생하는 것을 방지합니다.
+   * - isRefreshing: 현재 refresh 진행 중인지 여부
+   * - refreshQueue: refresh 완료를 기다리는 요청들의 콜백 큐
+   * - remoteRefreshTimer: 다른 탭에서 refresh 진행 중이면 설정되는 대기 타이머
+   */
+  let isRefreshing = false;
+  let refreshQueue: Array<(token: string | null) => void> = [];
+  let remoteRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // 진행 중인 step-up 재인증 (여러 요청이 동시에 403을 받아도 재인증은 한 번)
+  let stepUpInFlight: Promise<string | null> | null = null;
+
+  const getTokens = () => getSystemTokens(slot);
+
+  /**
+   * 토큰 refresh 대기 중인 요청들을 큐에 등록
+   * refresh가 완료되면 이 콜백들이 호출되어 새 토큰을 받습니다.
+   */
+  function subscribeTokenRefresh(cb: (token: string | null) => void) {
+    refreshQueue.push(cb);
+  }
+
+  /**
+   * 토큰 refresh 완료 후 대기 중인 모든 요청에 새 토큰 전달
+   * refresh가 성공하면 새 토큰을, 실패하면 null을 전달합니다.
+   */
+  function publishTokenRefresh(token: string | null) {
+    refreshQueue.forEach((cb) => cb(token));
+    refreshQueue = [];
+  }
+
+  /**
+   * Access Token 갱신 함수
+   * 
+   * 처리 과정:
+   * 1. 슬롯의 refresh token으로 refresh API 호출
+   * 2. 서버가 회전(rotation)한 새 access token과 refresh token을 반환
+   * 3. 실패 시 사유(reason)를 담은 TokenRefreshError를 던짐
+   * 
+   * 주의: refresh 요청은 인터셉터가 없는 기본 axios로 보내야
+   * refresh 실패(401)가 다시 refresh를 유발하는 무한 루프를 막을 수 있습니다.
+   */
+  async function refreshAccessToken(): Promise<RefreshResponse> {
+    const { refreshToken } = getTokens();
+    if (!refreshToken) {
+      throw new TokenRefreshError("missing");
+    }
+
+    try {
+      const { data } = await axios.post<RefreshResponse>(
+        refreshUrl,
+        { refreshToken, audience },
+        { timeout: 5000 }
+      );
+      return data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const { data } = error.response;
+        const details = isApiErrorEnvelope(data)
+          ? (data.details as { reason?: TokenRefreshFailureReason } | undefined)
+          : undefined;
+        throw new TokenRefreshError(details?.reason ?? "invalid");
+      }
+      throw new TokenRefreshError("network");
+    }
+  }
+
+  async function runRefresh(apiName: string) {
+    isRefreshing = true;
+    const startedAt = Date.now();
+    emitSessionEvent({ type: "refresh-start", slot, apiName, at: startedAt });
+    postAuthMessage({ type: "refresh-start", system: slot });
+    try {
+      const tokens = await refreshAccessToken();
+      // 회전된 refresh token까지 함께 저장 (이전 refresh token은 재사용 불가)
+      setTokens(slot, tokens);
+      postAuthMessage({ type: "refresh-end", system: slot, accessToken: tokens.accessToken });
+      emitSessionEvent({
+        type: "refresh-success",
+        slot,
+        apiName,
+        at: Date.now(),
+        durationMs: Date.now() - startedAt,
+        waiters: refreshQueue.length
+      });
+      publishTokenRefresh(tokens.accessToken);
+    } catch (refreshError) {
+      const reason = refreshError instanceof TokenRefreshError ? refreshError.reason : "network";
+      console.warn(`[${apiName}] 토큰 refresh 실패 (${slot}: ${reason})`);
+
+      // 서버가 refresh token을 거부한 경우에만 토큰 초기화
+      // (네트워크 오류는 일시적일 수 있으므로 토큰을 유지)
+      if (reason !== "network") {
+        clearTokens(slot);
+      }
+      postAuthMessage({ type: "refresh-end", system: slot, accessToken: null });
+      emitSessionEvent({
+        type: "refresh-failure",
+        slot,
+        apiName,
+        at: Date.now(),
+        durationMs: Date.now() - startedAt,
+        waiters: refreshQueue.length,
+        reason
+      });
+      publishTokenRefresh(null);
+    } finally {
+      isRefreshing = false;
+    }
+  }
+
+  function refresh(apiName: string) {
+    // refresh를 시작하는 요청도 완료 알림을 받아야 하므로 refresh보다 먼저 큐에 등록
+    const result = new Promise<string | null>((resolve) => subscribeTokenRefresh(resolve));
+
+    // 이 탭과 다른 탭 모두 refresh 중이 아닐 때만 refresh 실행 (중복 방지)
+    if (!isRefreshing && !remoteRefreshTimer) {
+      void runRefresh(apiName);
+    } else {
+      emitSessionEvent({
+        type: "refresh-join",
+        slot,
+        apiName,
+        at: Date.now(),
+        remote: !isRefreshing
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 다른 탭의 refresh 진행 상황 구독
+   * 
+   * - refresh-start: 대기 타이머 설정 (시간 초과 시 이 탭에서 직접 refresh)
+   * - refresh-end: 토큰은 "tokens" 메시지로 이미 동기화되었으므로 대기 요청에 결과만 전달
+   */
+  subscribeAuthMessages((message) => {
+    if (message.type === "tokens" || message.system !== slot) {
+      return;
+    }
+
+    if (remoteRefreshTimer) {
+      clearTimeout(remoteRefreshTimer);
+      remoteRefreshTimer = null;
+    }
+
+    if (message.type === "refresh-start") {
+      remoteRefreshTimer = setTimeout(() => {
+        remoteRefreshTimer = null;
+        if (refreshQueue.length > 0 && !isRefreshing) {
+          void runRefresh(sessionApiName);
+        }
+      }, REMOTE_REFRESH_TIMEOUT_MS);
+      return;
+    }
+
+    if (!isRefreshing) {
+      publishTokenRefresh(message.accessToken);
+    }
+  });
+
+  /**
+   * 백그라운드 refresh 타이머
+   * 
+   * access token(JWT)의 exp - skew 시점에 refresh를 예약하고,
+   * 토큰이 바뀔 때마다(refresh, 다른 탭 동기화, 수동 입력) 다시 예약합니다.
+   */
+  function startAutoRefresh(skewMs: number = DEFAULT_REFRESH_SKEW_MS) {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = (accessToken: string | null) => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      const expiry = getTokenExpiry(accessToken);
+      if (expiry === null) {
+        return;
+      }
+      const jitter = Math.random() * AUTO_REFRESH_JITTER_MS;
+      const delay = Math.max(0, expiry - skewMs - Date.now()) + jitter;
+      timer = setTimeout(() => {
+        timer = null;
+        void refresh(`${slot}:auto`);
+      }, delay);
+    };
+
+    schedule(getTokens().accessToken);
+    const unsubscribe = useAuthStore.subscribe((state, prevState) => {
+      const { accessToken } = state.tokens[slot];
+      if (accessToken !== prevState.tokens[slot].accessToken) {
+        schedule(accessToken);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  /**
+   * step-up 재인증
+   * 
+   * 등록된 핸들러(setStepUpHandler)에 재인증을 맡기고, 성공하면 슬롯에 저장된 새 access token을 반환합니다.
+   */
+  function stepUp(apiName: string, missingScopes: string[]) {
+    const handler = stepUpHandler;
+    if (!handler) {
+      return Promise.resolve(null);
+    }
+
+    stepUpInFlight ??= handler({ slot, apiName, missingScopes })
+      .then((reauthenticated) => (reauthenticated ? getTokens().accessToken : null))
+      .catch((error) => {
+        console.warn(`[${apiName}] step-up 재인증 실패 (${slot})`, error);
+        return null;
+      })
+      .finally(() => {
+        stepUpInFlight = null;
+      });
+    return stepUpInFlight;
+  }
+
+  return { slot, getTokens, refresh, startAutoRefresh, stepUp };
+}
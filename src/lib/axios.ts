@@ -5,17 +5,30 @@
  * 
  * 📦 사용 라이브러리: axios
  * 🔗 연결 레이어:
- *   - Zustand (src/store/auth.ts): 토큰 상태 참조
+ *   - 인증 세션 (src/lib/auth-session.ts): 토큰 조회 및 refresh (Zustand 토큰 슬롯 참조)
+ *   - 브라우저 클라이언트 등록 (src/lib/browser-clients.ts): 엔드포인트 레지스트리 / BFF 호출 함수가 조회할 인스턴스 등록
  *   - API 호출 레이어 (src/api/demo.ts): 이 모듈을 사용하여 API 호출
  * 
  * 역할:
  * - 여러 API 클라이언트(HQ ERP, Client App, Vendor ERP)에 대한 공통 axios 인터셉터 제공
  * - 각 API별로 독립적인 인스턴스 생성 (baseURL 분리)
+ * - 각 API별로 독립적인 인증 세션 연결 (토큰 슬롯 및 refresh 상태 분리)
  * 
  * 주요 기능:
  * 1. 요청 인터셉터: 모든 API 요청에 Authorization 헤더 자동 추가 (Zustand에서 토큰 참조)
+ *    - JWT 만료가 임박하면 요청 전에 미리 refresh
  * 2. 응답 인터셉터: 401 토큰 만료 시 자동 refresh 및 재요청
- * 3. 전역 에러 처리: 404/500 등 에러 발생 시 에러 페이지로 리다이렉트
+ *    - refresh token이 없거나 거부되면(세션 만료) 전역 에러 대신 로그인 화면으로 이동 (lib/auth-service.ts)
+ *    - 403 권한 부족은 refresh하지 않고, step-up 핸들러가 있으면 재인증 후 재요청
+ *    - 5xx/타임아웃/네트워크 오류는 그 전에 재시도 정책(lib/retry.ts)에 따라 재시도
+ * 3. 전역 에러 처리: 모든 실패(HTTP/타임아웃/네트워크)를 ApiError로 변환해 에러 버스로 발행
+ *    (화면 처리는 UI 레이어가 결정, 취소된 요청은 제외)
+ * 4. 요청 제어: 같은 GET 요청 중복 제거, 태그/로그아웃 단위 취소 (lib/request-control.ts)
+ * 5. HTTP 캐시: Cache-Control/ETag 기반 GET 응답 캐시 (lib/http-cache.ts)
+ * 6. 오프라인 큐: offlineQueue 변경 요청을 IndexedDB에 저장 후 온라인 복귀 시 재전송 (lib/offline-queue.ts)
+ * 7. 요청 로그: X-Request-Id / traceparent 헤더, 상태/소요 시간/재시도 횟수 기록 (lib/request-log.ts)
+ * 8. 서킷 브레이커: 장애가 이어지는 백엔드는 요청 없이 바로 CircuitOpenError로 실패 (lib/circuit-breaker.ts)
+ * 9. BFF 클라이언트: 여러 시스템을 한 번에 호출하는 /api/bff에 시스템별 토큰을 헤더로 전달 (bffClient)
  * 
  * 사용 방법:
  * - src/api/demo.ts에서 hqApi, clientApi, vendorApi를 import하여 사용
@@ -33,114 +46,95 @@
  *   서버 API (app/api/**)
  */
 
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from "axios";
-import { useAuthStore } from "@/store/auth";
-
-// 각 API 클라이언트의 base URL 정의
-const API_BASES = {
-  hqErp: "/api/hq-erp",
-  clientApp: "/api/client-app",
-  vendorErp: "/api/vendor-erp"
-};
-
-/**
- * 토큰 refresh 중복 요청 방지 메커니즘
- * 
- * 여러 API 요청이 동시에 401을 받을 경우, refresh 요청이 중복으로 발생하는 것을 방지합니다.
- * - isRefreshing: 현재 refresh 진행 중인지 여부
- * - refreshQueue: refresh 완료를 기다리는 요청들의 콜백 큐
- */
-let isRefreshing = false;
-let refreshQueue: Array<(token: string | null) => void> = [];
-
-/**
- * 토큰 refresh 대기 중인 요청들을 큐에 등록
- * refresh가 완료되면 이 콜백들이 호출되어 새 토큰을 받습니다.
- */
-function subscribeTokenRefresh(cb: (token: string | null) => void) {
-  refreshQueue.push(cb);
-}
-
-/**
- * 토큰 refresh 완료 후 대기 중인 모든 요청에 새 토큰 전달
- * refresh가 성공하면 새 토큰을, 실패하면 null을 전달합니다.
- */
-function publishTokenRefresh(token: string | null) {
-  refreshQueue.forEach((cb) => cb(token));
-  refreshQueue = [];
-}
-
-/**
- * Access Token 갱신 함수 (401 발생 시 호출)
- * 
- * 실제 프로젝트에서는:
- * 1. refresh token을 사용해 refresh API를 호출
- * 2. 새 access token과 refresh token을 받아서 스토어에 저장
- * 3. 새 토큰을 반환
- * 
- * 현재는 데모용으로 mock 응답을 반환합니다.
- */
-async function refreshAccessToken() {
-  const { refreshToken } = useAuthStore.getState();
-  if (!refreshToken) {
-    return null;
-  }
-
-  // 데모용: 실제 프로젝트에서는 refresh API를 호출해 새 토큰을 받습니다
-  // 예시: const response = await axios.post('/api/auth/refresh', { refreshToken });
-  await new Promise((resolve) => setTimeout(resolve, 400));
-  return "new-access-token";
-}
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  type InternalAxiosRequestConfig
+} from "axios";
+import {
+  createAuthSession,
+  DEFAULT_REFRESH_SKEW_MS,
+  type AuthSession
+} from "@/lib/auth-session";
+import { isTokenExpiringSoon } from "@/lib/jwt";
+import { API_AUDIENCES, API_TOKEN_HEADERS } from "@/lib/api-audience";
+import { API_BASES, API_NAMES, BFF_API_NAME } from "@/lib/api-systems";
+import { registerBrowserClients } from "@/lib/browser-clients";
+import { createRetryAdapter, type RetryPolicy } from "@/lib/retry";
+import { createCircuitBreakerAdapter, type CircuitBreakerPolicy } from "@/lib/circuit-breaker";
+import { attachRequestControl, createDedupeAdapter } from "@/lib/request-control";
+import { createCacheAdapter } from "@/lib/http-cache";
+import { createOfflineQueueAdapter } from "@/lib/offline-queue";
+import { attachRequestLogging, type RefreshWaitConfig } from "@/lib/request-log";
+import { toApiError } from "@/lib/api-error";
+import { publishApiError } from "@/lib/error-bus";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
 
 /**
  * 전역 에러 처리 함수
  * 
- * 404/500 등 공통 에러를 처리하고 에러 페이지로 리다이렉트합니다.
+ * 실패를 ApiError(http / timeout / canceled / network)로 변환하고,
+ * 에러 버스(lib/error-bus.ts)로 발행합니다.
+ * 화면 처리(toast, 에러 바운더리, /error 리다이렉트)는 에러 버스를 구독하는
+ * UI 레이어(components/api-error-handler.tsx)가 결정합니다.
  * 
- * 주의: 401 에러는 이 함수가 호출되기 전에 인터셉터에서 처리되므로
- * 여기서는 401을 제외한 다른 에러만 처리합니다.
+ * 발행하지 않는 경우:
+ * - 요청 config에 skipGlobalError: true가 있는 경우
+ * - 취소된 요청 (응답 인터셉터에서 먼저 걸러지지만, 방어적으로 한 번 더 확인)
  * 
  * @param error - Axios 에러 객체
- * @param apiName - 에러가 발생한 API 이름 (로그 및 에러 페이지 표시용)
+ * @param apiName - 에러가 발생한 API 이름 (로그 및 에러 표시용)
+ * @returns 호출부에 reject할 ApiError
  */
 function handleGlobalError(error: AxiosError, apiName: string) {
-  const status = error.response?.status;
-
-  // 404/500 에러 로깅 (회의 시 확인용)
-  if (status === 404) {
-    console.warn(`[${apiName}] 404 Not Found`, error.config?.url);
-  }
-  if (status === 500) {
-    console.warn(`[${apiName}] 500 Server Error`);
-  }
+  // 상태 코드/소요 시간 로그는 요청 로그 인터셉터(lib/request-log.ts)가 남김
+  const apiError = toApiError(error, apiName);
 
-  // 400 이상의 에러 발생 시 에러 페이지로 리다이렉트
-  // (401은 이미 위에서 처리되므로 여기서는 404, 500 등만 처리)
-  if (typeof window !== "undefined" && status && status >= 400 && status !== 401) {
-    const apiParam = encodeURIComponent(apiName);
-    window.location.href = `/error?status=${status}&api=${apiParam}`;
+  if (apiError.kind !== "canceled" && !error.config?.skipGlobalError) {
+    publishApiError(apiError);
   }
+  return apiError;
 }
 
+// refresh를 기다린 요청은 요청 로그에 대기 사유/시간을 남김 (lib/request-log.ts)
+type AuthRequestConfig = InternalAxiosRequestConfig & RefreshWaitConfig;
+
 /**
  * axios 인스턴스에 요청/응답 인터셉터를 연결
  * 
  * 각 API 클라이언트마다 독립적인 인터셉터를 설정합니다.
  * 
  * @param instance - 인터셉터를 연결할 axios 인스턴스
- * @param apiName - API 이름 (에러 로깅 및 리다이렉트 시 사용)
+ * @param apiName - API 이름 (에러 로깅 및 에러 표시용)
+ * @param session - 토큰 조회 및 refresh를 담당하는 인증 세션
+ * @param refreshSkewMs - access token 만료 몇 ms 전부터 요청 전에 미리 refresh할지
  */
-function attachInterceptors(instance: AxiosInstance, apiName: string) {
+function attachInterceptors(
+  instance: AxiosInstance,
+  apiName: string,
+  session: AuthSession,
+  refreshSkewMs: number
+) {
   /**
    * 요청 인터셉터: 모든 요청에 Authorization 헤더 자동 추가
    * 
-   * Zustand 스토어에서 accessToken을 가져와서
-   * Authorization 헤더에 Bearer 토큰으로 자동 추가합니다.
+   * 이 클라이언트의 API 시스템(인증 세션 슬롯)에 해당하는 accessToken을
+   * Zustand 스토어에서 가져와서 Authorization 헤더에 Bearer 토큰으로 자동 추가합니다.
+   * 
+   * 사전 refresh: access token(JWT)의 만료 시각이 skew 이내로 남았으면
+   * 요청을 보내기 전에 세션의 refresh(401 처리와 같은 single-flight)를 먼저 실행합니다.
    * 
    * 사용자는 매번 헤더를 수동으로 추가할 필요가 없습니다.
    */
-  instance.interceptors.request.use((config) => {
-    const { accessToken } = useAuthStore.getState();
+  instance.interceptors.request.use(async (config: AuthRequestConfig) => {
+    let { accessToken } = session.getTokens();
+    if (isTokenExpiringSoon(accessToken, refreshSkewMs)) {
+      // refresh 실패 시 기존 토큰으로 요청 (401 응답은 응답 인터셉터가 처리)
+      const waitStartedAt = Date.now();
+      accessToken = (await session.refresh(apiName)) ?? accessToken;
+      config._refreshWait = { reason: "expiring", durationMs: Date.now() - waitStartedAt };
+    }
     if (accessToken && config.headers) {
       config.headers.Authorization = `Bearer ${accessToken}`;
     }
@@ -156,13 +150,23 @@ function attachInterceptors(instance: AxiosInstance, apiName: string) {
    *    - 실패한 요청을 새 토큰으로 자동 재시도
    *    - 여러 요청이 동시에 401을 받아도 refresh는 한 번만 실행
    * 
-   * 2. 404/500 등 기타 에러:
-   *    - 전역 에러 핸들러로 처리하여 /error 페이지로 리다이렉트
+   * 2. 403 권한 부족:
+   *    - 토큰은 유효하므로 refresh하지 않음
+   *    - 부족한 scope가 있으면 세션의 step-up 재인증 후 한 번만 재요청
+   * 
+   * 3. 404/500 등 기타 에러:
+   *    - 전역 에러 핸들러가 ApiError로 변환해 에러 버스로 발행 후 reject
    */
   instance.interceptors.response.use(
     (response) => response,
     async (error: AxiosError) => {
-      const originalConfig = error.config as AxiosRequestConfig & { _retry?: boolean };
+      // 취소된 요청은 refresh/전역 에러 처리 없이 그대로 reject
+      if (axios.isCancel(error)) {
+        return Promise.reject(toApiError(error, apiName));
+      }
+
+      const originalConfig = error.config as AxiosRequestConfig &
+        RefreshWaitConfig & { _retry?: boolean; _stepUp?: boolean };
       const status = error.response?.status;
 
       /**
@@ -174,77 +178,166 @@ function attachInterceptors(instance: AxiosInstance, apiName: string) {
        * 
        * 처리 과정:
        * 1. _retry 플래그를 true로 설정하여 무한 재시도 방지
-       * 2. isRefreshing이 false면 (첫 번째 401 요청이면):
-       *    - refresh token으로 새 access token 발급
-       *    - 스토어에 새 토큰 저장
-       *    - 대기 중인 모든 요청에 새 토큰 전달
+       * 2. 인증 세션에 refresh 요청 (src/lib/auth-session.ts):
+       *    - 세션의 첫 번째 401 요청만 refresh API 호출 (rotation)
+       *    - 세션 슬롯에 새 토큰 쌍 저장
+       *    - 같은 세션에서 대기 중인 모든 요청에 새 토큰 전달
        * 3. 새 토큰으로 원래 요청을 재시도
        */
       if (status === 401 && !originalConfig._retry) {
         originalConfig._retry = true; // 무한 재시도 방지
 
-        // 첫 번째 401 요청만 refresh 실행 (중복 방지)
-        if (!isRefreshing) {
-          isRefreshing = true;
-          try {
-            const newToken = await refreshAccessToken();
-            useAuthStore.getState().setTokens({
-              accessToken: newToken,
-              refreshToken: useAuthStore.getState().refreshToken
-            });
-            publishTokenRefresh(newToken);
-          } catch (refreshError) {
-            // refresh 실패 시 토큰 초기화 및 모든 대기 요청 실패 처리
-            useAuthStore.getState().clearTokens();
-            publishTokenRefresh(null);
-          } finally {
-            isRefreshing = false;
-          }
+        // 같은 세션의 refresh는 한 번만 실행되고, 모든 요청이 결과를 함께 받음
+        const waitStartedAt = Date.now();
+        const token = await session.refresh(apiName);
+        // 요청 로그에 refresh 대기 시간 기록 (재요청 config로 전달됨)
+        originalConfig._refreshWait = {
+          reason: "unauthorized",
+          durationMs: Date.now() - waitStartedAt
+        };
+        if (!token) {
+          // 세션 만료(refresh token 없음/거부 → 세션이 토큰을 비움)는 전역 에러로 발행하지 않음
+          // → 인증 서비스의 session-expired 이벤트로 로그인 화면 이동 (components/session-expired-redirect.tsx)
+          // 네트워크 오류로 refresh하지 못한 경우는 토큰이 남아 있으므로 전역 에러 처리
+          return Promise.reject(
+            session.getTokens().refreshToken
+              ? handleGlobalError(error, apiName)
+              : toApiError(error, apiName)
+          );
         }
 
-        // refresh 완료 후 대기 중인 요청들을 새 토큰으로 재시도
-        return new Promise((resolve, reject) => {
-          subscribeTokenRefresh((token) => {
-            if (!token) {
-              // refresh 실패 시 전역 에러 처리
-              handleGlobalError(error, apiName);
-              reject(error);
-              return;
-            }
-            // 새 토큰으로 원래 요청 재시도
+        // 새 토큰으로 원래 요청 재시도
+        originalConfig.headers = {
+          ...originalConfig.headers,
+          Authorization: `Bearer ${token}`
+        };
+        return instance(originalConfig);
+      }
+
+      /**
+       * 403 권한 부족 처리
+       * 
+       * 서버가 details.missingScopes로 부족한 scope를 알려주면
+       * step-up 핸들러(setStepUpHandler)에 재인증을 맡기고, 성공하면 새 토큰으로 한 번만 재요청합니다.
+       * 핸들러가 없거나 재인증을 거절하면 전역 에러 처리로 넘어갑니다.
+       */
+      if (status === 403 && !originalConfig._stepUp) {
+        const apiError = toApiError(error, apiName);
+        const missingScopes = apiError.kind === "http" ? apiError.missingScopes : [];
+        if (missingScopes.length > 0) {
+          originalConfig._stepUp = true;
+          const token = await session.stepUp(apiName, missingScopes);
+          if (token) {
             originalConfig.headers = {
               ...originalConfig.headers,
               Authorization: `Bearer ${token}`
             };
-            resolve(instance(originalConfig));
-          });
-        });
+            return instance(originalConfig);
+          }
+        }
       }
 
       // 404/500 등 기타 에러는 전역 에러 핸들러로 처리
-      // (401은 위에서 처리되므로 여기서는 404, 500 등만 처리)
-      handleGlobalError(error, apiName);
-      return Promise.reject(error);
+      // (401/403은 위에서 처리되므로 여기서는 refresh/step-up 실패와 404, 500 등만 처리)
+      return Promise.reject(handleGlobalError(error, apiName));
     }
   );
 }
 
+/**
+ * 각 API별 기본 인증 세션
+ * 
+ * HQ ERP, Client App, Vendor ERP는 서로 다른 인증 서버에서 토큰을 발급하므로
+ * 시스템마다 토큰 슬롯과 refresh 상태를 분리합니다.
+ * 발급받는 access token도 자기 시스템의 audience로 한정되어 다른 시스템에는 쓸 수 없습니다.
+ */
+export const authSessions: Record<ApiSystem, AuthSession> = {
+  hqErp: createAuthSession({ slot: "hqErp", audience: API_AUDIENCES.hqErp }),
+  clientApp: createAuthSession({ slot: "clientApp", audience: API_AUDIENCES.clientApp }),
+  vendorErp: createAuthSession({ slot: "vendorErp", audience: API_AUDIENCES.vendorErp })
+};
+
+export type ApiClientOptions = {
+  /**
+   * 인증 세션 (생략 시 시스템의 기본 세션 사용)
+   * 같은 IdP를 사용하는 클라이언트끼리는 하나의 세션을 공유할 수 있습니다.
+   */
+  session?: AuthSession;
+  // access token 만료 몇 ms 전부터 요청 전에 미리 refresh할지 (기본 30초)
+  refreshSkewMs?: number;
+  /**
+   * 클라이언트 재시도 정책 (src/lib/retry.ts, false면 재시도 안 함)
+   * 요청별로는 config.retry로 덮어쓸 수 있습니다.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * 서킷 브레이커 정책 (src/lib/circuit-breaker.ts, false면 사용 안 함)
+   * 요청별로는 config.circuitBreaker: false로 건너뛸 수 있습니다.
+   */
+  circuitBreaker?: Partial<CircuitBreakerPolicy> | false;
+};
+
 /**
  * API 클라이언트 생성 함수
  * 
- * baseURL과 API 이름을 받아서 인터셉터가 연결된 axios 인스턴스를 생성합니다.
+ * API 시스템을 받아서 인터셉터가 연결된 axios 인스턴스를 생성합니다.
+ * baseURL과 API 이름은 API_BASES / API_NAMES(lib/api-systems.ts)에서 가져옵니다.
+ * 
+ * 같은 IdP를 사용하는 경우 세션을 공유:
+ * ```typescript
+ * const session = authSessions.hqErp;
+ * export const vendorApi = createApiClient("vendorErp", { session }); // HQ ERP 토큰 사용
+ * ```
  * 
- * @param baseURL - API의 base URL (예: "/api/hq-erp")
- * @param apiName - API 이름 (에러 로깅 및 리다이렉트 시 사용)
+ * @param system - API 시스템 (토큰 슬롯 및 baseURL 결정)
+ * @param options - 인증 세션 등 클라이언트 옵션
  * @returns 인터셉터가 연결된 axios 인스턴스
  */
-function createApiClient(baseURL: string, apiName: string) {
+function createApiClient(system: ApiSystem, options: ApiClientOptions = {}) {
   const instance = axios.create({
-    baseURL,
+    baseURL: API_BASES[system],
     timeout: 5000
   });
+  const session = options.session ?? authSessions[system];
+
+  // 일시적 실패(5xx, 타임아웃, 네트워크 오류)는 adapter 단계에서 재시도
+  // → 응답 인터셉터는 재시도가 모두 끝난 최종 결과만 처리
+  // 같은 GET 요청이 진행 중이면 재시도까지 포함한 결과를 공유 (lib/request-control.ts)
+  // 캐시가 유효하면 요청하지 않고, 만료되면 ETag로 재검증 (lib/http-cache.ts)
+  // 재시도까지 실패한 결과로 서킷 상태를 판단하고, 열려 있으면 보내지 않음 (lib/circuit-breaker.ts)
+  // offlineQueue 요청은 재시도까지 실패하면 큐에 저장 후 재전송 (lib/offline-queue.ts)
+  instance.defaults.adapter = createCacheAdapter(
+    createDedupeAdapter(
+      createOfflineQueueAdapter(
+        createCircuitBreakerAdapter(
+          createRetryAdapter(
+            axios.getAdapter(instance.defaults.adapter),
+            API_NAMES[system],
+            options.retry
+          ),
+          system,
+          API_NAMES[system],
+          options.circuitBreaker
+        ),
+        API_NAMES[system],
+        session.slot,
+        (config) => instance.request(config)
+      )
+    ),
+    API_NAMES[system],
+    session.slot
+  );
 
-  attachInterceptors(instance, apiName);
+  // 요청: 인증 인터셉터 다음, 응답: 401 처리 전에 실행되도록 가장 먼저 연결
+  attachRequestLogging(instance, API_NAMES[system]);
+  attachInterceptors(
+    instance,
+    API_NAMES[system],
+    session,
+    options.refreshSkewMs ?? DEFAULT_REFRESH_SKEW_MS
+  );
+  // 인증 인터셉터보다 먼저 실행되도록 마지막에 연결 (refresh 대기 중인 요청도 취소 가능)
+  attachRequestControl(instance, API_NAMES[system], session.slot);
   return instance;
 }
 
@@ -259,9 +352,63 @@ function createApiClient(baseURL: string, apiName: string) {
  * const response = await hqApi.get("/summary");
  * 
  * // 401 발생 시 자동으로 refresh 후 재요청
- * // 404/500 발생 시 자동으로 /error 페이지로 리다이렉트
+ * // 실패 시 ApiError로 reject (전역 처리는 에러 버스 구독자가 담당)
  * ```
  */
-export const hqApi = createApiClient(API_BASES.hqErp, "HQ-ERP");
-export const clientApi = createApiClient(API_BASES.clientApp, "Client-App");
-export const vendorApi = createApiClient(API_BASES.vendorErp, "Vendor-ERP");
+export const hqApi = createApiClient("hqErp");
+export const clientApi = createApiClient("clientApp");
+export const vendorApi = createApiClient("vendorErp");
+
+// 시스템별 클라이언트 조회용 (엔드포인트 정의 레이어에서 사용)
+export const apiClients: Record<ApiSystem, AxiosInstance> = {
+  hqErp: hqApi,
+  clientApp: clientApi,
+  vendorErp: vendorApi
+};
+
+/**
+ * BFF(Backend-for-frontend) 클라이언트 생성 함수
+ * 
+ * /api/bff는 여러 API 시스템을 서버에서 대신 호출하므로, 시스템별 access token을
+ * Authorization 대신 시스템별 헤더(API_TOKEN_HEADERS)로 한 번에 전달합니다.
+ * - 만료가 임박한 토큰은 보내기 전에 각 시스템의 인증 세션으로 refresh
+ * - BFF 응답은 시스템별 결과(부분 실패 포함)를 담으므로 401 refresh는 호출부(api/bff.ts)가 결과를 보고 처리
+ * - 재시도/캐시/오프라인 큐/서킷 브레이커는 BFF 서버 쪽 관심사라 연결하지 않음
+ */
+function createBffClient() {
+  const instance = axios.create({
+    baseURL: "/api/bff",
+    // 가장 느린 upstream 타임아웃보다 길게
+    timeout: 8000
+  });
+
+  attachRequestLogging(instance, BFF_API_NAME);
+  instance.interceptors.request.use(async (config) => {
+    await Promise.all(
+      API_SYSTEMS.map(async (system) => {
+        const session = authSessions[system];
+        let { accessToken } = session.getTokens();
+        if (isTokenExpiringSoon(accessToken, DEFAULT_REFRESH_SKEW_MS)) {
+          accessToken = (await session.refresh(BFF_API_NAME)) ?? accessToken;
+        }
+        if (accessToken) {
+          config.headers.set(API_TOKEN_HEADERS[system], accessToken);
+        }
+      })
+    );
+    return config;
+  });
+  instance.interceptors.response.use(
+    (response) => response,
+    (error: AxiosError) =>
+      Promise.reject(
+        axios.isCancel(error) ? toApiError(error, BFF_API_NAME) : handleGlobalError(error, BFF_API_NAME)
+      )
+  );
+  return instance;
+}
+
+export const bffClient = createBffClient();
+
+// 엔드포인트 레지스트리(src/lib/endpoint.ts)와 BFF 호출 함수(src/api/bff.ts)가 호출 시점에 조회
+registerBrowserClients({ apiClients, bffClient, authSessions });
@@ -0,0 +1,53 @@
+/**
+ * ============================================================================
+ * 레이어: 유틸리티 - 브라우저 클라이언트 등록 (Utility Layer - Browser Client Registry)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 모듈 로드 시 브라우저 클라이언트를 등록
+ *   - 엔드포인트 정의 레이어 (src/lib/endpoint.ts): 기본 클라이언트 묶음을 호출 시점에 조회
+ *   - API 호출 레이어 (src/api/bff.ts): bffClient / 인증 세션을 호출 시점에 조회
+ * 
+ * 역할:
+ * - 엔드포인트 선언(src/api/*)이 src/lib/axios.ts를 직접 import하지 않도록 브라우저 클라이언트를 간접 참조
+ *   (서버 컴포넌트 / route handler가 같은 선언을 import해도 인증 세션, BroadcastChannel, 스토어 구독,
+ *   axios 인스턴스가 서버에서 만들어지지 않음)
+ * - src/lib/axios.ts는 루트 레이아웃의 Providers(src/app/providers.tsx)가 import하므로
+ *   브라우저에서는 화면의 요청보다 먼저 등록됨
+ */
+
+import type { AxiosInstance } from "axios";
+import type { AuthSession } from "@/lib/auth-session";
+import type { ApiClients } from "@/lib/endpoint";
+import type { ApiSystem } from "@/store/auth";
+
+export type BrowserClients = {
+  // 시스템별 클라이언트 (hqApi, clientApi, vendorApi)
+  apiClients: ApiClients;
+  bffClient: AxiosInstance;
+  authSessions: Record<ApiSystem, AuthSession>;
+};
+
+let registered: BrowserClients | null = null;
+
+/**
+ * 브라우저 클라이언트 등록 (src/lib/axios.ts에서 한 번 호출)
+ */
+export function registerBrowserClients(clients: BrowserClients) {
+  registered = clients;
+}
+
+/**
+ * 등록된 브라우저 클라이언트 조회
+ * 
+ * 서버에서는 등록되지 않으므로 withClients(createServerApiClients())로 서버용 클라이언트를 넘겨야 합니다.
+ */
+export function getBrowserClients(): BrowserClients {
+  if (!registered) {
+    throw new Error(
+      "브라우저 API 클라이언트가 등록되지 않았습니다. 서버에서는 withClients(createServerApiClients())를 사용하세요."
+    );
+  }
+  return registered;
+}
@@ -0,0 +1,234 @@
+/**
+ * ============================================================================
+ * 레이어: 서킷 브레이커 (Circuit Breaker Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (adapter), Zustand (useCircuitBreakerStore)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 클라이언트마다 연결
+ *   - API 에러 모델 (src/lib/api-error.ts): 열린 서킷의 실패 → CircuitOpenError
+ *   - 전역 상태 (src/store/circuit-breaker.ts): 화면 표시용 서킷 상태
+ * 
+ * 역할:
+ * - 백엔드(클라이언트) 단위로 실패를 세어 장애가 이어지면 서킷을 엶
+ *   - 연속 실패 failureThreshold회
+ *   - 또는 최근 windowMs 동안 요청이 minimumRequests건 이상이고 에러율이 errorRateThreshold 이상
+ * - 열린 동안(openDurationMs)은 요청을 보내지 않고 바로 CircuitOpenError로 실패 (타임아웃 대기 없음)
+ * - 이후 half-open: halfOpenMaxProbes건만 보내서 성공하면 닫고, 실패하면 다시 엶
+ * 
+ * 실패로 세는 결과:
+ * - 5xx(failureStatuses), 타임아웃, 네트워크 오류
+ * - 4xx는 백엔드가 응답한 것이므로 성공으로 셈, 취소는 세지 않음
+ * 
+ * 동작 위치:
+ * - 재시도 adapter(lib/retry.ts) 바깥을 감쌉니다.
+ *   재시도까지 모두 실패한 요청이 실패 1건이고, 열린 서킷에서는 재시도도 하지 않습니다.
+ * - 오프라인 큐 adapter 안쪽이므로, 열린 서킷에서 실패한 offlineQueue 요청은 큐에 저장됩니다.
+ * 
+ * 사용 방법:
+ * ```typescript
+ * createApiClient("vendorErp", { circuitBreaker: { failureThreshold: 3, openDurationMs: 30000 } });
+ * 
+ * // 헬스 체크 등 서킷과 무관하게 보낼 요청
+ * vendorApi.get("/health", { circuitBreaker: false });
+ * 
+ * // 화면
+ * const degraded = useCircuitBreakerStore(selectIsDegraded("vendorErp"));
+ * ```
+ */
+
+import axios, { AxiosError, type AxiosAdapter } from "axios";
+import { CIRCUIT_OPEN_CODE } from "@/lib/api-error";
+import type { ApiSystem } from "@/store/auth";
+import {
+  CLOSED_CIRCUIT,
+  useCircuitBreakerStore,
+  type CircuitOpenReason,
+  type CircuitSnapshot
+} from "@/store/circuit-breaker";
+
+export type CircuitBreakerPolicy = {
+  // 연속 실패 몇 번이면 열지
+  failureThreshold: number;
+  // 최근 구간 에러율 기준 (0 ~ 1)
+  errorRateThreshold: number;
+  // 에러율을 판단할 최소 요청 수 (요청이 적을 때 한두 번 실패로 열리지 않도록)
+  minimumRequests: number;
+  // 에러율 계산 구간
+  windowMs: number;
+  // 열린 상태 유지 시간 (이후 half-open)
+  openDurationMs: number;
+  // half-open에서 동시에 보낼 확인 요청 수
+  halfOpenMaxProbes: number;
+  // 실패로 셀 HTTP 상태 코드
+  failureStatuses: number[];
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  errorRateThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 60000,
+  openDurationMs: 15000,
+  halfOpenMaxProbes: 1,
+  failureStatuses: [500, 502, 503, 504]
+};
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // false면 서킷 상태와 무관하게 보내고 결과도 세지 않음 (헬스 체크 등)
+    circuitBreaker?: boolean;
+  }
+}
+
+// 시스템 → 서킷 닫기 함수 (resetCircuitBreaker에서 사용)
+const resetters = new Map<ApiSystem, () => void>();
+
+/**
+ * 서킷 브레이커가 실패로 세는 에러인지 (5xx, 타임아웃, 네트워크 오류)
+ */
+export function isCircuitFailure(
+  error: unknown,
+  policy: Pick<CircuitBreakerPolicy, "failureStatuses">
+) {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+  return !error.response || policy.failureStatuses.includes(error.response.status);
+}
+
+/**
+ * 서킷 브레이커 adapter 생성
+ * 
+ * @param adapter - 감쌀 adapter (재시도 adapter)
+ * @param system - 상태를 표시할 API 시스템
+ * @param apiName - 로그용 API 이름
+ * @param clientPolicy - 클라이언트 정책 (false면 서킷 브레이커 없음)
+ */
+export function createCircuitBreakerAdapter(
+  adapter: AxiosAdapter,
+  system: ApiSystem,
+  apiName: string,
+  clientPolicy: Partial<CircuitBreakerPolicy> | false = {}
+): AxiosAdapter {
+  if (clientPolicy === false) {
+    return adapter;
+  }
+  const policy: CircuitBreakerPolicy = { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...clientPolicy };
+
+  let circuit: CircuitSnapshot = CLOSED_CIRCUIT;
+  // 최근 구간 요청 결과 (오래된 순서)
+  let outcomes: Array<{ at: number; failed: boolean }> = [];
+  let probes = 0;
+  let halfOpenTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const publish = (next: Partial<CircuitSnapshot>) => {
+    const windowStart = Date.now() - policy.windowMs;
+    outcomes = outcomes.filter((outcome) => outcome.at >= windowStart);
+    circuit = {
+      ...circuit,
+      ...next,
+      recentRequests: outcomes.length,
+      recentFailures: outcomes.filter((outcome) => outcome.failed).length
+    };
+    useCircuitBreakerStore.setState((state) => ({
+      circuits: { ...state.circuits, [system]: circuit }
+    }));
+  };
+
+  const close = () => {
+    clearTimeout(halfOpenTimer);
+    outcomes = [];
+    probes = 0;
+    publish(CLOSED_CIRCUIT);
+  };
+  resetters.set(system, close);
+
+  const open = (reason: CircuitOpenReason) => {
+    const now = Date.now();
+    console.warn(`[${apiName}] 서킷 오픈 (${reason}), ${policy.openDurationMs}ms 후 확인 요청`);
+    clearTimeout(halfOpenTimer);
+    halfOpenTimer = setTimeout(() => {
+      probes = 0;
+      publish({ state: "half-open" });
+    }, policy.openDurationMs);
+    outcomes = [];
+    probes = 0;
+    publish({ state: "open", reason, openedAt: now, retryAt: now + policy.openDurationMs });
+  };
+
+  const onSuccess = () => {
+    if (circuit.state === "half-open") {
+      console.info(`[${apiName}] 서킷 복구 (확인 요청 성공)`);
+      close();
+      return;
+    }
+    if (circuit.state === "closed") {
+      outcomes.push({ at: Date.now(), failed: false });
+      publish({ consecutiveFailures: 0 });
+    }
+  };
+
+  const onFailure = () => {
+    if (circuit.state === "half-open") {
+      open("probe-failed");
+      return;
+    }
+    if (circuit.state !== "closed") {
+      // 서킷이 열리기 전에 보낸 요청의 늦은 실패
+      return;
+    }
+    outcomes.push({ at: Date.now(), failed: true });
+    publish({ consecutiveFailures: circuit.consecutiveFailures + 1 });
+    if (circuit.consecutiveFailures >= policy.failureThreshold) {
+      open("consecutive-failures");
+    } else if (
+      circuit.recentRequests >= policy.minimumRequests &&
+      circuit.recentFailures / circuit.recentRequests >= policy.errorRateThreshold
+    ) {
+      open("error-rate");
+    }
+  };
+
+  return async (config) => {
+    if (config.circuitBreaker === false) {
+      return adapter(config);
+    }
+
+    // half-open 타이머보다 요청이 먼저 오면 여기서 전환
+    if (circuit.state === "open" && circuit.retryAt !== null && Date.now() >= circuit.retryAt) {
+      probes = 0;
+      publish({ state: "half-open" });
+    }
+    const probing = circuit.state === "half-open";
+    if (circuit.state === "open" || (probing && probes >= policy.halfOpenMaxProbes)) {
+      throw new AxiosError(`${apiName} circuit open`, CIRCUIT_OPEN_CODE, config);
+    }
+
+    if (probing) {
+      probes += 1;
+    }
+    try {
+      const response = await adapter(config);
+      onSuccess();
+      return response;
+    } catch (error) {
+      if (isCircuitFailure(error, policy)) {
+        onFailure();
+      } else if (axios.isCancel(error)) {
+        // 취소된 확인 요청은 세지 않고 자리만 돌려줌
+        probes = probing ? Math.max(0, probes - 1) : probes;
+      } else {
+        onSuccess();
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * 서킷을 바로 닫음 (장애 복구를 확인한 뒤 수동으로 재개할 때)
+ */
+export function resetCircuitBreaker(system: ApiSystem) {
+  resetters.get(system)?.();
+}
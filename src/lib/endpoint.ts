@@ -0,0 +1,320 @@
+/**
+ * ============================================================================
+ * 레이어: 엔드포인트 정의 (Endpoint Definition Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zod (런타임 스키마 검증), axios, TanStack Query (queryKey/queryFn)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 시스템별 클라이언트로 실제 요청
+ *     (직접 import하지 않고 src/lib/browser-clients.ts에 등록된 클라이언트를 호출 시점에 조회)
+ *   - API 에러 모델 (src/lib/api-error.ts): 스키마 불일치 → SchemaApiError
+ *   - API 호출 레이어 (src/api/demo.ts): createApiRegistry로 엔드포인트 등록
+ * 
+ * 역할:
+ * - 엔드포인트를 선언형으로 기술 (클라이언트, 메서드, 경로 파라미터, 쿼리, 본문, 요청 헤더, 응답)
+ * - 선언에서 타입이 있는 호출 함수와 TanStack Query queryKey/queryFn 팩토리를 생성
+ * - 요청 전 쿼리/본문/헤더, 응답 후 본문을 런타임에 검증 (`data as T` 캐스팅 대신)
+ * - 호출 함수의 입력/반환 타입을 경로와 스키마에서 추론
+ * - 같은 선언을 다른 클라이언트 묶음에 연결 (withClients, 예: 서버용 클라이언트 src/server/api-client.ts)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * export const { api, queries } = createApiRegistry({
+ *   vendorOrder: endpoint({
+ *     system: "vendorErp",
+ *     path: "/orders/:orderId",
+ *     query: z.object({ expand: z.boolean() }).optional(),
+ *     response: orderSchema
+ *   })
+ * });
+ * 
+ * const order = await api.vendorOrder({ path: { orderId: 1 } }); // order: Order
+ * const query = useQuery(queries.vendorOrder({ path: { orderId: 1 } }));
+ * 
+ * // 서버 컴포넌트: 같은 queryKey로 prefetch → 클라이언트에서 hydrate
+ * await queryClient.prefetchQuery(withClients(createServerApiClients()).queries.vendorOrder(...));
+ * ```
+ */
+
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import type { QueryFunctionContext } from "@tanstack/react-query";
+import type { z } from "zod";
+import { SchemaApiError, type ApiErrorContext } from "@/lib/api-error";
+import { API_NAMES } from "@/lib/api-systems";
+import { getBrowserClients } from "@/lib/browser-clients";
+import { publishApiError } from "@/lib/error-bus";
+import type { ApiSystem } from "@/store/auth";
+
+export type EndpointMethod = "get" | "post" | "put" | "patch" | "delete";
+
+// 시스템별 axios 인스턴스 (기본: 등록된 브라우저용 apiClients)
+export type ApiClients = Record<ApiSystem, AxiosInstance>;
+
+type Schema = z.ZodTypeAny | undefined;
+
+export type EndpointDefinition<
+  TPath extends string = string,
+  TQuery extends Schema = Schema,
+  TBody extends Schema = Schema,
+  TResponse extends z.ZodTypeAny = z.ZodTypeAny,
+  THeaders extends Schema = Schema
+> = {
+  system: ApiSystem;
+  // 기본값: get
+  method?: EndpointMethod;
+  // 경로 파라미터는 ":이름" 형식 (예: "/orders/:orderId")
+  path: TPath;
+  query?: TQuery;
+  body?: TBody;
+  // 호출부가 입력으로 넘기는 요청 헤더 (예: If-Match)
+  headers?: THeaders;
+  response: TResponse;
+  // true면 오프라인/네트워크 오류 시 큐에 저장 후 재전송 (lib/offline-queue.ts, 변경 요청만)
+  offlineQueue?: boolean;
+};
+
+/**
+ * "/orders/:orderId/items/:itemId" → "orderId" | "itemId"
+ */
+type PathParamNames<TPath extends string> = TPath extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : TPath extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+// 스키마가 있으면 해당 키를 입력으로 받음 (스키마가 undefined를 허용하면 생략 가능)
+type SchemaInput<TKey extends string, TSchema extends Schema> = TSchema extends z.ZodTypeAny
+  ? undefined extends z.input<TSchema>
+    ? { [K in TKey]?: z.input<TSchema> }
+    : { [K in TKey]: z.input<TSchema> }
+  : unknown;
+
+type PathInput<TPath extends string> = [PathParamNames<TPath>] extends [never]
+  ? unknown
+  : { path: Record<PathParamNames<TPath>, string | number> };
+
+export type EndpointInput<TDefinition> =
+  TDefinition extends EndpointDefinition<infer TPath, infer TQuery, infer TBody, z.ZodTypeAny, infer THeaders>
+    ? PathInput<TPath> &
+        SchemaInput<"query", TQuery> &
+        SchemaInput<"body", TBody> &
+        SchemaInput<"headers", THeaders>
+    : never;
+
+export type EndpointOutput<TDefinition> =
+  TDefinition extends EndpointDefinition<string, Schema, Schema, infer TResponse>
+    ? z.output<TResponse>
+    : never;
+
+// 입력이 모두 선택이면 input 자체를 생략할 수 있음
+export type EndpointArgs<TDefinition, TRest extends unknown[]> = {} extends EndpointInput<TDefinition>
+  ? [input?: EndpointInput<TDefinition>, ...rest: TRest]
+  : [input: EndpointInput<TDefinition>, ...rest: TRest];
+
+export type EndpointCall<TDefinition> = ((
+  ...args: EndpointArgs<TDefinition, [config?: AxiosRequestConfig]>
+) => Promise<EndpointOutput<TDefinition>>) & {
+  // [시스템, 엔드포인트 이름] (queryKey 앞부분과 같음, mutation 후 invalidate 대상 계산용)
+  readonly key: readonly [ApiSystem, string];
+};
+
+/**
+ * 엔드포인트 정의 (타입 추론용 항등 함수)
+ * 레지스트리 안에서도 경로가 string으로 넓혀지지 않도록 TPath를 const로 추론합니다.
+ */
+export function endpoint<
+  const TPath extends string,
+  TResponse extends z.ZodTypeAny,
+  TQuery extends Schema = undefined,
+  TBody extends Schema = undefined,
+  THeaders extends Schema = undefined
+>(definition: EndpointDefinition<TPath, TQuery, TBody, TResponse, THeaders>) {
+  return definition;
+}
+
+export type RawEndpointInput = {
+  path?: Record<string, string | number>;
+  query?: unknown;
+  body?: unknown;
+  headers?: unknown;
+};
+
+/**
+ * 스키마 검증 (실패 시 apiName과 함께 로그를 남기고 SchemaApiError를 던짐)
+ */
+function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  stage: SchemaApiError["stage"],
+  context: ApiErrorContext,
+  config?: AxiosRequestConfig
+): z.output<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return result.data;
+  }
+  fail(new SchemaApiError(stage, result.error.issues, context), config);
+}
+
+function fail(error: SchemaApiError, config?: AxiosRequestConfig): never {
+  console.error(`[${error.apiName}] ${error.stage} 스키마 검증 실패`, error.url, error.issues);
+  if (!config?.skipGlobalError) {
+    publishApiError(error);
+  }
+  throw error;
+}
+
+/**
+ * 경로 파라미터 치환 ("/orders/:orderId" + { orderId: 1 } → "/orders/1")
+ */
+function buildPath(
+  path: string,
+  params: RawEndpointInput["path"],
+  context: ApiErrorContext,
+  config?: AxiosRequestConfig
+) {
+  return path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) {
+      fail(
+        new SchemaApiError(
+          "params",
+          [{ code: "custom", path: ["path", name], message: `Missing path parameter "${name}"` }],
+          context
+        ),
+        config
+      );
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * 엔드포인트 요청 (경로 치환 → 쿼리/본문/헤더 검증 → 요청 → 응답 검증)
+ * 검증된 본문과 함께 응답 헤더를 돌려줌 (Link 헤더를 읽는 lib/pagination.ts 등에서 사용)
+ */
+export async function requestEndpoint<TDefinition extends EndpointDefinition>(
+  definition: TDefinition,
+  input: RawEndpointInput = {},
+  config?: AxiosRequestConfig,
+  clients: ApiClients = getBrowserClients().apiClients
+): Promise<{ data: EndpointOutput<TDefinition>; headers: AxiosResponse["headers"] }> {
+  const { system, method = "get", path } = definition;
+  const client = clients[system];
+  const context: ApiErrorContext = {
+    apiName: API_NAMES[system],
+    url: `${client.defaults.baseURL ?? ""}${path}`,
+    method: method.toUpperCase()
+  };
+
+  const url = buildPath(path, input.path, context, config);
+  const query = definition.query
+    ? validate(definition.query, input.query, "params", context, config)
+    : undefined;
+  const body = definition.body
+    ? validate(definition.body, input.body, "params", context, config)
+    : undefined;
+  const headers = definition.headers
+    ? validate(definition.headers, input.headers, "params", context, config)
+    : undefined;
+
+  const response = await client.request({
+    offlineQueue: definition.offlineQueue,
+    metricsRoute: path,
+    ...config,
+    method,
+    url,
+    params: query,
+    data: body,
+    headers: headers ? { ...config?.headers, ...headers } : config?.headers
+  });
+  return {
+    data: validate(definition.response, response.data, "response", context, config),
+    headers: response.headers
+  };
+}
+
+/**
+ * 엔드포인트 호출 (검증된 응답 본문만 반환)
+ */
+async function callEndpoint(
+  definition: EndpointDefinition,
+  clients: ApiClients,
+  input?: RawEndpointInput,
+  config?: AxiosRequestConfig
+) {
+  const { data } = await requestEndpoint(definition, input, config, clients);
+  return data;
+}
+
+export type EndpointQueryKey<TDefinition> = readonly [ApiSystem, string, EndpointInput<TDefinition>];
+
+// useQuery / prefetchQuery에 그대로 넘길 수 있는 옵션
+export type EndpointQueryOptions<TDefinition> = {
+  queryKey: EndpointQueryKey<TDefinition>;
+  queryFn: (context: QueryFunctionContext) => Promise<EndpointOutput<TDefinition>>;
+};
+
+export type BoundApiRegistry<TDefinitions extends Record<string, EndpointDefinition>> = {
+  // 타입이 있는 호출 함수
+  api: { [K in keyof TDefinitions]: EndpointCall<TDefinitions[K]> };
+  // { queryKey, queryFn } 팩토리
+  queries: {
+    [K in keyof TDefinitions]: (
+      ...args: EndpointArgs<TDefinitions[K], []>
+    ) => EndpointQueryOptions<TDefinitions[K]>;
+  };
+};
+
+export type ApiRegistry<TDefinitions extends Record<string, EndpointDefinition>> =
+  BoundApiRegistry<TDefinitions> & {
+    // 같은 엔드포인트를 다른 클라이언트 묶음으로 호출 (queryKey는 같으므로 서버 prefetch 결과를 그대로 hydrate)
+    withClients: (clients: ApiClients) => BoundApiRegistry<TDefinitions>;
+  };
+
+/**
+ * 레지스트리를 클라이언트 묶음에 연결
+ * 
+ * @param getClients - 호출할 때마다 클라이언트 묶음을 조회 (브라우저 기본값은 모듈 로드 시점이 아니라 호출 시점에 조회)
+ */
+function bindRegistry<TDefinitions extends Record<string, EndpointDefinition>>(
+  definitions: TDefinitions,
+  getClients: () => ApiClients
+): BoundApiRegistry<TDefinitions> {
+  const api: Record<string, unknown> = {};
+  const queries: Record<string, unknown> = {};
+
+  Object.entries(definitions).forEach(([name, definition]) => {
+    api[name] = Object.assign(
+      (input?: RawEndpointInput, config?: AxiosRequestConfig) =>
+        callEndpoint(definition, getClients(), input, config),
+      { key: [definition.system, name] as const }
+    );
+    queries[name] = (input: RawEndpointInput = {}) => ({
+      queryKey: [definition.system, name, input],
+      queryFn: ({ signal }: QueryFunctionContext) =>
+        callEndpoint(definition, getClients(), input, { signal, skipGlobalError: true })
+    });
+  });
+
+  return { api, queries } as BoundApiRegistry<TDefinitions>;
+}
+
+/**
+ * 엔드포인트 레지스트리 → 호출 함수 + Query 팩토리 생성
+ * 
+ * queryKey: [시스템, 엔드포인트 이름, 입력] (예: ["hqErp", "hqSummary", {}])
+ * - 시스템 단위 또는 엔드포인트 단위로 invalidate할 수 있습니다.
+ * queryFn은 TanStack Query의 AbortSignal을 axios로 전달합니다.
+ * 기본 클라이언트(브라우저용)는 호출 시점에 조회하므로 서버 코드도 선언을 import해 withClients로 쓸 수 있습니다.
+ * - 쿼리 에러는 재시도가 끝난 뒤 QueryCache onError(lib/api-query.ts)가 한 번만 에러 버스로 발행하므로
+ *   요청 단계의 전역 처리는 끕니다 (skipGlobalError).
+ */
+export function createApiRegistry<TDefinitions extends Record<string, EndpointDefinition>>(
+  definitions: TDefinitions
+): ApiRegistry<TDefinitions> {
+  return {
+    ...bindRegistry(definitions, () => getBrowserClients().apiClients),
+    withClients: (clients) => bindRegistry(definitions, () => clients)
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * ============================================================================
+ * 레이어: 에러 버스 (Error Bus Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음 (순수 TypeScript)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 전역 처리 대상 ApiError 발행
+ *   - UI 레이어 (src/components/api-error-handler.tsx): 구독 후 toast/에러 바운더리/리다이렉트
+ * 
+ * 역할:
+ * - axios 레이어가 UI(window, 라우터)를 직접 건드리지 않도록 에러를 이벤트로 전달
+ * - 요청별로 전역 처리를 끌 수 있음 (skipGlobalError)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * // 전역 처리 끄기 (폼에서 400/422를 직접 표시할 때 등)
+ * await hqApi.post("/orders", body, { skipGlobalError: true });
+ * 
+ * // 구독
+ * const unsubscribe = subscribeApiErrors((error) => console.log(error.status));
+ * ```
+ */
+
+import type { ApiError } from "@/lib/api-error";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // true면 실패해도 에러 버스로 발행하지 않음 (호출부에서 직접 처리)
+    skipGlobalError?: boolean;
+  }
+}
+
+type ApiErrorListener = (error: ApiError) => void;
+
+const listeners = new Set<ApiErrorListener>();
+
+/**
+ * ApiError 구독
+ * @returns 구독 해제 함수
+ */
+export function subscribeApiErrors(listener: ApiErrorListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * ApiError 발행 (구독자가 없으면 콘솔에만 남김)
+ */
+export function publishApiError(error: ApiError) {
+  if (listeners.size === 0) {
+    console.warn(`[${error.apiName}] 처리되지 않은 API 에러`, error);
+    return;
+  }
+  listeners.forEach((listener) => listener(error));
+}
@@ -0,0 +1,45 @@
+/**
+ * ============================================================================
+ * 레이어: 폼 에러 연결 (Form Error Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: react-hook-form
+ * 🔗 연결 레이어:
+ *   - API 에러 모델 (src/lib/api-error.ts): HttpApiError.fieldErrors
+ * 
+ * 역할:
+ * - 서버가 보낸 필드별 검증 에러(400/422)를 react-hook-form 필드 에러로 표시
+ * 
+ * 사용 방법:
+ * ```typescript
+ * try {
+ *   await vendorApi.post("/orders", values, { skipGlobalError: true });
+ * } catch (error) {
+ *   if (!applyFieldErrors(error, form.setError)) throw error;
+ * }
+ * ```
+ */
+
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import { isValidationError } from "@/lib/api-error";
+
+/**
+ * 검증 에러의 fieldErrors를 폼 필드에 반영
+ * 
+ * 필드에 해당하지 않는 검증 에러는 root.server 에러로 표시합니다.
+ * @returns 검증 에러를 반영했으면 true (그 외 에러는 false → 호출부에서 처리)
+ */
+export function applyFieldErrors<T extends FieldValues>(error: unknown, setError: UseFormSetError<T>) {
+  if (!isValidationError(error)) {
+    return false;
+  }
+
+  const entries = Object.entries(error.fieldErrors);
+  entries.forEach(([field, messages]) => {
+    setError(field as Path<T>, { type: "server", message: messages.join(", ") });
+  });
+  if (entries.length === 0) {
+    setError("root.server", { type: "server", message: error.message });
+  }
+  return true;
+}
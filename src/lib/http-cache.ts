@@ -0,0 +1,266 @@
+/**
+ * ============================================================================
+ * 레이어: HTTP 캐시 (HTTP Cache Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (adapter)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 가장 바깥 adapter로 연결
+ *   - 서버 공통 레이어 (src/server/etag.ts): ETag / Cache-Control / 304 응답
+ *   - 전역 상태 (src/store/auth.ts): 토큰 슬롯이 비워지면(clearTokens, 로그아웃) 그 클라이언트의 캐시 삭제
+ * 
+ * 역할:
+ * - GET 응답을 클라이언트 + URL(쿼리 파라미터 포함) + 사용자 기준으로 메모리에 저장
+ * - Cache-Control(max-age, no-cache, no-store)에 따라 캐시 사용 여부 결정
+ * - 만료된 캐시에 ETag가 있으면 If-None-Match로 재검증하고, 304면 캐시된 본문을 200으로 돌려줌
+ * - 변경 요청(POST/PUT/PATCH/DELETE)이 성공하면 같은 클라이언트의 캐시를 비움
+ * - 토큰 슬롯이 비워지면 같은 클라이언트의 캐시를 비움 (다음 사용자에게 이전 사용자의 응답이 보이지 않도록)
+ * 
+ * 요청별 옵션 (config.cache):
+ * - 생략: 서버 Cache-Control을 따름
+ * - "no-store": 캐시를 읽지도 저장하지도 않음
+ * - "force-cache": 만료 여부와 관계없이 캐시가 있으면 요청하지 않음
+ * - 숫자(ms): 서버 max-age 대신 이 시간 동안 재검증 없이 캐시 사용
+ * 
+ * 사용 방법:
+ * ```typescript
+ * await hqApi.get("/summary");                     // 서버 max-age 동안 캐시, 이후 304 재검증
+ * await hqApi.get("/summary", { cache: 60_000 });  // 1분 동안 캐시
+ * await hqApi.get("/summary", { cache: "no-store" });
+ * ```
+ */
+
+import axios, {
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig
+} from "axios";
+import { decodeJwtPayload } from "@/lib/jwt";
+import { useAuthStore, type ApiSystem } from "@/store/auth";
+
+export type CacheOption = "no-store" | "force-cache" | number;
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // 요청별 HTTP 캐시 정책 (lib/http-cache.ts)
+    cache?: CacheOption;
+  }
+}
+
+type CacheEntry = {
+  status: number;
+  statusText: string;
+  headers: AxiosResponse["headers"];
+  data: unknown;
+  etag: string | null;
+  // 이 시각까지는 재검증 없이 사용
+  freshUntil: number;
+};
+
+// 클라이언트별 최대 저장 개수 (초과하면 오래된 항목부터 제거)
+const MAX_ENTRIES = 100;
+
+// 클라이언트(apiName)별 캐시
+const caches = new Map<string, Map<string, CacheEntry>>();
+
+function getCache(apiName: string) {
+  let cache = caches.get(apiName);
+  if (!cache) {
+    cache = new Map();
+    caches.set(apiName, cache);
+  }
+  return cache;
+}
+
+/**
+ * 캐시 비우기 (apiName 생략 시 전체)
+ */
+export function clearHttpCache(apiName?: string) {
+  if (apiName === undefined) {
+    caches.clear();
+    return;
+  }
+  caches.delete(apiName);
+}
+
+/**
+ * 캐시 사용자 식별자
+ * access token은 refresh마다 바뀌므로 JWT의 sub(사용자)를 사용하고, JWT가 아니면 토큰 자체를 사용
+ */
+function getCacheUser(config: InternalAxiosRequestConfig) {
+  const authorization = String(config.headers?.Authorization ?? "");
+  const token = authorization.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return "anonymous";
+  }
+  return decodeJwtPayload(token)?.sub ?? token;
+}
+
+function getCacheKey(config: InternalAxiosRequestConfig) {
+  return `${axios.getUri(config)}|${getCacheUser(config)}`;
+}
+
+type CacheControl = { noStore: boolean; noCache: boolean; maxAgeMs: number | null };
+
+function parseCacheControl(header: unknown): CacheControl {
+  const directives = String(header ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+  const maxAge = directives.find((directive) => directive.startsWith("max-age="));
+  const seconds = maxAge ? Number(maxAge.slice("max-age=".length)) : NaN;
+
+  return {
+    noStore: directives.includes("no-store"),
+    noCache: directives.includes("no-cache"),
+    maxAgeMs: Number.isFinite(seconds) ? seconds * 1000 : null
+  };
+}
+
+/**
+ * 응답 헤더와 요청 옵션으로 캐시 유효 시각 계산 (null이면 저장하지 않음)
+ */
+function getFreshUntil(response: AxiosResponse, option: CacheOption | undefined, now: number) {
+  if (typeof option === "number") {
+    return now + option;
+  }
+
+  const control = parseCacheControl(response.headers["cache-control"]);
+  if (control.noStore && option !== "force-cache") {
+    return null;
+  }
+  if (control.noCache) {
+    return now;
+  }
+  if (control.maxAgeMs !== null) {
+    return now + control.maxAgeMs;
+  }
+  // 유효 시간 정보가 없어도 ETag가 있으면 저장해두고 매번 재검증
+  return response.headers["etag"] || option === "force-cache" ? now : null;
+}
+
+function toResponse(entry: CacheEntry, config: InternalAxiosRequestConfig): AxiosResponse {
+  return {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+    data: entry.data,
+    config,
+    request: undefined
+  };
+}
+
+function store(
+  cache: Map<string, CacheEntry>,
+  key: string,
+  response: AxiosResponse,
+  freshUntil: number
+) {
+  cache.delete(key);
+  cache.set(key, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    data: response.data,
+    etag: (response.headers["etag"] as string | undefined) ?? null,
+    freshUntil
+  });
+  if (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+/**
+ * 새 응답 저장 (저장 대상이 아니면 기존 캐시 제거)
+ */
+function cacheResponse(
+  cache: Map<string, CacheEntry>,
+  key: string,
+  response: AxiosResponse,
+  config: InternalAxiosRequestConfig,
+  now: number
+) {
+  const freshUntil = getFreshUntil(response, config.cache, now);
+  if (freshUntil === null) {
+    cache.delete(key);
+  } else {
+    store(cache, key, response, freshUntil);
+  }
+  return response;
+}
+
+/**
+ * 캐시 adapter 생성
+ * 
+ * @param adapter - 실제 요청을 보내는 adapter (중복 제거 + 재시도 adapter)
+ * @param apiName - API 이름 (캐시 구분 및 로그용)
+ * @param slot - 토큰 슬롯 (슬롯이 비워지면 캐시 삭제)
+ */
+export function createCacheAdapter(
+  adapter: AxiosAdapter,
+  apiName: string,
+  slot: ApiSystem
+): AxiosAdapter {
+  useAuthStore.subscribe((state, prev) => {
+    const current = state.tokens[slot];
+    const previous = prev.tokens[slot];
+    const cleared = !current.accessToken && !current.refreshToken;
+    if (cleared && (previous.accessToken || previous.refreshToken)) {
+      clearHttpCache(apiName);
+    }
+  });
+
+  return async (config) => {
+    const cache = getCache(apiName);
+    const method = (config.method ?? "get").toLowerCase();
+
+    if (method !== "get") {
+      const response = await adapter(config);
+      // 데이터가 바뀌었을 수 있으므로 이 클라이언트의 캐시를 비움
+      cache.clear();
+      return response;
+    }
+    if (config.cache === "no-store") {
+      return adapter(config);
+    }
+
+    const key = getCacheKey(config);
+    const entry = cache.get(key);
+    const now = Date.now();
+
+    if (entry && (config.cache === "force-cache" || now < entry.freshUntil)) {
+      console.info(`[${apiName}] 캐시 사용`, config.url);
+      return toResponse(entry, config);
+    }
+
+    if (entry?.etag) {
+      // 만료된 캐시 재검증: 304면 저장된 본문 사용
+      const headers = new AxiosHeaders(config.headers);
+      headers.set("If-None-Match", entry.etag);
+      const validateStatus = config.validateStatus;
+      const revalidation = {
+        ...config,
+        headers,
+        validateStatus: (status: number) =>
+          status === 304 || (validateStatus ? validateStatus(status) : status >= 200 && status < 300)
+      };
+      const response = await adapter(revalidation).finally(() => {
+        // 재시도 횟수는 복사한 config에 기록되므로 원래 config로 옮김 (요청 로그용)
+        config.retryCount = revalidation.retryCount;
+      });
+
+      if (response.status === 304) {
+        console.info(`[${apiName}] 304 Not Modified → 캐시 사용`, config.url);
+        const freshUntil = getFreshUntil(response, config.cache, now) ?? now;
+        const revalidated = { ...entry, freshUntil };
+        cache.set(key, revalidated);
+        return toResponse(revalidated, config);
+      }
+      return cacheResponse(cache, key, { ...response, config }, config, now);
+    }
+
+    const response = await adapter(config);
+    return cacheResponse(cache, key, response, config, now);
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * ============================================================================
+ * 레이어: 유틸리티 - JWT 디코딩 (Utility Layer - JWT Decoding)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음 (브라우저 내장 atob)
+ * 🔗 연결 레이어:
+ *   - 인증 세션 (src/lib/auth-session.ts): 만료 시각 기반 백그라운드 refresh
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 요청 전 사전 refresh 판단
+ * 
+ * 역할:
+ * - access token(JWT)의 payload를 디코딩하여 exp(만료 시각)를 읽음
+ * 
+ * 주의:
+ * - 서명은 검증하지 않습니다 (검증은 서버의 책임, src/server/jwt.ts).
+ * - JWT 형식이 아닌 토큰(예: "demo-access")은 만료 시각을 알 수 없으므로 null을 반환합니다.
+ */
+
+export type JwtPayload = {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+};
+
+function decodeBase64Url(segment: string) {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * JWT payload 디코딩 (형식이 맞지 않으면 null)
+ */
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) {
+    return null;
+  }
+  try {
+    const decoded = JSON.parse(decodeBase64Url(payload)) as unknown;
+    return decoded && typeof decoded === "object" ? (decoded as JwtPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 토큰 만료 시각 (ms, epoch 기준). 알 수 없으면 null
+ */
+export function getTokenExpiry(token: string | null): number | null {
+  if (!token) {
+    return null;
+  }
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/**
+ * 만료 skew 이내로 남았는지 확인 (만료 시각을 알 수 없으면 false)
+ * 
+ * @param skewMs - 만료 전 미리 refresh할 여유 시간 (예: 30초)
+ */
+export function isTokenExpiringSoon(token: string | null, skewMs: number, now = Date.now()) {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= now;
+}
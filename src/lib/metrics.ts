@@ -0,0 +1,511 @@
+/**
+ * ============================================================================
+ * 레이어: 클라이언트 메트릭 (Client Metrics Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (요청 로그 인터셉터), navigator.sendBeacon
+ * 🔗 연결 레이어:
+ *   - 요청 로그 (src/lib/request-log.ts): sink로 등록되어 모든 클라이언트의 응답/실패 기록을 받음
+ *   - 인증 세션 (src/lib/auth-session.ts): 토큰 refresh 성공/실패 이벤트 구독
+ *   - 엔드포인트 정의 (src/lib/endpoint.ts): 경로 템플릿(metricsRoute)을 route 라벨로 전달
+ *   - 메트릭 수집 API (src/app/api/metrics/route.ts): exporter가 주기적으로 전송
+ *   - 프로바이더 레이어 (src/app/providers.tsx): sink 등록 + exporter 시작
+ * 
+ * 역할:
+ * - 클라이언트(apiName) × route × 메서드별로 집계
+ *   - 응답 시간 히스토그램 (고정 버킷) → p50 / p90 / p99 추정
+ *   - 상태 코드 분류별 요청 수 (2xx / 3xx / 4xx / 5xx / 응답 없음 / 서킷 오픈 / 취소) → 에러율
+ *   - 재시도 횟수, 토큰 refresh를 기다린 요청 수
+ * - 인증 세션(토큰 슬롯)별 토큰 refresh 성공/실패 횟수
+ * - 집계 결과를 Prometheus 텍스트 또는 OTLP-JSON으로 변환해 주기적으로 전송
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const metrics = createMetricsSink();
+ * startRequestLog([createConsoleSink(), metrics]);
+ * const stop = startMetricsExporter(metrics, { format: "prometheus", url: "/api/metrics" });
+ * 
+ * metrics.summarize(); // [{ apiName: "HQ ERP", route: "/summary", p90: 120, errorRate: 0.05, ... }]
+ * ```
+ * 
+ * 주의:
+ * - 요청 로그를 끈 요청({ requestLog: false })은 집계되지 않습니다.
+ * - 값은 시작 시점부터 누적(cumulative)입니다. (Prometheus counter / OTLP cumulative temporality)
+ */
+
+import type { InternalAxiosRequestConfig } from "axios";
+import { subscribeAuthSessionEvents } from "@/lib/auth-session";
+import { CIRCUIT_OPEN_CODE } from "@/lib/api-error";
+import type { RequestLogEntry, RequestLogSink } from "@/lib/request-log";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // 메트릭 route 라벨 (예: "/orders/:orderId", 없으면 URL의 ID 같은 경로 조각을 ":id"로 바꿔 사용)
+    metricsRoute?: string;
+  }
+}
+
+// 응답 시간 히스토그램 버킷 상한 (ms, 마지막은 +Inf)
+export const LATENCY_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export type StatusClass = "2xx" | "3xx" | "4xx" | "5xx" | "network" | "circuit-open" | "canceled";
+
+const STATUS_CLASSES: StatusClass[] = ["2xx", "3xx", "4xx", "5xx", "network", "circuit-open", "canceled"];
+
+// 에러율 계산에 넣는 분류 (취소는 요청 수에서도 제외)
+const ERROR_CLASSES: StatusClass[] = ["4xx", "5xx", "network", "circuit-open"];
+
+// 요청을 보내지 않은 분류 (응답 시간 집계에서 제외)
+const UNSENT_CLASSES: StatusClass[] = ["circuit-open", "canceled"];
+
+export type RequestSeries = {
+  apiName: string;
+  route: string;
+  method: string;
+  // 응답 시간 집계 (취소 / 서킷 오픈 제외)
+  count: number;
+  sumMs: number;
+  maxMs: number;
+  // 버킷별 개수 (누적 아님, 길이: LATENCY_BUCKETS_MS.length + 1)
+  bucketCounts: number[];
+  statusClasses: Record<StatusClass, number>;
+  retries: number;
+  refreshWaits: number;
+};
+
+export type TokenRefreshCounter = {
+  slot: string;
+  result: "success" | "failure";
+  count: number;
+};
+
+export type MetricsSnapshot = {
+  // 집계 시작 / 스냅숏 시각 (epoch ms)
+  startedAt: number;
+  at: number;
+  series: RequestSeries[];
+  refreshes: TokenRefreshCounter[];
+};
+
+export type RequestMetricsSummary = {
+  apiName: string;
+  route: string;
+  method: string;
+  // 취소를 제외한 요청 수
+  requests: number;
+  // (4xx + 5xx + 응답 없음 + 서킷 오픈) / 취소를 제외한 요청 수
+  errorRate: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  statusClasses: Record<StatusClass, number>;
+  retries: number;
+  refreshWaits: number;
+};
+
+export type MetricsSink = RequestLogSink & {
+  snapshot: () => MetricsSnapshot;
+  summarize: () => RequestMetricsSummary[];
+  // 마지막 기록 이후 바뀐 값이 있는지 판단용 (기록할 때마다 증가)
+  version: () => number;
+  reset: () => void;
+};
+
+// ID로 보이는 경로 조각 (숫자 포함, UUID 등)
+const ID_SEGMENT_PATTERN = /\d/;
+
+/**
+ * URL → route 라벨 (쿼리 제거, ID 같은 경로 조각은 ":id")
+ * 라벨 종류가 무한히 늘어나지 않도록 엔드포인트 정의가 없는 요청에만 사용합니다.
+ */
+export function normalizeRoute(url: string) {
+  const path = url.split(/[?#]/)[0] || "/";
+  return path
+    .split("/")
+    .map((segment) => (ID_SEGMENT_PATTERN.test(segment) ? ":id" : segment))
+    .join("/");
+}
+
+export function toStatusClass(
+  entry: Pick<RequestLogEntry, "status" | "outcome" | "errorCode">
+): StatusClass {
+  if (entry.outcome === "canceled") {
+    return "canceled";
+  }
+  if (entry.errorCode === CIRCUIT_OPEN_CODE) {
+    return "circuit-open";
+  }
+  if (entry.status === null) {
+    return "network";
+  }
+  return entry.status >= 500 ? "5xx" : entry.status >= 400 ? "4xx" : entry.status >= 300 ? "3xx" : "2xx";
+}
+
+/**
+ * 히스토그램에서 분위수 추정 (버킷 안은 선형 보간, Prometheus histogram_quantile과 같은 방식)
+ * +Inf 버킷에 걸리면 관측된 최댓값을 반환합니다.
+ */
+export function estimateQuantile(
+  series: Pick<RequestSeries, "count" | "bucketCounts" | "maxMs">,
+  q: number
+) {
+  if (series.count === 0) {
+    return 0;
+  }
+  const rank = q * series.count;
+  let seen = 0;
+  for (let index = 0; index < LATENCY_BUCKETS_MS.length; index += 1) {
+    const inBucket = series.bucketCounts[index];
+    if (inBucket > 0 && seen + inBucket >= rank) {
+      const lower = index === 0 ? 0 : LATENCY_BUCKETS_MS[index - 1];
+      const upper = Math.min(LATENCY_BUCKETS_MS[index], series.maxMs);
+      return Math.round(lower + (Math.max(0, upper - lower) * (rank - seen)) / inBucket);
+    }
+    seen += inBucket;
+  }
+  return series.maxMs;
+}
+
+function emptyStatusClasses() {
+  return Object.fromEntries(STATUS_CLASSES.map((statusClass) => [statusClass, 0])) as Record<
+    StatusClass,
+    number
+  >;
+}
+
+/**
+ * 메트릭 sink (요청 로그 sink로 등록)
+ * 생성하면 토큰 refresh 이벤트도 함께 구독하고, dispose 시 구독을 해제합니다.
+ */
+export function createMetricsSink(): MetricsSink {
+  let startedAt = Date.now();
+  let version = 0;
+  let series = new Map<string, RequestSeries>();
+  let refreshes = new Map<string, TokenRefreshCounter>();
+
+  const unsubscribe = subscribeAuthSessionEvents((event) => {
+    if (event.type !== "refresh-success" && event.type !== "refresh-failure") {
+      return;
+    }
+    const result = event.type === "refresh-success" ? "success" : "failure";
+    const key = `${event.slot} ${result}`;
+    const counter = refreshes.get(key) ?? { slot: event.slot, result, count: 0 };
+    refreshes.set(key, { ...counter, count: counter.count + 1 });
+    version += 1;
+  });
+
+  const record = (entry: RequestLogEntry, config: InternalAxiosRequestConfig) => {
+    const route = config.metricsRoute ?? normalizeRoute(config.url ?? entry.url);
+    const key = `${entry.apiName} ${entry.method} ${route}`;
+    const current = series.get(key) ?? {
+      apiName: entry.apiName,
+      route,
+      method: entry.method,
+      count: 0,
+      sumMs: 0,
+      maxMs: 0,
+      bucketCounts: new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0),
+      statusClasses: emptyStatusClasses(),
+      retries: 0,
+      refreshWaits: 0
+    };
+    const statusClass = toStatusClass(entry);
+    current.statusClasses[statusClass] += 1;
+    current.retries += entry.retryCount;
+    current.refreshWaits += entry.refreshWait ? 1 : 0;
+    if (!UNSENT_CLASSES.includes(statusClass)) {
+      const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => entry.durationMs <= bound);
+      current.bucketCounts[bucket < 0 ? LATENCY_BUCKETS_MS.length : bucket] += 1;
+      current.count += 1;
+      current.sumMs += entry.durationMs;
+      current.maxMs = Math.max(current.maxMs, entry.durationMs);
+    }
+    series.set(key, current);
+    version += 1;
+  };
+
+  const snapshot = (): MetricsSnapshot => ({
+    startedAt,
+    at: Date.now(),
+    series: [...series.values()].map((item) => ({
+      ...item,
+      bucketCounts: [...item.bucketCounts],
+      statusClasses: { ...item.statusClasses }
+    })),
+    refreshes: [...refreshes.values()]
+  });
+
+  return {
+    name: "metrics",
+    write: record,
+    snapshot,
+    summarize: () =>
+      [...series.values()].map((item) => {
+        const countOf = (classes: StatusClass[]) =>
+          classes.reduce((sum, statusClass) => sum + item.statusClasses[statusClass], 0);
+        const requests = countOf(STATUS_CLASSES) - item.statusClasses.canceled;
+        return {
+          apiName: item.apiName,
+          route: item.route,
+          method: item.method,
+          requests,
+          errorRate: requests === 0 ? 0 : countOf(ERROR_CLASSES) / requests,
+          p50: estimateQuantile(item, 0.5),
+          p90: estimateQuantile(item, 0.9),
+          p99: estimateQuantile(item, 0.99),
+          statusClasses: { ...item.statusClasses },
+          retries: item.retries,
+          refreshWaits: item.refreshWaits
+        };
+      }),
+    version: () => version,
+    reset: () => {
+      startedAt = Date.now();
+      series = new Map();
+      refreshes = new Map();
+      version += 1;
+    },
+    dispose: unsubscribe
+  };
+}
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function sample(name: string, labels: Record<string, string>, value: number) {
+  const pairs = Object.entries(labels).map(([label, text]) => `${label}="${escapeLabel(text)}"`);
+  return `${name}{${pairs.join(",")}} ${value}`;
+}
+
+function seriesLabels(item: RequestSeries) {
+  return { api: item.apiName, method: item.method, route: item.route };
+}
+
+/**
+ * Prometheus 텍스트 형식 (exposition format 0.0.4)
+ */
+export function formatPrometheus(snapshot: MetricsSnapshot) {
+  const lines: string[] = [];
+  const family = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  family("http_client_request_duration_ms", "histogram", "Client-side request latency in milliseconds.");
+  snapshot.series.forEach((item) => {
+    let cumulative = 0;
+    [...LATENCY_BUCKETS_MS.map(String), "+Inf"].forEach((le, index) => {
+      cumulative += item.bucketCounts[index];
+      lines.push(sample("http_client_request_duration_ms_bucket", { ...seriesLabels(item), le }, cumulative));
+    });
+    lines.push(sample("http_client_request_duration_ms_sum", seriesLabels(item), item.sumMs));
+    lines.push(sample("http_client_request_duration_ms_count", seriesLabels(item), item.count));
+  });
+
+  family("http_client_requests_total", "counter", "Client requests by status class.");
+  snapshot.series.forEach((item) => {
+    STATUS_CLASSES.filter((statusClass) => item.statusClasses[statusClass] > 0).forEach((statusClass) => {
+      const labels = { ...seriesLabels(item), status_class: statusClass };
+      lines.push(sample("http_client_requests_total", labels, item.statusClasses[statusClass]));
+    });
+  });
+
+  family("http_client_retries_total", "counter", "Retries performed by the client retry policy.");
+  snapshot.series.forEach((item) => {
+    lines.push(sample("http_client_retries_total", seriesLabels(item), item.retries));
+  });
+
+  family("http_client_refresh_waits_total", "counter", "Requests that waited for a token refresh.");
+  snapshot.series.forEach((item) => {
+    lines.push(sample("http_client_refresh_waits_total", seriesLabels(item), item.refreshWaits));
+  });
+
+  family("http_client_token_refreshes_total", "counter", "Token refreshes by auth slot and result.");
+  snapshot.refreshes.forEach(({ slot, result, count }) => {
+    lines.push(sample("http_client_token_refreshes_total", { slot, result }, count));
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+type OtlpAttribute = { key: string; value: { stringValue: string } };
+
+type OtlpCounterPoint = { attributes: OtlpAttribute[]; count: number };
+
+function otlpAttributes(values: Record<string, string>): OtlpAttribute[] {
+  return Object.entries(values).map(([key, value]) => ({ key, value: { stringValue: value } }));
+}
+
+function seriesAttributes(item: RequestSeries) {
+  return otlpAttributes({
+    "api.name": item.apiName,
+    "http.request.method": item.method,
+    "http.route": item.route
+  });
+}
+
+// OTLP-JSON은 64비트 정수를 문자열로 표현
+function nanos(epochMs: number) {
+  return `${epochMs}000000`;
+}
+
+// AGGREGATION_TEMPORALITY_CUMULATIVE
+const CUMULATIVE = 2;
+
+type OtlpResource = {
+  serviceName: string;
+  instanceId: string;
+};
+
+/**
+ * OTLP-JSON 형식 (ExportMetricsServiceRequest, cumulative temporality)
+ */
+export function formatOtlpJson(snapshot: MetricsSnapshot, { serviceName, instanceId }: OtlpResource) {
+  const time = { startTimeUnixNano: nanos(snapshot.startedAt), timeUnixNano: nanos(snapshot.at) };
+  const counter = (name: string, description: string, points: OtlpCounterPoint[]) => ({
+    name,
+    description,
+    unit: "1",
+    sum: {
+      aggregationTemporality: CUMULATIVE,
+      isMonotonic: true,
+      dataPoints: points.map(({ attributes, count }) => ({ attributes, ...time, asInt: String(count) }))
+    }
+  });
+
+  const duration = {
+    name: "http.client.request.duration",
+    description: "Client-side request latency",
+    unit: "ms",
+    histogram: {
+      aggregationTemporality: CUMULATIVE,
+      dataPoints: snapshot.series.map((item) => ({
+        attributes: seriesAttributes(item),
+        ...time,
+        count: String(item.count),
+        sum: item.sumMs,
+        max: item.maxMs,
+        bucketCounts: item.bucketCounts.map(String),
+        explicitBounds: LATENCY_BUCKETS_MS
+      }))
+    }
+  };
+
+  const requests = snapshot.series.flatMap((item) =>
+    STATUS_CLASSES.filter((statusClass) => item.statusClasses[statusClass] > 0).map((statusClass) => ({
+      attributes: [...seriesAttributes(item), ...otlpAttributes({ "http.status_class": statusClass })],
+      count: item.statusClasses[statusClass]
+    }))
+  );
+
+  const metrics = [
+    duration,
+    counter("http.client.requests", "Client requests by status class", requests),
+    counter(
+      "http.client.retries",
+      "Retries performed by the client retry policy",
+      snapshot.series.map((item) => ({ attributes: seriesAttributes(item), count: item.retries }))
+    ),
+    counter(
+      "http.client.refresh_waits",
+      "Requests that waited for a token refresh",
+      snapshot.series.map((item) => ({ attributes: seriesAttributes(item), count: item.refreshWaits }))
+    ),
+    counter(
+      "http.client.token_refreshes",
+      "Token refreshes by auth slot and result",
+      snapshot.refreshes.map(({ slot, result, count }) => ({
+        attributes: otlpAttributes({ "auth.slot": slot, "refresh.result": result }),
+        count
+      }))
+    )
+  ];
+
+  return {
+    resourceMetrics: [
+      {
+        resource: {
+          attributes: otlpAttributes({ "service.name": serviceName, "service.instance.id": instanceId })
+        },
+        scopeMetrics: [{ scope: { name: `${serviceName}/metrics` }, metrics }]
+      }
+    ]
+  };
+}
+
+export type MetricsFormat = "prometheus" | "otlp";
+
+type MetricsExporterOptions = {
+  // 메트릭 수집 API (기본: /api/metrics)
+  url?: string;
+  // 기본: prometheus
+  format?: MetricsFormat;
+  // 전송 주기 (기본: 15초)
+  intervalMs?: number;
+  // OTLP service.name (기본: axios-interceptor-demo)
+  serviceName?: string;
+};
+
+/**
+ * 집계된 메트릭을 주기적으로 전송
+ * 
+ * 탭마다 instance ID를 만들어 `?instance=`로 붙입니다. (수집 API가 탭별 최신 값을 보관)
+ * 바뀐 값이 없으면 보내지 않고, 페이지를 떠날 때(pagehide)는 sendBeacon으로 마지막 값을 보냅니다.
+ * 전송 요청은 axios 클라이언트를 거치지 않으므로 다시 집계되지 않습니다.
+ * 
+ * @returns 중지 함수 (중지하면서 마지막 값을 전송)
+ */
+export function startMetricsExporter(
+  metrics: MetricsSink,
+  {
+    url = "/api/metrics",
+    format = "prometheus",
+    intervalMs = 15000,
+    serviceName = "axios-interceptor-demo"
+  }: MetricsExporterOptions = {}
+) {
+  const instanceId = crypto.randomUUID();
+  const target = `${url}${url.includes("?") ? "&" : "?"}instance=${encodeURIComponent(instanceId)}`;
+  let exportedVersion = 0;
+
+  const flush = (useBeacon = false) => {
+    const version = metrics.version();
+    if (version === exportedVersion) {
+      return;
+    }
+    exportedVersion = version;
+    const snapshot = metrics.snapshot();
+    const [body, contentType] =
+      format === "otlp"
+        ? [JSON.stringify(formatOtlpJson(snapshot, { serviceName, instanceId })), "application/json"]
+        : [formatPrometheus(snapshot), "text/plain; version=0.0.4"];
+
+    const sent =
+      useBeacon &&
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function" &&
+      navigator.sendBeacon(target, new Blob([body], { type: contentType }));
+    if (!sent && typeof fetch === "function") {
+      void fetch(target, {
+        method: "POST",
+        body,
+        keepalive: true,
+        headers: { "Content-Type": contentType }
+      }).catch(() => undefined);
+    }
+  };
+
+  const onPageHide = () => flush(true);
+  const timer = setInterval(flush, intervalMs);
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", onPageHide);
+  }
+
+  return () => {
+    clearInterval(timer);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", onPageHide);
+    }
+    flush(true);
+  };
+}
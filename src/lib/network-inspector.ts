@@ -0,0 +1,164 @@
+/**
+ * ============================================================================
+ * 레이어: 네트워크 인스펙터 (Network Inspector Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios, Zustand (useNetworkInspectorStore)
+ * 🔗 연결 레이어:
+ *   - 요청 로그 (src/lib/request-log.ts): sink로 등록되어 모든 클라이언트의 요청 기록을 받음
+ *   - 인증 세션 (src/lib/auth-session.ts): refresh 시작/성공/실패/대기 이벤트 구독
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): 기록된 요청을 같은 클라이언트로 재전송
+ *   - 전역 상태 (src/store/network-inspector.ts): 화면 표시용 기록
+ * 
+ * 역할:
+ * - hqApi / clientApi / vendorApi를 거친 요청을 최근 N개까지 기록 (헤더는 가려진 값)
+ * - 토큰 refresh 이벤트 기록 (어떤 요청이 refresh를 기다렸는지는 요청 기록의 refreshWait)
+ * - 기록된 요청 재전송 (인터셉터를 모두 다시 거침: 새 토큰, 새 X-Request-Id, 재시도)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * startRequestLog([createConsoleSink(), createInspectorSink()]);
+ * await replayRequest(request.id);
+ * ```
+ */
+
+import type { InternalAxiosRequestConfig } from "axios";
+import { subscribeAuthSessionEvents } from "@/lib/auth-session";
+import { API_NAMES } from "@/lib/api-systems";
+import { apiClients } from "@/lib/axios";
+import type { RequestLogSink } from "@/lib/request-log";
+import { REQUEST_ID_HEADER, TRACEPARENT_HEADER } from "@/lib/trace-context";
+import { API_SYSTEMS } from "@/store/auth";
+import { useNetworkInspectorStore } from "@/store/network-inspector";
+
+// 보관할 최근 요청 / refresh 이벤트 수
+const MAX_INSPECTED_REQUESTS = 200;
+const MAX_REFRESH_EVENTS = 50;
+
+// 재전송 요청에 붙이는 취소 태그 (기록에서 재전송 여부 표시용)
+export const NETWORK_INSPECTOR_TAG = "network-inspector";
+
+// 재전송할 때 다시 만들어지는 헤더 (소문자)
+const REGENERATED_HEADERS = [
+  "authorization",
+  REQUEST_ID_HEADER.toLowerCase(),
+  TRACEPARENT_HEADER,
+  "if-none-match",
+  "content-length"
+];
+
+type ReplayableRequest = Pick<
+  InternalAxiosRequestConfig,
+  "method" | "baseURL" | "url" | "params" | "data"
+> & {
+  apiName: string;
+  headers: Record<string, string>;
+};
+
+// 기록 ID → 재전송용 요청 (본문은 화면 상태에 넣지 않고 여기만 보관)
+const replayables = new Map<string, ReplayableRequest>();
+
+function toReplayable(apiName: string, config: InternalAxiosRequestConfig): ReplayableRequest {
+  const headers: Record<string, string> = {};
+  Object.entries(config.headers.toJSON()).forEach(([name, value]) => {
+    if (value !== undefined && value !== null && !REGENERATED_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = String(value);
+    }
+  });
+  return {
+    apiName,
+    method: config.method,
+    baseURL: config.baseURL,
+    url: config.url,
+    params: config.params,
+    data: config.data,
+    headers
+  };
+}
+
+function findSystem(apiName: string) {
+  return API_SYSTEMS.find((candidate) => API_NAMES[candidate] === apiName);
+}
+
+/**
+ * 재전송할 수 없는 이유 (API 시스템 클라이언트의 요청만 재전송 가능)
+ * BFF 요청은 시스템별 토큰 헤더를 요청마다 새로 붙여야 해서 인스펙터가 다시 보낼 수 없습니다.
+ */
+function getReplayBlockedReason(apiName: string) {
+  return findSystem(apiName)
+    ? null
+    : `${apiName} 요청은 재전송할 수 없습니다 (API 시스템 클라이언트 요청만 지원)`;
+}
+
+/**
+ * 네트워크 인스펙터 sink (요청 로그 sink로 등록)
+ * 생성하면 refresh 이벤트도 함께 구독하고, dispose 시 구독을 해제합니다.
+ */
+export function createInspectorSink(): RequestLogSink {
+  const unsubscribe = subscribeAuthSessionEvents((event) => {
+    useNetworkInspectorStore.setState((state) => ({
+      refreshEvents: [...state.refreshEvents, event].slice(-MAX_REFRESH_EVENTS)
+    }));
+  });
+
+  return {
+    name: "network-inspector",
+    write: (entry, config) => {
+      const id = `${entry.requestId}:${entry.spanId}`;
+      const replayed = [config.cancelTag ?? []].flat().includes(NETWORK_INSPECTOR_TAG);
+      replayables.set(id, toReplayable(entry.apiName, config));
+
+      useNetworkInspectorStore.setState((state) => {
+        const requests = [
+          ...state.requests,
+          { ...entry, id, replayed, replayBlockedReason: getReplayBlockedReason(entry.apiName) }
+        ];
+        requests.slice(0, Math.max(0, requests.length - MAX_INSPECTED_REQUESTS)).forEach((old) => {
+          replayables.delete(old.id);
+        });
+        return { requests: requests.slice(-MAX_INSPECTED_REQUESTS) };
+      });
+    },
+    dispose: unsubscribe
+  };
+}
+
+/**
+ * 기록된 요청 재전송
+ * 
+ * 같은 클라이언트의 인터셉터를 모두 다시 거치므로 최신 토큰과 새 X-Request-Id로 보내고,
+ * 결과는 새 기록으로 남습니다. (HTTP 캐시와 중복 제거는 건너뜀)
+ * 실패는 패널에서 확인하므로 전역 에러 처리로 보내지 않습니다.
+ * 
+ * @returns 재전송할 요청을 찾지 못했거나 재전송할 수 없는 요청이면 false (이유는 기록의 replayBlockedReason)
+ */
+export async function replayRequest(id: string) {
+  const request = replayables.get(id);
+  if (!request) {
+    return false;
+  }
+  const { apiName, ...config } = request;
+  const system = findSystem(apiName);
+  if (!system) {
+    return false;
+  }
+
+  await apiClients[system]
+    .request({
+      ...config,
+      cache: "no-store",
+      dedupe: false,
+      cancelTag: NETWORK_INSPECTOR_TAG,
+      skipGlobalError: true
+    })
+    .catch(() => undefined);
+  return true;
+}
+
+/**
+ * 기록 비우기
+ */
+export function clearNetworkInspector() {
+  replayables.clear();
+  useNetworkInspectorStore.setState({ requests: [], refreshEvents: [] });
+}
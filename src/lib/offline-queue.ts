@@ -0,0 +1,502 @@
+/**
+ * ============================================================================
+ * 레이어: 오프라인 큐 (Offline Queue Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (adapter), IndexedDB
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 재시도 adapter 바깥에 연결
+ *   - 전역 상태 (src/store/offline-queue.ts): 대기/실패 요청 목록을 UI에 노출
+ *   - 프로바이더 레이어 (src/app/providers.tsx): startOfflineQueue()로 복원 및 온라인 감지 시작
+ *   - 인증 서비스 (src/lib/auth-service.ts): 로그아웃 시 clearOfflineQueue()로 큐 삭제
+ *   - 전역 상태 (src/store/auth.ts): 재전송 전에 현재 사용자(JWT sub) 확인
+ * 
+ * 역할:
+ * - offlineQueue: true인 변경 요청(POST/PUT/PATCH/DELETE)이 오프라인이거나 네트워크 오류로 실패하면
+ *   (서킷 브레이커가 열려 보내지 못한 경우 포함) IndexedDB에 저장하고, 온라인으로 돌아오면 저장된 순서대로 재전송
+ * - Idempotency-Key 헤더를 붙여서 같은 요청이 두 번 처리되지 않도록 함
+ *   (응답을 못 받았을 뿐 서버는 처리했을 수 있으므로 재전송에 같은 키를 사용)
+ * - 큐에 들어간 요청의 호출부 Promise는 실패하지 않고 재전송 결과를 기다림
+ *   (전역 에러 처리로 가지 않음, 새로고침 후에는 결과를 큐 상태로만 확인)
+ * - 서버가 거절한 요청(4xx/5xx)은 failed로 남겨 UI에서 다시 시도/삭제
+ * - 요청을 저장한 사용자(JWT sub)와 현재 사용자가 다르면 재전송하지 않고 삭제
+ *   (로그인 전이면 남겨 두고 다음 재전송에서 다시 확인)
+ * - 인증 헤더를 뺀 요청 헤더(If-Match 등)를 함께 저장해 재전송에 그대로 사용
+ * 
+ * 사용 방법:
+ * ```typescript
+ * // 요청별로 사용
+ * await vendorApi.post("/orders", body, { offlineQueue: true });
+ * 
+ * // 엔드포인트 정의에서 사용 (lib/endpoint.ts)
+ * createOrder: endpoint({ system: "vendorErp", method: "post", path: "/orders", offlineQueue: true, ... })
+ * 
+ * // TanStack Query 뮤테이션은 오프라인이면 mutationFn을 호출하지 않으므로 networkMode를 "always"로
+ * useApiMutation(vendorApi.createOrder, { networkMode: "always" });
+ * ```
+ * 
+ * 주의:
+ * - 본문은 직렬화된 값(JSON 문자열)으로 저장하므로 FormData/Blob 요청에는 사용할 수 없습니다.
+ * - 호출부 취소(signal, 로그아웃)는 대기만 끝내고 큐 항목은 남습니다. 삭제는 discardOfflineRequest로.
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig
+} from "axios";
+import { API_TOKEN_HEADERS } from "@/lib/api-audience";
+import { isApiError } from "@/lib/api-error";
+import { publishApiError } from "@/lib/error-bus";
+import { decodeJwtPayload } from "@/lib/jwt";
+import { getTokens, type ApiSystem } from "@/store/auth";
+import { useOfflineQueueStore, type OfflineRequestSummary } from "@/store/offline-queue";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // true면 오프라인/네트워크 오류 시 큐에 저장 후 온라인 복귀 시 재전송 (GET 제외)
+    offlineQueue?: boolean;
+    // Idempotency-Key 헤더 값 (생략 시 offlineQueue 요청마다 자동 생성)
+    idempotencyKey?: string;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// 온라인인데 네트워크 오류로 큐에 들어간 경우(불안정한 Wi-Fi) 재전송을 다시 시도하는 간격
+const REPLAY_INTERVAL_MS = 10_000;
+
+// 저장하지 않는 헤더 (소문자): 인증 정보는 재전송 시 인증 인터셉터가 최신 토큰으로 다시 붙임
+const UNPERSISTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "content-length",
+  ...Object.values(API_TOKEN_HEADERS).map((header) => header.toLowerCase())
+];
+
+const DB_NAME = "axios-offline-queue";
+const STORE_NAME = "requests";
+
+type QueuedRequest = OfflineRequestSummary & {
+  params: unknown;
+  data: unknown;
+  headers: Record<string, string>;
+  // 요청을 저장한 사용자 (access token의 JWT sub, 토큰이 없으면 null)
+  subject: string | null;
+  // 호출부가 전역 에러 처리를 끈 요청인지 (새로고침 후 재전송이 실패했을 때 발행 여부)
+  skipGlobalError: boolean;
+};
+
+type ReplayRequest = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+type Replayer = {
+  replay: ReplayRequest;
+  // 재전송에 사용할 토큰 슬롯 (현재 사용자 확인용)
+  slot: ApiSystem;
+};
+
+// 호출부가 아직 결과를 기다리는 요청 (새로고침하면 사라짐)
+type Waiter = {
+  config: InternalAxiosRequestConfig;
+  resolve: (response: AxiosResponse) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+};
+
+// 저장 순서대로 정렬된 큐 (IndexedDB는 영속화용, 이 배열이 기준)
+let queue: QueuedRequest[] = [];
+const waiters = new Map<string, Waiter>();
+// 클라이언트(apiName)별 재전송 함수 (인터셉터를 다시 거치도록 axios 인스턴스로 요청)
+const replayers = new Map<string, Replayer>();
+
+let replaying: Promise<void> | null = null;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+/**
+ * 응답을 받지 못한 실패인지 (네트워크 오류, 타임아웃)
+ */
+function isNetworkFailure(error: unknown) {
+  return axios.isAxiosError(error) && !axios.isCancel(error) && !error.response;
+}
+
+function toSummary({ params, data, headers, subject, skipGlobalError, ...summary }: QueuedRequest) {
+  return summary;
+}
+
+function getSubject(token: string | null | undefined) {
+  return (token && decodeJwtPayload(token)?.sub) || null;
+}
+
+/**
+ * 저장할 요청 헤더 (인증 헤더 제외, Idempotency-Key 포함)
+ */
+function toPersistedHeaders(config: InternalAxiosRequestConfig, idempotencyKey: string) {
+  const headers: Record<string, string> = {};
+  Object.entries(AxiosHeaders.from(config.headers).toJSON()).forEach(([name, value]) => {
+    if (
+      value !== undefined &&
+      value !== null &&
+      value !== false &&
+      !UNPERSISTED_HEADERS.includes(name.toLowerCase())
+    ) {
+      headers[name] = String(value);
+    }
+  });
+  headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
+  return headers;
+}
+
+function publish() {
+  useOfflineQueueStore.setState({ entries: queue.map(toSummary) });
+}
+
+/* ----------------------------- IndexedDB 영속화 ----------------------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+async function runStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 저장 실패(IndexedDB 미지원, 직렬화 불가 본문 등)는 로그만 남기고 메모리 큐로 계속 동작
+ */
+function persist(entry: QueuedRequest) {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  runStore("readwrite", (store) => store.put(entry)).catch((error: unknown) =>
+    console.warn(`[${entry.apiName}] 오프라인 큐 저장 실패`, error)
+  );
+}
+
+function unpersist(id: string) {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  runStore("readwrite", (store) => store.delete(id)).catch((error: unknown) =>
+    console.warn("[OfflineQueue] 오프라인 큐 삭제 실패", error)
+  );
+}
+
+async function loadPersisted() {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  const stored = await runStore<QueuedRequest[]>("readonly", (store) => store.getAll());
+  const known = new Set(queue.map((entry) => entry.id));
+  queue = [...queue, ...stored.filter((entry) => !known.has(entry.id))].sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+  publish();
+}
+
+/* --------------------------------- 큐 조작 --------------------------------- */
+
+function remove(id: string) {
+  queue = queue.filter((entry) => entry.id !== id);
+  unpersist(id);
+  publish();
+}
+
+function update(entry: QueuedRequest) {
+  persist(entry);
+  publish();
+}
+
+/**
+ * 요청을 큐에 저장하고, 재전송 결과를 기다리는 Promise 반환
+ */
+function enqueue(
+  config: InternalAxiosRequestConfig,
+  apiName: string,
+  idempotencyKey: string
+): Promise<AxiosResponse> {
+  const authorization = String(AxiosHeaders.from(config.headers).getAuthorization() ?? "");
+  const entry: QueuedRequest = {
+    id: crypto.randomUUID(),
+    apiName,
+    method: (config.method ?? "post").toLowerCase(),
+    url: config.url ?? "",
+    idempotencyKey,
+    status: "pending",
+    error: null,
+    attempts: 0,
+    createdAt: Date.now(),
+    params: config.params,
+    data: config.data,
+    headers: toPersistedHeaders(config, idempotencyKey),
+    subject: getSubject(authorization.replace(/^Bearer\s+/i, "")),
+    skipGlobalError: Boolean(config.skipGlobalError)
+  };
+  queue = [...queue, entry];
+  update(entry);
+  console.info(`[${apiName}] 오프라인 큐에 저장 → 온라인 복귀 시 재전송`, config.url);
+  scheduleReplay();
+
+  return new Promise<AxiosResponse>((resolve, reject) => {
+    const onAbort = () => {
+      waiters.delete(entry.id);
+      // CanceledError 타입 선언과 런타임 생성자 인자가 달라서 config는 직접 지정
+      reject(Object.assign(new axios.CanceledError(), { config }));
+    };
+    const cleanup = () => config.signal?.removeEventListener?.("abort", onAbort);
+    config.signal?.addEventListener?.("abort", onAbort);
+    waiters.set(entry.id, { config, resolve, reject, cleanup });
+  });
+}
+
+function settle(entry: QueuedRequest, outcome: { response: AxiosResponse } | { error: unknown }) {
+  const waiter = waiters.get(entry.id);
+  if (!waiter) {
+    // 새로고침 후 재전송된 요청: 기다리는 호출부가 없으므로 실패는 직접 발행
+    if ("error" in outcome && isApiError(outcome.error) && !entry.skipGlobalError) {
+      publishApiError(outcome.error);
+    }
+    return;
+  }
+  waiters.delete(entry.id);
+  waiter.cleanup();
+
+  if ("response" in outcome) {
+    waiter.resolve({ ...outcome.response, config: waiter.config });
+    return;
+  }
+  // 재전송은 인터셉터를 거쳐 ApiError로 실패하므로, 호출부 인터셉터가 처리(전역 에러 발행)할 수 있도록
+  // 원래 AxiosError를 호출부 config로 바꿔서 전달
+  const cause = isApiError(outcome.error)
+    ? (outcome.error as { cause?: unknown }).cause
+    : outcome.error;
+  waiter.reject(
+    axios.isAxiosError(cause)
+      ? AxiosError.from(cause, cause.code, waiter.config, cause.request, cause.response)
+      : outcome.error
+  );
+}
+
+/* --------------------------------- 재전송 --------------------------------- */
+
+function scheduleReplay() {
+  if (replayTimer !== null || typeof window === "undefined") {
+    return;
+  }
+  replayTimer = setTimeout(() => {
+    replayTimer = null;
+    void replayOfflineQueue();
+  }, REPLAY_INTERVAL_MS);
+}
+
+async function drain() {
+  for (const entry of queue) {
+    if (entry.status !== "pending") {
+      continue;
+    }
+    // 순서를 지키기 위해 오프라인이면 여기서 멈춤
+    if (isOffline()) {
+      return;
+    }
+    const replayer = replayers.get(entry.apiName);
+    if (!replayer) {
+      continue;
+    }
+    const subject = getSubject(getTokens(replayer.slot).accessToken);
+    if (subject === null) {
+      // 로그인 전(또는 refresh 대기 중): 저장한 사용자를 확인할 수 없으므로 남겨 둠
+      continue;
+    }
+    if (entry.subject !== subject) {
+      // 다른 사용자가 저장한 요청은 현재 사용자의 토큰으로 보내지 않음
+      console.warn(`[${entry.apiName}] 다른 사용자의 오프라인 요청 삭제`, entry.url);
+      discardOfflineRequest(entry.id);
+      continue;
+    }
+
+    entry.attempts += 1;
+    try {
+      const response = await replayer.replay({
+        method: entry.method,
+        url: entry.url,
+        params: entry.params,
+        data: entry.data,
+        headers: entry.headers,
+        offlineQueue: false,
+        // 실패는 아래에서 호출부로 전달 (호출부 인터셉터가 전역 처리)
+        skipGlobalError: true
+      });
+      console.info(`[${entry.apiName}] 오프라인 큐 재전송 성공`, entry.url);
+      remove(entry.id);
+      settle(entry, { response });
+    } catch (error) {
+      const kind = isApiError(error) ? error.kind : null;
+      if (
+        kind === "network" ||
+        kind === "timeout" ||
+        kind === "circuit-open" ||
+        isNetworkFailure(error)
+      ) {
+        // 아직 연결이 불안정하거나 서킷이 열려 있음: 뒤 요청도 보내지 않고 다음 재전송을 기다림
+        update(entry);
+        scheduleReplay();
+        return;
+      }
+      if (kind === "canceled") {
+        update(entry);
+        return;
+      }
+      entry.status = "failed";
+      entry.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[${entry.apiName}] 오프라인 큐 재전송 실패`, entry.url, error);
+      update(entry);
+      settle(entry, { error });
+    }
+  }
+}
+
+/**
+ * 대기 중인 요청을 저장 순서대로 재전송 (이미 진행 중이면 그 결과를 공유)
+ */
+export function replayOfflineQueue() {
+  replaying ??= (async () => {
+    useOfflineQueueStore.setState({ replaying: true });
+    try {
+      await drain();
+    } finally {
+      replaying = null;
+      useOfflineQueueStore.setState({ replaying: false });
+    }
+  })();
+  return replaying;
+}
+
+/**
+ * 실패한 요청을 다시 대기 상태로 돌리고 재전송
+ */
+export function retryOfflineRequest(id: string) {
+  const entry = queue.find((item) => item.id === id);
+  if (entry) {
+    entry.status = "pending";
+    entry.error = null;
+    update(entry);
+  }
+  return replayOfflineQueue();
+}
+
+/**
+ * 큐에서 요청 삭제 (기다리는 호출부는 취소로 끝남)
+ */
+export function discardOfflineRequest(id: string) {
+  const waiter = waiters.get(id);
+  remove(id);
+  if (waiter) {
+    waiters.delete(id);
+    waiter.cleanup();
+    waiter.reject(Object.assign(new axios.CanceledError(), { config: waiter.config }));
+  }
+}
+
+/**
+ * 큐 전체 삭제 (로그아웃 시 호출, 기다리는 호출부는 취소로 끝남)
+ */
+export function clearOfflineQueue() {
+  queue.forEach((entry) => discardOfflineRequest(entry.id));
+}
+
+/**
+ * 저장된 큐 복원 + 온라인/오프라인 감지 시작
+ * @returns 감지 중단 함수
+ */
+export function startOfflineQueue() {
+  const onOnline = () => {
+    useOfflineQueueStore.setState({ online: true });
+    void replayOfflineQueue();
+  };
+  const onOffline = () => useOfflineQueueStore.setState({ online: false });
+
+  useOfflineQueueStore.setState({ online: !isOffline() });
+  window.addEventListener("online", onOnline);
+  window.addEventListener("offline", onOffline);
+
+  loadPersisted()
+    .then(() => {
+      if (!isOffline()) {
+        void replayOfflineQueue();
+      }
+    })
+    .catch((error: unknown) => console.warn("[OfflineQueue] 오프라인 큐 복원 실패", error));
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("offline", onOffline);
+  };
+}
+
+/**
+ * 오프라인 큐 adapter 생성
+ * 
+ * 재시도 adapter(lib/retry.ts)를 감싸므로 재시도까지 실패한 뒤에만 큐에 저장합니다.
+ * @param adapter - 실제 요청을 보내는 adapter (재시도 adapter)
+ * @param apiName - API 이름 (큐 항목 구분 및 로그용)
+ * @param slot - 토큰 슬롯 (재전송 전에 저장한 사용자와 현재 사용자 비교)
+ * @param replay - 재전송 함수 (인터셉터를 다시 거쳐 최신 토큰으로 보내도록 axios 인스턴스 사용)
+ */
+export function createOfflineQueueAdapter(
+  adapter: AxiosAdapter,
+  apiName: string,
+  slot: ApiSystem,
+  replay: ReplayRequest
+): AxiosAdapter {
+  replayers.set(apiName, { replay, slot });
+
+  return async (config) => {
+    const method = (config.method ?? "get").toLowerCase();
+    if (!config.offlineQueue || method === "get" || method === "head") {
+      return adapter(config);
+    }
+
+    const headers = AxiosHeaders.from(config.headers);
+    const idempotencyKey =
+      config.idempotencyKey ??
+      (headers.get(IDEMPOTENCY_KEY_HEADER) as string | undefined) ??
+      crypto.randomUUID();
+    headers.set(IDEMPOTENCY_KEY_HEADER, idempotencyKey);
+    const keyedConfig = { ...config, headers };
+
+    if (isOffline()) {
+      return enqueue(config, apiName, idempotencyKey);
+    }
+    try {
+      return await adapter(keyedConfig);
+    } catch (error) {
+      if (!isNetworkFailure(error)) {
+        throw error;
+      }
+      return enqueue(config, apiName, idempotencyKey);
+    }
+  };
+}
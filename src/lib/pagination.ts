@@ -0,0 +1,260 @@
+/**
+ * ============================================================================
+ * 레이어: 페이지네이션 (Pagination Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (응답 헤더), TanStack Query (useInfiniteQuery 옵션)
+ * 🔗 연결 레이어:
+ *   - 엔드포인트 정의 (src/lib/endpoint.ts): requestEndpoint로 요청 + 스키마 검증
+ *   - 쿼리 훅 (src/lib/api-query.ts): useApiPaginatedQuery가 infiniteQuery() 결과를 받음
+ *   - API 호출 레이어 (src/api/demo.ts, src/api/vendor.ts): 페이지 엔드포인트 선언
+ * 
+ * 역할:
+ * - 페이지 방식별로 "페이지 파라미터 → 쿼리", "응답 → 다음 페이지 파라미터" 규칙을 정의
+ *   - 오프셋: page/size 쿼리, 응답의 totalPages(또는 total, 항목 수)로 마지막 페이지 판단
+ *   - 커서: cursor 쿼리, 응답 본문의 next 토큰 또는 Link 헤더(rel="next")에서 다음 커서를 읽음
+ * - 모든 페이지를 순서대로 요청하는 async iterator (pages / items)
+ * - useInfiniteQuery에 그대로 넘길 수 있는 { queryKey, queryFn, initialPageParam, getNextPageParam }
+ * 
+ * 사용 방법:
+ * ```typescript
+ * export const vendorOrderPages = createPaginatedEndpoint(
+ *   "orders",
+ *   orderList,
+ *   offsetPagination({ size: 20 })
+ * );
+ * 
+ * // 모든 페이지 순회
+ * for await (const order of vendorOrderPages.items({ query: { status: "pending" } })) { ... }
+ * 
+ * // 무한 스크롤
+ * const orders = useApiPaginatedQuery(vendorOrderPages.infiniteQuery({ query: { status } }));
+ * orders.data?.pages.flatMap((page) => page.data.items);
+ * ```
+ * 
+ * 주의:
+ * - 페이지 파라미터(page/size/cursor)는 엔드포인트 query 스키마에 선언되어 있어야 합니다.
+ *   (스키마에서 빠지면 서버로 전달되지 않아 같은 페이지를 반복 요청하게 되므로, 순회는 중단됩니다.)
+ */
+
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import type { QueryFunctionContext, QueryKey } from "@tanstack/react-query";
+import {
+  requestEndpoint,
+  type EndpointArgs,
+  type EndpointDefinition,
+  type EndpointOutput,
+  type RawEndpointInput
+} from "@/lib/endpoint";
+import type { ApiSystem } from "@/store/auth";
+
+type ResponseHeaders = AxiosResponse["headers"];
+
+export type PaginationStyle<TPageParam> = {
+  // 첫 페이지 파라미터
+  initialPageParam: TPageParam;
+  // 페이지 파라미터 → 쿼리 파라미터 (엔드포인트 입력 query에 덮어씀)
+  toQuery: (pageParam: TPageParam) => Record<string, string | number>;
+  // 응답 → 다음 페이지 파라미터 (마지막 페이지면 undefined)
+  getNextPageParam: (
+    data: unknown,
+    headers: ResponseHeaders,
+    pageParam: TPageParam
+  ) => TPageParam | undefined;
+};
+
+// 페이지 하나의 결과 (검증된 응답 본문 + 다음 페이지 파라미터)
+export type Page<TData, TPageParam> = {
+  data: TData;
+  pageParam: TPageParam;
+  nextPageParam: TPageParam | undefined;
+};
+
+type OffsetPaginationOptions = {
+  // 페이지 크기 (기본: 20)
+  size?: number;
+  // 쿼리 파라미터 이름 (기본: page / size)
+  pageKey?: string;
+  sizeKey?: string;
+};
+
+/**
+ * 오프셋 페이지네이션 (page는 1부터)
+ * 다음 페이지 판단: 응답의 totalPages → total → 항목 수가 size보다 적으면 마지막 페이지
+ */
+export function offsetPagination({
+  size = 20,
+  pageKey = "page",
+  sizeKey = "size"
+}: OffsetPaginationOptions = {}): PaginationStyle<number> {
+  return {
+    initialPageParam: 1,
+    toQuery: (page) => ({ [pageKey]: page, [sizeKey]: size }),
+    getNextPageParam: (data, _headers, page) => {
+      const body = (data ?? {}) as { items?: unknown[]; total?: unknown; totalPages?: unknown };
+      if (typeof body.totalPages === "number") {
+        return page < body.totalPages ? page + 1 : undefined;
+      }
+      if (typeof body.total === "number") {
+        return page * size < body.total ? page + 1 : undefined;
+      }
+      return (body.items?.length ?? 0) < size ? undefined : page + 1;
+    }
+  };
+}
+
+type CursorPaginationOptions = {
+  // 페이지 크기 (없으면 서버 기본값)
+  size?: number;
+  // 쿼리 파라미터 이름 (기본: cursor / size)
+  cursorKey?: string;
+  sizeKey?: string;
+  // 응답 본문의 다음 커서 필드 (기본: next)
+  nextKey?: string;
+};
+
+/**
+ * Link 헤더 파싱 ('<url>; rel="next", <url>; rel="prev"' → { next: url, prev: url })
+ */
+export function parseLinkHeader(header: unknown): Record<string, string> {
+  if (typeof header !== "string") {
+    return {};
+  }
+  const links: Record<string, string> = {};
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]*)>\s*;(.*)/);
+    const rel = match?.[2].match(/rel="?([^";]+)"?/)?.[1];
+    if (match && rel) {
+      rel.split(/\s+/).forEach((name) => {
+        links[name] = match[1];
+      });
+    }
+  }
+  return links;
+}
+
+/**
+ * 커서 페이지네이션 (첫 페이지는 커서 없이 요청)
+ * 다음 커서: 응답 본문의 next 토큰 → 없으면 Link 헤더 rel="next" URL의 cursor 쿼리
+ * (Link URL을 그대로 요청하지 않고 커서만 꺼내서 엔드포인트 검증/baseURL을 그대로 사용)
+ */
+export function cursorPagination({
+  size,
+  cursorKey = "cursor",
+  sizeKey = "size",
+  nextKey = "next"
+}: CursorPaginationOptions = {}): PaginationStyle<string | null> {
+  return {
+    initialPageParam: null,
+    toQuery: (cursor) => ({
+      ...(cursor ? { [cursorKey]: cursor } : {}),
+      ...(size ? { [sizeKey]: size } : {})
+    }),
+    getNextPageParam: (data, headers) => {
+      const token = (data as Record<string, unknown> | null)?.[nextKey];
+      if (typeof token === "string" && token) {
+        return token;
+      }
+      const next = parseLinkHeader(headers.link).next;
+      return next
+        ? (new URL(next, "http://localhost").searchParams.get(cursorKey) ?? undefined)
+        : undefined;
+    }
+  };
+}
+
+type PageIterationOptions = {
+  config?: AxiosRequestConfig;
+  // 최대 페이지 수 (기본: 제한 없음)
+  maxPages?: number;
+};
+
+export type PaginatedQueryOptions<TData, TPageParam> = {
+  queryKey: QueryKey;
+  queryFn: (context: QueryFunctionContext<QueryKey, TPageParam>) => Promise<Page<TData, TPageParam>>;
+  initialPageParam: TPageParam;
+  getNextPageParam: (lastPage: Page<TData, TPageParam>) => TPageParam | undefined;
+};
+
+type PageItem<TData> = TData extends { items: Array<infer TItem> } ? TItem : never;
+
+export type PaginatedEndpoint<TDefinition, TPageParam> = {
+  // [시스템, 엔드포인트 이름] (일반 쿼리와 같은 시스템 단위로 invalidate됨)
+  readonly key: readonly [ApiSystem, string];
+  // 페이지 하나 요청
+  fetchPage: (
+    input: EndpointArgs<TDefinition, []>[0],
+    pageParam: TPageParam,
+    config?: AxiosRequestConfig
+  ) => Promise<Page<EndpointOutput<TDefinition>, TPageParam>>;
+  // 첫 페이지부터 마지막 페이지까지 응답 본문 순회
+  pages: (
+    ...args: EndpointArgs<TDefinition, [options?: PageIterationOptions]>
+  ) => AsyncGenerator<EndpointOutput<TDefinition>, void>;
+  // 모든 페이지의 items를 이어서 순회
+  items: (
+    ...args: EndpointArgs<TDefinition, [options?: PageIterationOptions]>
+  ) => AsyncGenerator<PageItem<EndpointOutput<TDefinition>>, void>;
+  // useInfiniteQuery 옵션 (queryKey: [시스템, 이름, 입력, "pages"])
+  infiniteQuery: (
+    ...args: EndpointArgs<TDefinition, []>
+  ) => PaginatedQueryOptions<EndpointOutput<TDefinition>, TPageParam>;
+};
+
+/**
+ * 페이지 엔드포인트 생성
+ * 
+ * @param name - queryKey에 들어갈 이름 (레지스트리 이름과 같게 두면 함께 invalidate하기 쉬움)
+ * @param definition - endpoint()로 정의한 목록 엔드포인트
+ * @param style - offsetPagination() / cursorPagination()
+ */
+export function createPaginatedEndpoint<TDefinition extends EndpointDefinition, TPageParam>(
+  name: string,
+  definition: TDefinition,
+  style: PaginationStyle<TPageParam>
+): PaginatedEndpoint<TDefinition, TPageParam> {
+  type TData = EndpointOutput<TDefinition>;
+
+  async function fetchPage(
+    input: RawEndpointInput = {},
+    pageParam: TPageParam,
+    config?: AxiosRequestConfig
+  ): Promise<Page<TData, TPageParam>> {
+    const { data, headers } = await requestEndpoint(
+      definition,
+      { ...input, query: { ...(input.query as object | undefined), ...style.toQuery(pageParam) } },
+      config
+    );
+    return { data, pageParam, nextPageParam: style.getNextPageParam(data, headers, pageParam) };
+  }
+
+  async function* pages(input?: RawEndpointInput, { config, maxPages = Infinity }: PageIterationOptions = {}) {
+    let pageParam: TPageParam | undefined = style.initialPageParam;
+    for (let count = 0; pageParam !== undefined && count < maxPages; count += 1) {
+      const page = await fetchPage(input, pageParam, config);
+      yield page.data;
+      // 다음 페이지 파라미터가 그대로면 서버가 페이지 파라미터를 무시한 것 → 무한 반복 방지
+      pageParam = page.nextPageParam === pageParam ? undefined : page.nextPageParam;
+    }
+  }
+
+  async function* items(input?: RawEndpointInput, options?: PageIterationOptions) {
+    for await (const data of pages(input, options)) {
+      yield* ((data as { items?: unknown[] }).items ?? []);
+    }
+  }
+
+  return {
+    key: [definition.system, name],
+    fetchPage,
+    pages,
+    items,
+    infiniteQuery: (input: RawEndpointInput = {}) => ({
+      queryKey: [definition.system, name, input, "pages"],
+      queryFn: ({ pageParam, signal }: QueryFunctionContext<QueryKey, TPageParam>) =>
+        fetchPage(input, pageParam as TPageParam, { signal, skipGlobalError: true }),
+      initialPageParam: style.initialPageParam,
+      getNextPageParam: (lastPage: Page<TData, TPageParam>) => lastPage.nextPageParam
+    })
+  } as PaginatedEndpoint<TDefinition, TPageParam>;
+}
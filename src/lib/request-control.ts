@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * 레이어: 요청 제어 (Request Control Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (adapter, 인터셉터), AbortController
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 클라이언트마다 연결
+ *   - 전역 상태 (src/store/auth.ts): 토큰이 비워지면(clearTokens, 로그아웃) 진행 중인 요청 취소
+ * 
+ * 역할:
+ * - 같은 GET 요청 중복 제거: URL, 쿼리 파라미터, 인증 정보(Authorization)가 같고
+ *   아직 응답을 기다리는 요청이 있으면 새로 보내지 않고 같은 응답을 공유
+ * - 태그 단위 / 클라이언트 단위 요청 취소
+ * - 취소된 요청은 전역 에러 처리(handleGlobalError)로 가지 않음
+ * 
+ * 사용 방법:
+ * ```typescript
+ * // 태그 지정 후 취소 (예: 화면 이동 시 검색 요청 취소)
+ * hqApi.get("/summary", { cancelTag: "search" });
+ * cancelRequests({ tag: "search" });
+ * 
+ * // 중복 제거 끄기 (매번 새로 요청해야 하는 경우)
+ * hqApi.get("/summary", { dedupe: false });
+ * ```
+ */
+
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig
+} from "axios";
+import { useAuthStore, type ApiSystem } from "@/store/auth";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // false면 같은 GET 요청이 진행 중이어도 새로 요청 (기본: GET은 중복 제거)
+    dedupe?: boolean;
+    // cancelRequests({ tag })로 한 번에 취소할 수 있도록 붙이는 태그
+    cancelTag?: string | string[];
+  }
+}
+
+type ActiveRequest = {
+  controller: AbortController;
+  apiName: string;
+  tags: string[];
+  // 호출부 signal 리스너 해제
+  unlinkSignal: () => void;
+};
+
+// 진행 중인 요청 (요청 ID → 취소용 AbortController)
+const activeRequests = new Map<number, ActiveRequest>();
+let nextRequestId = 0;
+
+type ControlledConfig = AxiosRequestConfig & { _requestId?: number };
+
+/**
+ * 진행 중인 요청 취소
+ * 
+ * @param filter - tag: 해당 태그가 붙은 요청만, apiName: 해당 클라이언트 요청만 (생략하면 전체)
+ * @returns 취소한 요청 수
+ */
+export function cancelRequests(filter: { tag?: string; apiName?: string } = {}) {
+  let canceled = 0;
+  activeRequests.forEach((request, id) => {
+    if (filter.tag !== undefined && !request.tags.includes(filter.tag)) {
+      return;
+    }
+    if (filter.apiName !== undefined && request.apiName !== filter.apiName) {
+      return;
+    }
+    request.controller.abort();
+    request.unlinkSignal();
+    activeRequests.delete(id);
+    canceled += 1;
+  });
+  return canceled;
+}
+
+/**
+ * 호출부 signal이 취소되면 controller도 취소
+ * 
+ * @returns 리스너 해제 함수 (요청이 끝나면 호출해 오래 사는 signal에 리스너가 남지 않게 함)
+ */
+function linkSignal(signal: AxiosRequestConfig["signal"], controller: AbortController) {
+  if (signal?.aborted) {
+    controller.abort();
+    return () => {};
+  }
+  const onAbort = () => controller.abort();
+  signal?.addEventListener?.("abort", onAbort, { once: true });
+  return () => signal?.removeEventListener?.("abort", onAbort);
+}
+
+/**
+ * 클라이언트에 요청 제어 연결
+ * 
+ * - 요청마다 AbortController를 만들어 config.signal로 사용 (호출부 signal과 연결)
+ *   → 인증 refresh를 기다리는 중인 요청도 취소 가능
+ * - 이 클라이언트의 토큰이 모두 비워지면(로그아웃) 진행 중인 요청 전체 취소
+ * 
+ * 인터셉터 실행 순서상 attachInterceptors 이후에 연결해야 인증 인터셉터보다 먼저 실행됩니다.
+ */
+export function attachRequestControl(instance: AxiosInstance, apiName: string, slot: ApiSystem) {
+  instance.interceptors.request.use((config: InternalAxiosRequestConfig & ControlledConfig) => {
+    // 401 refresh 후 재요청은 처음 요청의 취소 수단을 그대로 사용
+    if (config._requestId !== undefined && activeRequests.has(config._requestId)) {
+      return config;
+    }
+
+    const controller = new AbortController();
+    const unlinkSignal = linkSignal(config.signal, controller);
+    const id = ++nextRequestId;
+    const tags = config.cancelTag === undefined ? [] : [config.cancelTag].flat();
+    activeRequests.set(id, { controller, apiName, tags, unlinkSignal });
+    config._requestId = id;
+    config.signal = controller.signal;
+    return config;
+  });
+
+  const release = (config?: ControlledConfig) => {
+    if (config?._requestId !== undefined) {
+      activeRequests.get(config._requestId)?.unlinkSignal();
+      activeRequests.delete(config._requestId);
+    }
+  };
+  instance.interceptors.response.use(
+    (response) => {
+      release(response.config);
+      return response;
+    },
+    (error) => {
+      release(axios.isAxiosError(error) ? error.config : undefined);
+      return Promise.reject(error);
+    }
+  );
+
+  useAuthStore.subscribe((state, prev) => {
+    const current = state.tokens[slot];
+    const previous = prev.tokens[slot];
+    const loggedOut = !current.accessToken && !current.refreshToken;
+    if (loggedOut && (previous.accessToken || previous.refreshToken)) {
+      cancelRequests({ apiName });
+    }
+  });
+}
+
+/**
+ * 중복 제거 키: URL(쿼리 파라미터 포함) + 인증 정보 + 조건부 요청 헤더
+ * (If-None-Match 요청은 304를 받을 수 있으므로 일반 요청과 응답을 공유하지 않음)
+ */
+function getDedupeKey(config: InternalAxiosRequestConfig) {
+  const authorization = config.headers?.Authorization ?? "";
+  const ifNoneMatch = config.headers?.["If-None-Match"] ?? "";
+  return `${axios.getUri(config)}|${String(authorization)}|${String(ifNoneMatch)}`;
+}
+
+type SharedRequest = {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+};
+
+/**
+ * 공유 요청 구독 (각 호출부는 자기 signal로만 취소되고, 모두 취소하면 실제 요청도 취소)
+ * 
+ * 응답/에러의 config는 호출부 config로 바꿔서 돌려줍니다.
+ * (응답 인터셉터의 401 재요청, 요청 제어 정리가 호출부 config 기준으로 동작하도록)
+ * 공유 요청의 재시도 횟수(retryCount)는 호출부 config에 옮겨 적습니다 (요청 로그용).
+ */
+function subscribe(shared: SharedRequest, config: InternalAxiosRequestConfig) {
+  shared.subscribers += 1;
+
+  return new Promise<AxiosResponse>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers -= 1;
+      if (shared.subscribers === 0) {
+        shared.controller.abort();
+      }
+      // CanceledError 타입 선언과 런타임 생성자 인자가 달라서 config는 직접 지정
+      reject(Object.assign(new axios.CanceledError(), { config }));
+    };
+    if (config.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    config.signal?.addEventListener?.("abort", onAbort);
+
+    shared.promise.then(
+      (response) => {
+        config.signal?.removeEventListener?.("abort", onAbort);
+        config.retryCount = response.config.retryCount;
+        resolve({ ...response, config });
+      },
+      (error: unknown) => {
+        config.signal?.removeEventListener?.("abort", onAbort);
+        if (axios.isAxiosError(error)) {
+          config.retryCount = error.config?.retryCount;
+        }
+        reject(
+          axios.isAxiosError(error)
+            ? AxiosError.from(error, error.code, config, error.request, error.response)
+            : error
+        );
+      }
+    );
+  });
+}
+
+/**
+ * GET 중복 제거 adapter 생성
+ * 
+ * 재시도 adapter(lib/retry.ts)를 감싸므로 재시도까지 포함한 최종 결과를 공유합니다.
+ * @param adapter - 실제 요청을 보내는 adapter
+ */
+export function createDedupeAdapter(adapter: AxiosAdapter): AxiosAdapter {
+  const inflight = new Map<string, SharedRequest>();
+
+  return (config) => {
+    if ((config.method ?? "get").toLowerCase() !== "get" || config.dedupe === false) {
+      return adapter(config);
+    }
+
+    const key = getDedupeKey(config);
+    let shared = inflight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const request: SharedRequest = {
+        promise: adapter({ ...config, signal: controller.signal }),
+        controller,
+        subscribers: 0
+      };
+      const cleanup = () => {
+        if (inflight.get(key) === request) {
+          inflight.delete(key);
+        }
+      };
+      request.promise.then(cleanup, cleanup);
+      // 모두 취소한 요청에는 새 호출이 합류하지 않도록 바로 제거
+      controller.signal.addEventListener("abort", cleanup);
+      inflight.set(key, request);
+      shared = request;
+    }
+    return subscribe(shared, config);
+  };
+}
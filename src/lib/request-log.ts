@@ -0,0 +1,350 @@
+/**
+ * ============================================================================
+ * 레이어: 요청 로그 (Request Log Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (인터셉터), navigator.sendBeacon
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 클라이언트마다 연결
+ *   - 추적 컨텍스트 (src/lib/trace-context.ts): X-Request-Id / traceparent 생성
+ *   - 로그 수집 API (src/app/api/logs/route.ts): beacon sink가 모아서 전송
+ *   - 프로바이더 레이어 (src/app/providers.tsx): startRequestLog로 sink 설정
+ * 
+ * 역할:
+ * - 요청마다 X-Request-Id와 W3C traceparent 헤더를 붙임
+ *   (401 refresh 후 재요청은 같은 X-Request-Id, 같은 trace의 새 span)
+ * - 응답/실패마다 메서드, URL, apiName, 상태 코드, 소요 시간, 재시도 횟수를 구조화된 로그로 기록
+ * - Authorization / Cookie / 시스템별 토큰 헤더 등 민감한 헤더는 값 대신 [REDACTED]로 기록
+ * - 기록은 설정된 sink(콘솔, 메모리 링 버퍼, 로그 수집 API beacon)로 전달
+ * 
+ * 사용 방법:
+ * ```typescript
+ * // 앱 시작 시 sink 설정 (반환값: 중지 함수)
+ * const stop = startRequestLog([createConsoleSink(), requestLogBuffer, createBeaconSink()]);
+ * 
+ * // 최근 로그 조회
+ * requestLogBuffer.entries().filter((entry) => entry.status === 500);
+ * 
+ * // 로그 끄기 (요청별)
+ * hqApi.get("/summary", { requestLog: false });
+ * ```
+ */
+
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from "axios";
+import {
+  createRequestId,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER
+} from "@/lib/trace-context";
+import { API_TOKEN_HEADERS } from "@/lib/api-audience";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // false면 요청 로그를 남기지 않음 (X-Request-Id / traceparent도 붙이지 않음)
+    requestLog?: boolean;
+  }
+}
+
+export type RequestLogOutcome = "success" | "error" | "canceled";
+
+// 요청이 토큰 refresh를 기다린 경우 (expiring: 만료 임박 사전 refresh, unauthorized: 401 후 refresh)
+export type RefreshWait = {
+  reason: "expiring" | "unauthorized";
+  durationMs: number;
+};
+
+// 인증 인터셉터(lib/axios.ts)가 refresh를 기다린 요청에 기록하는 값
+export type RefreshWaitConfig = { _refreshWait?: RefreshWait };
+
+export type RequestLogEntry = {
+  requestId: string;
+  traceId: string;
+  spanId: string;
+  apiName: string;
+  method: string;
+  url: string;
+  // 응답이 없으면(타임아웃, 네트워크 오류, 취소) null
+  status: number | null;
+  outcome: RequestLogOutcome;
+  // axios 에러 코드 (예: ECONNABORTED, ERR_NETWORK)
+  errorCode: string | null;
+  durationMs: number;
+  retryCount: number;
+  // 401 → refresh 후 다시 보낸 요청이면 true
+  afterRefresh: boolean;
+  // 보내기 전에 토큰 refresh를 기다렸으면 사유와 대기 시간
+  refreshWait: RefreshWait | null;
+  // 민감한 값이 가려진 요청 헤더
+  headers: Record<string, string>;
+  startedAt: string;
+};
+
+export type RequestLogSink = {
+  name: string;
+  // config: 실제로 보낸 요청 설정 (본문 등 로그 항목에 넣지 않는 값이 필요한 sink용, 예: 재전송)
+  write: (entry: RequestLogEntry, config: InternalAxiosRequestConfig) => void;
+  // 모아둔 로그 즉시 전송 / 정리 (중지 시 호출)
+  dispose?: () => void;
+};
+
+// 값을 기록하지 않는 헤더 (소문자, BFF의 시스템별 토큰 헤더 포함)
+const REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  ...Object.values(API_TOKEN_HEADERS).map((header) => header.toLowerCase())
+];
+const REDACTED = "[REDACTED]";
+
+/**
+ * 민감한 헤더 가리기 (Authorization은 인증 방식만 남김: "Bearer [REDACTED]")
+ */
+export function redactHeaders(headers: Record<string, unknown>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value === undefined || value === null || typeof value === "function") {
+      return;
+    }
+    const text = String(value);
+    if (!REDACTED_HEADERS.includes(name.toLowerCase())) {
+      redacted[name] = text;
+      return;
+    }
+    const scheme = name.toLowerCase().endsWith("authorization") ? text.split(" ")[0] : "";
+    redacted[name] = scheme && scheme !== text ? `${scheme} ${REDACTED}` : REDACTED;
+  });
+  return redacted;
+}
+
+/**
+ * 콘솔 sink (5xx/응답 없음: error, 4xx: warn, 나머지: info)
+ */
+export function createConsoleSink(): RequestLogSink {
+  return {
+    name: "console",
+    write: (entry) => {
+      const result = entry.status ?? entry.errorCode ?? entry.outcome;
+      const retries = entry.retryCount > 0 ? `, 재시도 ${entry.retryCount}회` : "";
+      const message = `[${entry.apiName}] ${entry.method} ${entry.url} → ${result} (${entry.durationMs}ms${retries})`;
+      if (entry.outcome === "canceled") {
+        console.info(message, entry.requestId);
+      } else if (entry.status === null || entry.status >= 500) {
+        console.error(message, entry.requestId);
+      } else if (entry.status >= 400) {
+        console.warn(message, entry.requestId);
+      } else {
+        console.info(message, entry.requestId);
+      }
+    }
+  };
+}
+
+export type RingBufferSink = RequestLogSink & {
+  // 오래된 순서
+  entries: () => RequestLogEntry[];
+  clear: () => void;
+};
+
+/**
+ * 메모리 링 버퍼 sink (최근 capacity개만 보관)
+ */
+export function createRingBufferSink(capacity = 200): RingBufferSink {
+  let buffer: RequestLogEntry[] = [];
+  return {
+    name: "ring-buffer",
+    write: (entry) => {
+      buffer = [...buffer.slice(Math.max(0, buffer.length - capacity + 1)), entry];
+    },
+    entries: () => buffer,
+    clear: () => {
+      buffer = [];
+    }
+  };
+}
+
+// 앱 전체에서 공유하는 링 버퍼 (최근 요청 조회용)
+export const requestLogBuffer = createRingBufferSink();
+
+type BeaconSinkOptions = {
+  // 로그 수집 API (기본: /api/logs)
+  url?: string;
+  // 이만큼 모이면 바로 전송
+  batchSize?: number;
+  // 모인 로그 전송 주기
+  flushIntervalMs?: number;
+};
+
+/**
+ * 로그 수집 API로 모아서 보내는 sink
+ * 
+ * navigator.sendBeacon을 사용해 페이지를 떠날 때(pagehide, 탭 숨김)도 전송되고,
+ * 지원하지 않으면 fetch(keepalive)로 보냅니다.
+ * 수집 요청은 axios 클라이언트를 거치지 않으므로 다시 로그로 남지 않습니다.
+ */
+export function createBeaconSink({
+  url = "/api/logs",
+  batchSize = 20,
+  flushIntervalMs = 5000
+}: BeaconSinkOptions = {}): RequestLogSink {
+  let pending: RequestLogEntry[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) {
+      return;
+    }
+    const body = JSON.stringify({ entries: pending });
+    pending = [];
+    const sent =
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function" &&
+      navigator.sendBeacon(url, new Blob([body], { type: "application/json" }));
+    if (!sent && typeof fetch === "function") {
+      void fetch(url, {
+        method: "POST",
+        body,
+        keepalive: true,
+        headers: { "Content-Type": "application/json" }
+      }).catch(() => undefined);
+    }
+  };
+
+  const onHidden = () => {
+    if (document.visibilityState === "hidden") {
+      flush();
+    }
+  };
+
+  const timer = setInterval(flush, flushIntervalMs);
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onHidden);
+  }
+
+  return {
+    name: "beacon",
+    write: (entry) => {
+      pending.push(entry);
+      if (pending.length >= batchSize) {
+        flush();
+      }
+    },
+    dispose: () => {
+      clearInterval(timer);
+      if (typeof window !== "undefined") {
+        window.removeEventListener("pagehide", flush);
+        document.removeEventListener("visibilitychange", onHidden);
+      }
+      flush();
+    }
+  };
+}
+
+const DEFAULT_SINKS: RequestLogSink[] = [createConsoleSink(), requestLogBuffer];
+
+let sinks = DEFAULT_SINKS;
+
+/**
+ * 로그 sink 설정
+ * @returns 중지 함수 (sink 정리 후 기본 sink로 되돌림)
+ */
+export function startRequestLog(nextSinks: RequestLogSink[]) {
+  sinks = nextSinks;
+  return () => {
+    nextSinks.forEach((sink) => sink.dispose?.());
+    if (sinks === nextSinks) {
+      sinks = DEFAULT_SINKS;
+    }
+  };
+}
+
+function writeEntry(entry: RequestLogEntry, config: InternalAxiosRequestConfig) {
+  sinks.forEach((sink) => {
+    try {
+      sink.write(entry, config);
+    } catch (error) {
+      // sink 실패가 요청 결과에 영향을 주지 않도록 무시
+      console.error(`[request-log] ${sink.name} sink 실패`, error);
+    }
+  });
+}
+
+type LoggedConfig = InternalAxiosRequestConfig &
+  RefreshWaitConfig & {
+    _logStartedAt?: number;
+    // 401 처리 인터셉터가 붙이는 재요청 표시 (lib/axios.ts)
+    _retry?: boolean;
+  };
+
+/**
+ * 클라이언트에 요청 로그 연결
+ * 
+ * 인터셉터 실행 순서상 attachInterceptors보다 먼저 연결해야
+ * - 요청: 인증 인터셉터 다음에 실행 (실제로 보낸 Authorization을 가려서 기록)
+ * - 응답: 401 처리보다 먼저 실행 (401 응답과 refresh 후 재요청이 각각 기록됨)
+ */
+export function attachRequestLogging(instance: AxiosInstance, apiName: string) {
+  instance.interceptors.request.use((config: LoggedConfig) => {
+    if (config.requestLog === false) {
+      return config;
+    }
+    // 401 refresh 후 재요청은 같은 요청 ID, 같은 trace의 새 span
+    const requestId = config.headers.get(REQUEST_ID_HEADER) || createRequestId();
+    const parent = parseTraceparent(config.headers.get(TRACEPARENT_HEADER) as string | null);
+    config.headers.set(REQUEST_ID_HEADER, requestId);
+    config.headers.set(TRACEPARENT_HEADER, formatTraceparent(createTraceContext(parent?.traceId)));
+    config._logStartedAt = Date.now();
+    return config;
+  });
+
+  const record = (
+    config: LoggedConfig | undefined,
+    status: number | null,
+    outcome: RequestLogOutcome,
+    errorCode: string | null = null
+  ) => {
+    if (!config || config._logStartedAt === undefined) {
+      return;
+    }
+    const trace = parseTraceparent(config.headers.get(TRACEPARENT_HEADER) as string | null);
+    const entry: RequestLogEntry = {
+      requestId: String(config.headers.get(REQUEST_ID_HEADER)),
+      traceId: trace?.traceId ?? "",
+      spanId: trace?.spanId ?? "",
+      apiName,
+      method: (config.method ?? "get").toUpperCase(),
+      url: axios.getUri(config),
+      status,
+      outcome,
+      errorCode,
+      durationMs: Date.now() - config._logStartedAt,
+      retryCount: config.retryCount ?? 0,
+      afterRefresh: config._retry === true,
+      refreshWait: config._refreshWait ?? null,
+      headers: redactHeaders(config.headers.toJSON()),
+      startedAt: new Date(config._logStartedAt).toISOString()
+    };
+    writeEntry(entry, config);
+  };
+
+  instance.interceptors.response.use(
+    (response) => {
+      record(response.config, response.status, "success");
+      return response;
+    },
+    (error) => {
+      if (axios.isAxiosError(error)) {
+        record(
+          error.config,
+          error.response?.status ?? null,
+          axios.isCancel(error) ? "canceled" : "error",
+          error.code ?? null
+        );
+      }
+      return Promise.reject(error);
+    }
+  );
+}
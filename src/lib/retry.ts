@@ -0,0 +1,182 @@
+/**
+ * ============================================================================
+ * 레이어: 재시도 정책 (Retry Policy Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: axios (adapter)
+ * 🔗 연결 레이어:
+ *   - 통합 API 클라이언트 (src/lib/axios.ts): createApiClient에서 클라이언트별 정책으로 연결
+ * 
+ * 역할:
+ * - 일시적인 실패(5xx, 429, 타임아웃, 네트워크 오류)를 지수 백오프로 자동 재시도
+ * - Retry-After 응답 헤더 존중
+ * - 기본적으로 멱등(idempotent) 메서드만 재시도 (POST/PATCH는 중복 처리 위험)
+ * 
+ * 동작 위치:
+ * - 인터셉터가 아니라 adapter를 감싸서 재시도합니다.
+ *   요청 인터셉터(Authorization 헤더)는 한 번만 실행되고,
+ *   응답 인터셉터(401 refresh, 전역 에러 처리)는 최종 결과만 받습니다.
+ * 
+ * 정책 우선순위: 요청별 config.retry > 클라이언트 정책 > DEFAULT_RETRY_POLICY
+ */
+
+import axios, { AxiosError, type AxiosAdapter, type InternalAxiosRequestConfig } from "axios";
+
+export type RetryPolicy = {
+  // 최대 시도 횟수 (첫 요청 포함, 1이면 재시도 없음)
+  maxAttempts: number;
+  // 첫 재시도 대기 시간 (이후 2배씩 증가)
+  baseDelayMs: number;
+  // 대기 시간 상한 (Retry-After 포함)
+  maxDelayMs: number;
+  // true면 0 ~ 계산된 대기 시간 사이의 무작위 값 사용 (full jitter)
+  jitter: boolean;
+  // 재시도할 HTTP 상태 코드
+  retryableStatuses: number[];
+  // 재시도할 HTTP 메서드 (소문자)
+  retryableMethods: string[];
+  // 타임아웃/네트워크 오류(응답 없음) 재시도 여부
+  retryOnNetworkError: boolean;
+  // Retry-After 헤더가 있으면 그 시간만큼 대기
+  respectRetryAfter: boolean;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableMethods: ["get", "head", "options", "put", "delete"],
+  retryOnNetworkError: true,
+  respectRetryAfter: true
+};
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /**
+     * 요청별 재시도 정책 (false면 재시도 안 함)
+     * 예: hqApi.post("/x", body, { retry: { retryableMethods: ["post"] } })
+     */
+    retry?: Partial<RetryPolicy> | false;
+    // 실제로 수행된 재시도 횟수 (adapter가 기록, 읽기 전용으로 사용)
+    retryCount?: number;
+  }
+}
+
+/**
+ * 재시도 가능한 실패인지 판단
+ */
+function isRetryable(error: unknown, config: InternalAxiosRequestConfig, policy: RetryPolicy) {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+
+  const method = (config.method ?? "get").toLowerCase();
+  if (!policy.retryableMethods.includes(method)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    // 응답이 없으면 타임아웃 또는 네트워크 오류
+    return policy.retryOnNetworkError;
+  }
+  return policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Retry-After 헤더 파싱 (초 단위 숫자 또는 HTTP 날짜)
+ */
+function parseRetryAfter(error: AxiosError): number | null {
+  const header = error.response?.headers?.["retry-after"];
+  if (typeof header !== "string") {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * n번째 재시도 전 대기 시간 계산 (지수 백오프 + jitter, Retry-After 우선)
+ */
+export function getRetryDelay(retryCount: number, error: AxiosError, policy: RetryPolicy) {
+  const retryAfter = policy.respectRetryAfter ? parseRetryAfter(error) : null;
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, policy.maxDelayMs);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryCount - 1));
+  return policy.jitter ? Math.random() * exponential : exponential;
+}
+
+/**
+ * 대기 (요청이 취소되면 즉시 중단)
+ */
+function wait(ms: number, signal?: InternalAxiosRequestConfig["signal"]) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    // 정상 종료 시 리스너 제거 (오래 사는 signal에 리스너가 쌓이지 않도록)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 재시도 adapter 생성
+ * 
+ * @param adapter - 실제 요청을 보내는 adapter (axios 기본 adapter)
+ * @param apiName - API 이름 (로그용)
+ * @param clientPolicy - 클라이언트 기본 정책 (false면 이 클라이언트는 재시도 안 함)
+ */
+export function createRetryAdapter(
+  adapter: AxiosAdapter,
+  apiName: string,
+  clientPolicy: Partial<RetryPolicy> | false = {}
+): AxiosAdapter {
+  return async (config) => {
+    if (config.retry === false || (clientPolicy === false && !config.retry)) {
+      return adapter(config);
+    }
+    const policy: RetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...(clientPolicy || {}),
+      ...(config.retry || {})
+    };
+
+    let retryCount = 0;
+    config.retryCount = retryCount;
+    for (;;) {
+      try {
+        return await adapter(config);
+      } catch (error) {
+        const attempt = retryCount + 1;
+        if (attempt >= policy.maxAttempts || !isRetryable(error, config, policy)) {
+          throw error;
+        }
+
+        retryCount = attempt;
+        config.retryCount = retryCount;
+        const delay = getRetryDelay(attempt, error as AxiosError, policy);
+        console.info(
+          `[${apiName}] 재시도 ${attempt}/${policy.maxAttempts - 1} (${Math.round(delay)}ms 후)`,
+          config.url
+        );
+        await wait(delay, config.signal);
+      }
+    }
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * 레이어: 추적 컨텍스트 (Trace Context Layer)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: 없음 (Web Crypto, 브라우저/Node/Edge 공통)
+ * 🔗 연결 레이어:
+ *   - 요청 로그 (src/lib/request-log.ts): 요청마다 X-Request-Id / traceparent 생성
+ *   - 미들웨어 (src/middleware.ts): 받은 헤더를 검증하고 없으면 생성해서 route handler로 전달
+ * 
+ * 역할:
+ * - W3C Trace Context traceparent 헤더 생성/파싱 ("00-<trace-id>-<parent-id>-<flags>")
+ * - 요청 ID(X-Request-Id) 생성
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const parent = parseTraceparent(headers.get("traceparent"));
+ * const context = createTraceContext(parent?.traceId); // 같은 trace 안의 새 span
+ * headers.set("traceparent", formatTraceparent(context));
+ * ```
+ */
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+export const TRACEPARENT_HEADER = "traceparent";
+
+export type TraceContext = {
+  // 32자리 16진수 (요청 흐름 전체에서 같은 값)
+  traceId: string;
+  // 16자리 16진수 (이 요청/구간의 ID)
+  spanId: string;
+  // true면 샘플링 대상 (flags 01)
+  sampled: boolean;
+};
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function randomHex(bytes: number) {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 요청 ID 생성 (UUID v4)
+ */
+export function createRequestId() {
+  return crypto.randomUUID();
+}
+
+/**
+ * 새 추적 컨텍스트 (traceId를 주면 같은 trace 안의 새 span)
+ */
+export function createTraceContext(traceId?: string): TraceContext {
+  return { traceId: traceId ?? randomHex(16), spanId: randomHex(8), sampled: true };
+}
+
+/**
+ * traceparent 헤더 파싱 (형식이 틀리거나 ID가 모두 0이면 null → 새로 생성)
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1
+  };
+}
+
+export function formatTraceparent({ traceId, spanId, sampled }: TraceContext) {
+  return `00-${traceId}-${spanId}-${sampled ? "01" : "00"}`;
+}
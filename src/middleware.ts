@@ -0,0 +1,48 @@
+/**
+ * 레이어: 서버 미들웨어 (Server Middleware Layer)
+ * 
+ * 사용 라이브러리: Next.js Middleware (Edge Runtime)
+ * 
+ * 역할:
+ * - 모든 API 요청에 X-Request-Id와 W3C traceparent를 보장
+ *   - 클라이언트가 보낸 값이 있으면 그대로 사용 (traceparent는 형식이 맞을 때만)
+ *   - 없으면 새로 생성
+ * - 확정된 값을 요청 헤더로 route handler에 전달 (server/request-context.ts에서 조회)
+ * - 응답에 X-Request-Id를 되돌려줌 (클라이언트 로그와 서버 로그 연결용)
+ * 
+ * 아키텍처:
+ *   요청 로그 인터셉터 (lib/request-log.ts) -> 미들웨어 (middleware.ts) <- 여기 -> 서버 API 레이어 (app/api)
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  createRequestId,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER
+} from "@/lib/trace-context";
+
+// 클라이언트가 보낸 요청 ID 최대 길이 (로그 오염 방지)
+const MAX_REQUEST_ID_LENGTH = 128;
+
+export function middleware(request: NextRequest) {
+  const received = request.headers.get(REQUEST_ID_HEADER)?.trim();
+  const requestId =
+    received && received.length <= MAX_REQUEST_ID_LENGTH ? received : createRequestId();
+  const trace =
+    parseTraceparent(request.headers.get(TRACEPARENT_HEADER)) ?? createTraceContext();
+
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  headers.set(TRACEPARENT_HEADER, formatTraceparent(trace));
+
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export const config = {
+  matcher: "/api/:path*"
+};
@@ -0,0 +1,181 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: axios, Next.js (next/headers), Zod (토큰 쿠키 파싱)
+ * 
+ * 역할:
+ * - 서버 컴포넌트(RSC)와 route handler에서 쓰는 API 클라이언트 (createApiClient의 서버용)
+ *   - 토큰: 요청의 Authorization 헤더(이 시스템 audience의 JWT일 때) → 시스템별 토큰 헤더(BFF 요청, X-Hq-Erp-Token 등)
+ *     → 토큰 쿠키(auth-tokens) 순으로 조회
+ *     (토큰 쿠키는 NEXT_PUBLIC_TOKEN_STORAGE=cookie일 때만 있음, src/store/persistence.ts)
+ *   - base URL: API_ORIGIN 환경 변수 또는 고정 loopback 주소(http://127.0.0.1:PORT)
+ *     (요청의 Host / X-Forwarded-Host는 클라이언트가 조작할 수 있으므로 사용하지 않음:
+ *      다른 호스트로 요청을 보내게 하면 사용자의 access token이 그 호스트로 전달됨)
+ *   - 요청 ID: 들어온 요청의 X-Request-Id를 그대로 전달하고, traceparent는 같은 trace의 새 span으로 전달
+ *   - 실패: ApiError로 reject만 함 (에러 버스 발행, /error·로그인 화면 리다이렉트 모두 하지 않음)
+ * - 브라우저 클라이언트와 달리 Zustand 스토어, 401 refresh, 재시도/캐시/오프라인 큐/서킷 브레이커가 없음
+ *   - 서버에서 refresh token을 회전시키면 브라우저가 가진 refresh token이 무효화되므로 401은 그대로 실패시키고,
+ *     hydrate 후 브라우저 클라이언트가 refresh해서 다시 불러옵니다.
+ * 
+ * 사용 방법:
+ * ```typescript
+ * // 서버 컴포넌트: 레지스트리를 서버 클라이언트에 연결해 prefetch → HydrationBoundary로 전달
+ * const queryClient = new QueryClient();
+ * await queryClient.prefetchQuery(withVendorClients(createServerApiClients()).queries.orders({ query }));
+ * return <HydrationBoundary state={dehydrate(queryClient)}>...</HydrationBoundary>;
+ * 
+ * // route handler
+ * const { data } = await createServerApiClient("hqErp").get("/summary");
+ * ```
+ */
+
+import axios from "axios";
+import { cookies, headers } from "next/headers";
+import { z } from "zod";
+import { API_AUDIENCES, API_TOKEN_HEADERS } from "@/lib/api-audience";
+import { toApiError } from "@/lib/api-error";
+import { API_BASES, API_NAMES } from "@/lib/api-systems";
+import type { ApiClients } from "@/lib/endpoint";
+import { decodeJwtPayload } from "@/lib/jwt";
+import {
+  createRequestId,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER
+} from "@/lib/trace-context";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+import { AUTH_STORAGE_KEY } from "@/store/persistence";
+
+export type ServerApiClientOptions = {
+  // 직접 지정한 access token (생략 시 요청 헤더/쿠키에서 조회, null이면 Authorization 없이 요청)
+  accessToken?: string | null;
+  // API origin (생략 시 API_ORIGIN 환경 변수 → http://127.0.0.1:PORT)
+  origin?: string;
+  timeout?: number;
+};
+
+// 들어온 요청에서 읽은 값 (요청 범위 밖이면 모두 null)
+type IncomingRequest = {
+  headers: Headers | null;
+  tokenCookie: string | null;
+  requestId: string;
+  traceId: string | undefined;
+};
+
+// Zustand persist가 저장한 토큰 쿠키 형식 ({ state: { tokens: { [system]: { accessToken } } } })
+const persistedTokens = z.object({
+  state: z.object({
+    tokens: z.record(z.object({ accessToken: z.string().nullable().optional() }))
+  })
+});
+
+function readIncomingRequest(): IncomingRequest {
+  let requestHeaders: Headers | null = null;
+  let tokenCookie: string | null = null;
+  try {
+    requestHeaders = headers();
+    tokenCookie = cookies().get(AUTH_STORAGE_KEY)?.value ?? null;
+  } catch {
+    // 요청 범위 밖 (빌드 시점 등)
+  }
+  return {
+    headers: requestHeaders,
+    tokenCookie,
+    requestId: requestHeaders?.get(REQUEST_ID_HEADER) ?? createRequestId(),
+    traceId: parseTraceparent(requestHeaders?.get(TRACEPARENT_HEADER))?.traceId
+  };
+}
+
+/**
+ * API origin (서버 설정으로만 결정, 요청 헤더는 사용하지 않음)
+ */
+function resolveOrigin() {
+  if (process.env.API_ORIGIN) {
+    return process.env.API_ORIGIN.replace(/\/$/, "");
+  }
+  return `http://127.0.0.1:${process.env.PORT ?? 3000}`;
+}
+
+/**
+ * Authorization 헤더의 토큰이 이 시스템용이면 사용
+ * (서명은 받는 API가 검증하므로 여기서는 aud만 확인해 다른 시스템으로 토큰이 새지 않게 함)
+ */
+function readBearerToken(system: ApiSystem, requestHeaders: Headers | null) {
+  const match = /^Bearer\s+(\S+)$/i.exec(requestHeaders?.get("authorization")?.trim() ?? "");
+  const aud = match ? decodeJwtPayload(match[1])?.aud : undefined;
+  const audiences = Array.isArray(aud) ? aud : [aud];
+  return match && audiences.includes(API_AUDIENCES[system]) ? match[1] : null;
+}
+
+function readCookieToken(system: ApiSystem, tokenCookie: string | null) {
+  if (!tokenCookie) {
+    return null;
+  }
+  try {
+    const parsed = persistedTokens.safeParse(JSON.parse(tokenCookie));
+    return parsed.success ? (parsed.data.state.tokens[system]?.accessToken ?? null) : null;
+  } catch {
+    return null;
+  }
+}
+
+function createClient(system: ApiSystem, incoming: IncomingRequest, options: ServerApiClientOptions) {
+  const apiName = API_NAMES[system];
+  const accessToken =
+    options.accessToken !== undefined
+      ? options.accessToken
+      : (readBearerToken(system, incoming.headers) ??
+        incoming.headers?.get(API_TOKEN_HEADERS[system]) ??
+        readCookieToken(system, incoming.tokenCookie));
+
+  const instance = axios.create({
+    baseURL: `${options.origin ?? resolveOrigin()}${API_BASES[system]}`,
+    timeout: options.timeout ?? 5000
+  });
+
+  instance.interceptors.request.use((config) => {
+    config.headers.set(REQUEST_ID_HEADER, incoming.requestId);
+    config.headers.set(TRACEPARENT_HEADER, formatTraceparent(createTraceContext(incoming.traceId)));
+    if (accessToken) {
+      config.headers.set("Authorization", `Bearer ${accessToken}`);
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      const apiError = toApiError(error, apiName);
+      console.warn(`[${apiName}] 서버 요청 실패 (${apiError.kind})`, apiError.url, incoming.requestId);
+      return Promise.reject(apiError);
+    }
+  );
+  return instance;
+}
+
+/**
+ * 서버용 API 클라이언트 생성
+ * 
+ * 요청마다(서버 컴포넌트 렌더링, route handler 호출마다) 새로 만들어야 합니다.
+ * 모듈 최상위에서 만들면 다른 사용자의 토큰이 섞입니다.
+ * 
+ * @param system - API 시스템 (base URL과 토큰 결정)
+ */
+export function createServerApiClient(system: ApiSystem, options: ServerApiClientOptions = {}) {
+  return createClient(system, readIncomingRequest(), options);
+}
+
+/**
+ * 모든 API 시스템의 서버용 클라이언트 (레지스트리의 withClients에 전달)
+ * 같은 요청에서 만든 클라이언트는 같은 X-Request-Id를 전달합니다.
+ */
+export function createServerApiClients(
+  options: Omit<ServerApiClientOptions, "accessToken"> = {}
+): ApiClients {
+  const incoming = readIncomingRequest();
+  return Object.fromEntries(
+    API_SYSTEMS.map((system) => [system, createClient(system, incoming, options)])
+  ) as ApiClients;
+}
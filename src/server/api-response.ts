@@ -0,0 +1,61 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - 모든 route handler가 같은 형식(ApiErrorEnvelope)으로 에러를 응답하도록 하는 헬퍼
+ * - traceId는 요청의 W3C trace-id (클라이언트 요청 로그의 traceId와 같은 값)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * return apiErrorResponse(404, "NOT_FOUND", "HQ ERP not found");
+ * return apiErrorResponse(422, "VALIDATION_FAILED", "Invalid order", {
+ *   fieldErrors: { quantity: ["must be positive"] }
+ * });
+ * 
+ * // Zod 검증 실패 → 422 + fieldErrors
+ * const parsed = schema.safeParse(body);
+ * if (!parsed.success) return validationErrorResponse(parsed.error, "Invalid order");
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import type { ZodError } from "zod";
+import type { ApiErrorEnvelope } from "@/lib/api-error";
+import { getRequestContext } from "@/server/request-context";
+
+type ApiErrorResponseOptions = {
+  details?: unknown;
+  fieldErrors?: Record<string, string[]>;
+  headers?: HeadersInit;
+};
+
+/**
+ * 에러 응답 생성
+ * 
+ * @param status - HTTP 상태 코드
+ * @param code - 기계가 읽는 에러 코드 (예: "NOT_FOUND")
+ * @param message - 사람이 읽는 메시지
+ */
+export function apiErrorResponse(
+  status: number,
+  code: string,
+  message: string,
+  { details, fieldErrors, headers }: ApiErrorResponseOptions = {}
+) {
+  const { traceId } = getRequestContext();
+  const body: ApiErrorEnvelope = { code, message, details, fieldErrors, traceId };
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Zod 검증 실패 응답 (422, 필드별 메시지는 fieldErrors, 필드가 아닌 에러는 details)
+ */
+export function validationErrorResponse(error: ZodError, message = "Validation failed") {
+  const { formErrors, fieldErrors } = error.flatten();
+  return apiErrorResponse(422, "VALIDATION_FAILED", message, {
+    details: formErrors.length > 0 ? { formErrors } : undefined,
+    fieldErrors: fieldErrors as Record<string, string[]>
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js API Routes, Node.js crypto (src/server/jwt.ts)
+ * 
+ * 역할:
+ * - 보호된 route handler를 감싸 Bearer access token을 검증하는 래퍼 (withAuth)
+ *   1. Authorization: Bearer 헤더 확인
+ *   2. 서명(HS256)과 만료 시각(exp) 검증
+ *   3. aud 클레임에 API 시스템의 audience가 있는지 확인 (src/lib/api-audience.ts)
+ *   4. scope 클레임에 handler가 요구하는 scope가 모두 있는지 확인 (src/server/roles.ts)
+ * - 1~3 실패는 401, 4 실패는 403 + WWW-Authenticate 헤더 (RFC 6750)로 응답하고 handler를 호출하지 않음
+ * - 성공하면 디코딩한 클레임을 handler에 전달
+ * 
+ * 에러 코드 (details.reason):
+ * - TOKEN_MISSING (missing): Authorization 헤더 없음
+ * - TOKEN_INVALID (invalid): JWT 형식이 아니거나 서명 불일치 (데모의 "expired" 토큰 포함)
+ * - TOKEN_EXPIRED (expired): 만료된 토큰
+ * - TOKEN_AUDIENCE (audience): 다른 API 시스템용으로 발급된 토큰
+ * - INSUFFICIENT_SCOPE (insufficient_scope, 403): scope 부족
+ *   details: { requiredScopes, missingScopes, grantedScopes }
+ * 
+ * Next.js middleware가 아닌 handler 래퍼인 이유:
+ * - middleware는 Edge 런타임이라 Node.js crypto를 쓰는 jwt.ts를 공유할 수 없고,
+ *   검증한 클레임을 handler에 넘길 방법도 헤더뿐입니다.
+ * 
+ * 사용 방법:
+ * ```typescript
+ * export const GET = withAuth({ audience: API_AUDIENCES.hqErp }, async (request, { claims }) => {
+ *   return NextResponse.json({ userId: claims.sub });
+ * });
+ * 
+ * // scope 요구 (모두 있어야 통과)
+ * export const POST = withAuth({ ...AUTH, scopes: ["vendor:orders:write"] }, handler);
+ * 
+ * // 동적 라우트: Next.js가 넘기는 context(params)에 claims가 더해짐
+ * export const PATCH = withAuth<RouteContext>(AUTH, async (request, { params, claims }) => ...);
+ * ```
+ */
+
+import { apiErrorResponse } from "@/server/api-response";
+import { verifyJwt, type JwtClaims } from "@/server/jwt";
+import type { ApiScope, Role } from "@/server/roles";
+
+export type AuthOptions = {
+  // 이 handler가 요구하는 audience (aud 클레임에 포함되어야 함)
+  audience: string;
+  // 이 handler가 요구하는 scope (모두 있어야 함)
+  scopes?: ApiScope[];
+};
+
+export type AccessTokenClaims = JwtClaims & {
+  aud?: string | string[];
+  roles?: Role[];
+  // 공백으로 구분한 scope 목록 (RFC 8693)
+  scope?: string;
+};
+
+export type AuthFailureReason = "missing" | "invalid" | "expired" | "audience";
+
+export type AuthResult =
+  | { ok: true; claims: AccessTokenClaims }
+  | { ok: false; reason: AuthFailureReason };
+
+type AuthenticatedHandler<TContext> = (
+  request: Request,
+  context: TContext & { claims: AccessTokenClaims }
+) => Response | Promise<Response>;
+
+// RFC 6750 error_description
+const FAILURE_DESCRIPTIONS: Record<AuthFailureReason, string> = {
+  missing: "Access token is required",
+  invalid: "Access token is malformed or has an invalid signature",
+  expired: "Access token expired",
+  audience: "Access token is not issued for this API"
+};
+
+/**
+ * 요청의 Bearer access token 검증
+ */
+export function authenticateRequest(request: Request, { audience }: AuthOptions): AuthResult {
+  const authHeader = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(authHeader.trim());
+  if (!match) {
+    return { ok: false, reason: "missing" };
+  }
+
+  const result = verifyJwt(match[1]);
+  if (!result.ok) {
+    return { ok: false, reason: result.reason === "expired" ? "expired" : "invalid" };
+  }
+
+  const claims = result.claims as AccessTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(audience)) {
+    return { ok: false, reason: "audience" };
+  }
+  return { ok: true, claims };
+}
+
+/**
+ * 토큰에 없는 scope 목록
+ */
+export function missingScopes(claims: AccessTokenClaims, required: ApiScope[] = []) {
+  const granted = (claims.scope ?? "").split(" ");
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * 인증 실패 응답 (401 + WWW-Authenticate)
+ * 
+ * 토큰이 없으면 error 속성 없이 challenge만 보냅니다 (RFC 6750 3.1).
+ */
+export function unauthorizedResponse(reason: AuthFailureReason, { audience }: AuthOptions) {
+  const description = FAILURE_DESCRIPTIONS[reason];
+  const challenge =
+    reason === "missing"
+      ? `Bearer realm="${audience}"`
+      : `Bearer realm="${audience}", error="invalid_token", error_description="${description}"`;
+
+  return apiErrorResponse(401, `TOKEN_${reason.toUpperCase()}`, description, {
+    details: { reason, audience },
+    headers: { "WWW-Authenticate": challenge }
+  });
+}
+
+/**
+ * 권한 부족 응답 (403 + WWW-Authenticate error="insufficient_scope")
+ * 
+ * 클라이언트는 details.missingScopes로 부족한 scope를 확인합니다 (refresh 대상이 아님).
+ */
+export function forbiddenResponse(
+  claims: AccessTokenClaims,
+  missing: ApiScope[],
+  { audience, scopes = [] }: AuthOptions
+) {
+  const challenge = `Bearer realm="${audience}", error="insufficient_scope", scope="${scopes.join(" ")}"`;
+
+  return apiErrorResponse(403, "INSUFFICIENT_SCOPE", `Missing scope: ${missing.join(", ")}`, {
+    details: {
+      reason: "insufficient_scope",
+      requiredScopes: scopes,
+      missingScopes: missing,
+      grantedScopes: (claims.scope ?? "").split(" ").filter(Boolean)
+    },
+    headers: { "WWW-Authenticate": challenge }
+  });
+}
+
+/**
+ * 인증이 필요한 route handler 래퍼
+ * 
+ * @param options - 요구하는 audience / scope
+ * @param handler - 검증을 통과한 요청만 호출되는 handler (context.claims로 클레임 전달)
+ */
+export function withAuth<TContext = unknown>(
+  options: AuthOptions,
+  handler: AuthenticatedHandler<TContext>
+) {
+  return async (request: Request, context: TContext) => {
+    const result = authenticateRequest(request, options);
+    if (!result.ok) {
+      return unauthorizedResponse(result.reason, options);
+    }
+    const missing = missingScopes(result.claims, options.scopes);
+    if (missing.length > 0) {
+      return forbiddenResponse(result.claims, missing, options);
+    }
+    return handler(request, { ...context, claims: result.claims });
+  };
+}
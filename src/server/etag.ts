@@ -0,0 +1,102 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js API Routes, Node.js crypto
+ * 
+ * 역할:
+ * - JSON 응답에 ETag / Cache-Control 헤더를 붙임
+ * - 요청의 If-None-Match가 현재 ETag와 같으면 본문 없이 304 Not Modified 응답
+ * - 변경 요청의 If-Match가 현재 ETag와 다르면 412 (동시 수정 방지), 없으면 428
+ * 
+ * 사용 방법:
+ * ```typescript
+ * return jsonWithETag(request, { message: "HQ ERP summary ok" }, { maxAgeSeconds: 10 });
+ * 
+ * // 버전 기반 ETag + If-Match 검사
+ * const failed = checkIfMatch(request, versionETag(order.version));
+ * if (failed) return failed;
+ * ```
+ */
+
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { apiErrorResponse } from "@/server/api-response";
+
+type JsonWithETagOptions = {
+  // 클라이언트가 재검증 없이 캐시를 사용할 수 있는 시간 (0이면 매번 재검증)
+  maxAgeSeconds?: number;
+  // 본문 해시 대신 사용할 ETag (예: versionETag(order.version))
+  etag?: string;
+};
+
+/**
+ * 본문 내용으로 강한 ETag 생성 (내용이 같으면 같은 ETag)
+ */
+export function createETag(body: unknown) {
+  const hash = createHash("sha1").update(JSON.stringify(body)).digest("base64url");
+  return `"${hash}"`;
+}
+
+/**
+ * 리소스 버전으로 ETag 생성 (클라이언트는 같은 형식으로 If-Match를 보냄)
+ */
+export function versionETag(version: number) {
+  return `"${version}"`;
+}
+
+/**
+ * If-None-Match / If-Match 헤더에 현재 ETag가 포함되어 있는지 확인 ("*" 허용)
+ * 
+ * @param comparison - weak: W/ 접두사를 무시 (If-None-Match), strong: 약한 ETag는 항상 불일치 (If-Match)
+ */
+function matchesETag(header: string | null, etag: string, comparison: "weak" | "strong") {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(",")
+    .map((value) => value.trim())
+    .map((value) => (comparison === "weak" ? value.replace(/^W\//, "") : value))
+    .some((value) => value === "*" || value === etag);
+}
+
+/**
+ * ETag가 붙은 JSON 응답 (If-None-Match가 일치하면 304)
+ */
+export function jsonWithETag(
+  request: Request,
+  body: unknown,
+  { maxAgeSeconds = 0, etag = createETag(body) }: JsonWithETagOptions = {}
+) {
+  const headers = {
+    ETag: etag,
+    // 사용자별 데이터이므로 공유 캐시(CDN, 프록시)에는 저장하지 않음
+    "Cache-Control": `private, max-age=${maxAgeSeconds}`
+  };
+
+  if (matchesETag(request.headers.get("if-none-match"), etag, "weak")) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return NextResponse.json(body, { headers });
+}
+
+/**
+ * 변경 요청의 If-Match 검사
+ * 
+ * @returns 통과하면 null, 아니면 에러 응답 (없으면 428, 현재 버전과 다르면 412)
+ */
+export function checkIfMatch(request: Request, etag: string) {
+  const ifMatch = request.headers.get("if-match");
+  if (!ifMatch) {
+    return apiErrorResponse(428, "PRECONDITION_REQUIRED", "If-Match header is required");
+  }
+  if (!matchesETag(ifMatch, etag, "strong")) {
+    return apiErrorResponse(
+      412,
+      "VERSION_MISMATCH",
+      "The resource was modified by another request",
+      { details: { currentETag: etag }, headers: { ETag: etag } }
+    );
+  }
+  return null;
+}
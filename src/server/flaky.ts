@@ -0,0 +1,56 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js API Routes
+ * 
+ * 역할:
+ * - "N번 실패 후 성공" 모드로 일시적 장애를 시뮬레이션 (재시도 정책 데모용)
+ * 
+ * 사용 방법 (쿼리 파라미터):
+ * - failTimes: 실패할 횟수 (예: 2 → 2번 503 후 3번째 요청 성공)
+ * - failKey: 실패 횟수를 세는 키 (데모 버튼 클릭마다 새 키 사용)
+ * - failStatus: 실패 시 상태 코드 (기본 503)
+ * - retryAfter: 실패 응답의 Retry-After 헤더 값 (초, 선택)
+ */
+
+import type { NextResponse } from "next/server";
+import { apiErrorResponse } from "@/server/api-response";
+
+const globalForFlaky = globalThis as typeof globalThis & {
+  __demoFailureCounts?: Map<string, number>;
+};
+
+const failureCounts: Map<string, number> = (globalForFlaky.__demoFailureCounts ??= new Map());
+
+/**
+ * 실패 모드 요청이면 실패 응답을 반환하고, 아니면(또는 실패 횟수를 모두 채웠으면) null 반환
+ * 
+ * @param url - 요청 URL
+ * @param apiLabel - 실패 메시지에 표시할 API 이름
+ */
+export function simulateFlakyFailure(url: URL, apiLabel: string): NextResponse | null {
+  const failTimes = Number(url.searchParams.get("failTimes") ?? 0);
+  const failKey = url.searchParams.get("failKey");
+  if (!failTimes || !failKey) {
+    return null;
+  }
+
+  const failures = failureCounts.get(failKey) ?? 0;
+  if (failures >= failTimes) {
+    failureCounts.delete(failKey);
+    return null;
+  }
+  failureCounts.set(failKey, failures + 1);
+
+  const status = Number(url.searchParams.get("failStatus") ?? 503);
+  const retryAfter = url.searchParams.get("retryAfter");
+  return apiErrorResponse(
+    status,
+    "SERVICE_UNAVAILABLE",
+    `${apiLabel} temporarily unavailable (${failures + 1}/${failTimes})`,
+    {
+      details: { attempt: failures + 1, failTimes },
+      headers: retryAfter ? { "Retry-After": retryAfter } : undefined
+    }
+  );
+}
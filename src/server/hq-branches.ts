@@ -0,0 +1,52 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Zod (쿼리 검증)
+ * 
+ * 역할:
+ * - 본사 ERP 지점 목록 데모 데이터 (커서 페이지네이션 시연용, 읽기 전용)
+ * - 지점 ID 순서로 정렬된 목록을 커서 기준으로 잘라서 반환
+ * 
+ * 사용 위치:
+ * - src/app/api/hq-erp/branches/route.ts: 지점 목록 조회
+ */
+
+import { z } from "zod";
+import { paginateCursor } from "@/server/pagination";
+
+const REGIONS = ["서울", "경기", "부산", "대구", "광주", "대전"] as const;
+
+export const listBranchesQuery = z.object({
+  cursor: z.string().min(1).optional(),
+  size: z.coerce.number().int().min(1).max(50).default(5),
+  region: z.enum(REGIONS).optional()
+});
+
+export type ListBranchesQuery = z.infer<typeof listBranchesQuery>;
+
+export type HqBranch = {
+  id: string;
+  name: string;
+  region: (typeof REGIONS)[number];
+  openedAt: string;
+};
+
+const BRANCHES: HqBranch[] = Array.from({ length: 32 }, (_, index) => {
+  const region = REGIONS[index % REGIONS.length];
+  return {
+    id: `BR-${String(index + 1).padStart(3, "0")}`,
+    name: `${region} ${Math.floor(index / REGIONS.length) + 1}호점`,
+    region,
+    openedAt: new Date(Date.UTC(2015 + (index % 10), index % 12, 1)).toISOString()
+  };
+});
+
+/**
+ * 지점 목록 (지역 필터 → 커서 기준 자르기)
+ * 
+ * @returns 커서가 잘못되었으면 null
+ */
+export function listHqBranches({ cursor, size, region }: ListBranchesQuery) {
+  const filtered = region ? BRANCHES.filter((branch) => branch.region === region) : BRANCHES;
+  return paginateCursor(filtered, { cursor, size }, (branch) => branch.id);
+}
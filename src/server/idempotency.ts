@@ -0,0 +1,141 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js API Routes, Node.js crypto
+ * 
+ * 역할:
+ * - Idempotency-Key 헤더가 있는 변경 요청의 응답을 저장해두고,
+ *   같은 키로 다시 오면 처리하지 않고 저장된 응답을 돌려줌 (Idempotent-Replayed: true)
+ * - 저장 키와 요청 지문은 사용자(access token의 sub)별로 구분
+ *   (다른 사용자가 같은 키를 보내도 앞 사용자의 응답을 돌려주지 않음)
+ * - 같은 키를 다른 본문으로 재사용하면 422, 같은 키의 요청이 처리 중이면 409
+ * - 5xx 응답은 저장하지 않음 (클라이언트가 같은 키로 다시 시도할 수 있도록)
+ * 
+ * 사용 방법:
+ * ```typescript
+ * export const POST = withAuth(AUTH, async (request, { claims }) => {
+ *   return withIdempotency(request, claims.sub, (rawBody) => {
+ *     const order = createOrder(JSON.parse(rawBody));
+ *     return NextResponse.json(order, { status: 201 });
+ *   });
+ * });
+ * ```
+ * 
+ * 주의:
+ * - 개발 서버의 HMR 재로딩에도 상태가 유지되도록 globalThis에 저장합니다.
+ * - 실제 프로젝트에서는 Redis 등 공유 저장소에 TTL과 함께 저장해야 합니다.
+ */
+
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { apiErrorResponse } from "@/server/api-response";
+
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+// 저장된 응답 유지 시간 (데모: 1일)
+const IDEMPOTENCY_TTL_MS = 1000 * 60 * 60 * 24;
+
+type StoredResponse =
+  | { state: "processing"; fingerprint: string; expiresAt: number }
+  | {
+      state: "completed";
+      fingerprint: string;
+      expiresAt: number;
+      status: number;
+      body: unknown;
+      headers: Record<string, string>;
+    };
+
+const globalForIdempotency = globalThis as typeof globalThis & {
+  __demoIdempotencyResponses?: Map<string, StoredResponse>;
+};
+
+const responses: Map<string, StoredResponse> = (globalForIdempotency.__demoIdempotencyResponses ??=
+  new Map());
+
+function pruneExpired(now: number) {
+  responses.forEach((stored, key) => {
+    if (stored.expiresAt <= now) {
+      responses.delete(key);
+    }
+  });
+}
+
+/**
+ * 같은 키의 재요청이 같은 요청인지 확인하는 값 (사용자 + 메서드 + 경로 + 본문)
+ */
+function getFingerprint(request: Request, subject: string, rawBody: string) {
+  return createHash("sha1")
+    .update(`${subject} ${request.method} ${new URL(request.url).pathname} ${rawBody}`)
+    .digest("base64url");
+}
+
+/**
+ * Idempotency-Key 처리
+ * 
+ * @param request - 요청 (본문은 여기서 읽어서 handler에 문자열로 전달)
+ * @param subject - 인증된 사용자 (withAuth claims.sub, 저장된 응답을 이 사용자에게만 돌려줌)
+ * @param handler - 실제 처리 함수 (키가 처음이거나 없을 때만 실행)
+ */
+export async function withIdempotency(
+  request: Request,
+  subject: string,
+  handler: (rawBody: string) => NextResponse | Promise<NextResponse>
+) {
+  const rawBody = await request.text();
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (!idempotencyKey) {
+    return handler(rawBody);
+  }
+
+  const now = Date.now();
+  pruneExpired(now);
+  const key = `${subject}|${new URL(request.url).pathname}|${idempotencyKey}`;
+  const fingerprint = getFingerprint(request, subject, rawBody);
+  const stored = responses.get(key);
+
+  if (stored && stored.fingerprint !== fingerprint) {
+    return apiErrorResponse(
+      422,
+      "IDEMPOTENCY_KEY_REUSED",
+      "Idempotency-Key was already used for a different request"
+    );
+  }
+  if (stored?.state === "processing") {
+    return apiErrorResponse(
+      409,
+      "IDEMPOTENCY_KEY_IN_PROGRESS",
+      "A request with this Idempotency-Key is still being processed",
+      { headers: { "Retry-After": "1" } }
+    );
+  }
+  if (stored?.state === "completed") {
+    return NextResponse.json(stored.body, {
+      status: stored.status,
+      headers: { ...stored.headers, "Idempotent-Replayed": "true" }
+    });
+  }
+
+  responses.set(key, { state: "processing", fingerprint, expiresAt: now + IDEMPOTENCY_TTL_MS });
+  try {
+    const response = await handler(rawBody);
+    if (response.status >= 500) {
+      responses.delete(key);
+      return response;
+    }
+
+    const location = response.headers.get("location");
+    responses.set(key, {
+      state: "completed",
+      fingerprint,
+      expiresAt: now + IDEMPOTENCY_TTL_MS,
+      status: response.status,
+      body: await response.clone().json(),
+      headers: location ? { Location: location } : {}
+    });
+    return response;
+  } catch (error) {
+    responses.delete(key);
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Node.js crypto
+ * 
+ * 역할:
+ * - 데모 인증 서버의 access token을 HMAC-SHA256(HS256) JWT로 서명/검증
+ * - route handler의 토큰 검증은 src/server/auth.ts(withAuth)가 이 모듈을 사용합니다.
+ * 
+ * 설정:
+ * - JWT_SECRET: 서명 키 (production에서는 필수, 개발 환경에서만 없으면 개발용 기본 키 사용)
+ * - ACCESS_TOKEN_TTL_SECONDS: access token 유효 기간 (기본 60초, 사전 refresh를 로컬에서 확인하기 위해 짧게 설정)
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+// 공개 저장소에 있는 키이므로 production에서는 사용하지 않음
+const DEV_JWT_SECRET = "dev-only-insecure-jwt-secret";
+
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS ?? 60);
+
+export type JwtClaims = {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+};
+
+export type VerifyResult =
+  | { ok: true; claims: JwtClaims }
+  | { ok: false; reason: "malformed" | "signature" | "expired" };
+
+const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * 서명 키 조회 (처음 서명/검증할 때 확인)
+ * 
+ * 모듈 로드 시점이 아니라 사용할 때 확인하는 이유: next build도 production으로 route 모듈을 불러오므로
+ * 빌드 환경에 키가 없어도 빌드는 되고, 키 없이 실행된 서버는 토큰을 발급/검증하지 못하게 합니다.
+ */
+function getSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+  return DEV_JWT_SECRET;
+}
+
+const sign = (input: string) => createHmac("sha256", getSecret()).update(input).digest("base64url");
+
+/**
+ * JWT 서명
+ * 
+ * @param claims - 토큰에 담을 클레임 (iat/exp는 자동 설정)
+ * @param expiresInSeconds - 유효 기간 (초)
+ */
+export function signJwt(
+  claims: { sub: string; [claim: string]: unknown },
+  expiresInSeconds: number = ACCESS_TOKEN_TTL_SECONDS
+) {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = encodeSegment({ alg: "HS256", typ: "JWT" });
+  const payload = encodeSegment({ ...claims, iat, exp: iat + expiresInSeconds });
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * JWT 검증 (형식 → 서명 → 만료 순서)
+ */
+export function verifyJwt(token: string): VerifyResult {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "signature" };
+  }
+
+  let claims: JwtClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as JwtClaims;
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) {
+    return { ok: false, reason: "expired" };
+  }
+  return { ok: true, claims };
+}
@@ -0,0 +1,78 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Zod (수집 요청 검증)
+ * 
+ * 역할:
+ * - 클라이언트 요청 로그(beacon sink, lib/request-log.ts)를 받아서 최근 N개만 메모리에 보관
+ * - 받은 로그를 서버 콘솔에도 한 줄씩 출력 (서버 로그와 X-Request-Id로 연결)
+ * 
+ * 사용 위치:
+ * - src/app/api/logs/route.ts: 수집(POST), 조회(GET)
+ * 
+ * 주의:
+ * - 개발 서버의 HMR 재로딩에도 상태가 유지되도록 globalThis에 저장합니다.
+ * - 실제 프로젝트에서는 로그 수집기(OpenTelemetry Collector 등)로 전달해야 합니다.
+ */
+
+import { z } from "zod";
+
+// 보관할 최근 로그 수
+const MAX_COLLECTED_LOGS = 500;
+
+const collectedLog = z.object({
+  requestId: z.string().max(128),
+  traceId: z.string().max(64),
+  spanId: z.string().max(32),
+  apiName: z.string().max(64),
+  method: z.string().max(16),
+  url: z.string().max(2048),
+  status: z.number().int().nullable(),
+  outcome: z.enum(["success", "error", "canceled"]),
+  errorCode: z.string().max(64).nullable(),
+  durationMs: z.number().min(0),
+  retryCount: z.number().int().min(0),
+  afterRefresh: z.boolean(),
+  refreshWait: z
+    .object({ reason: z.enum(["expiring", "unauthorized"]), durationMs: z.number().min(0) })
+    .nullable(),
+  headers: z.record(z.string()),
+  startedAt: z.string()
+});
+
+export const collectLogsInput = z.object({
+  entries: z.array(collectedLog).max(100)
+});
+
+export type CollectedLog = z.infer<typeof collectedLog> & { receivedAt: string };
+
+const globalForLogs = globalThis as typeof globalThis & {
+  __demoCollectedLogs?: CollectedLog[];
+};
+
+const logs = (globalForLogs.__demoCollectedLogs ??= []);
+
+/**
+ * 로그 저장 (오래된 로그부터 제거)
+ */
+export function collectLogs(entries: z.infer<typeof collectedLog>[]) {
+  const receivedAt = new Date().toISOString();
+  entries.forEach((entry) => {
+    console.info(
+      `[client-log] ${entry.apiName} ${entry.method} ${entry.url} ${entry.status ?? entry.outcome} ${entry.durationMs}ms`,
+      entry.requestId
+    );
+    logs.push({ ...entry, receivedAt });
+  });
+  logs.splice(0, Math.max(0, logs.length - MAX_COLLECTED_LOGS));
+}
+
+/**
+ * 최근 로그 조회 (최신순)
+ */
+export function listCollectedLogs({ requestId, limit }: { requestId?: string; limit: number }) {
+  return logs
+    .filter((entry) => !requestId || entry.requestId === requestId)
+    .slice(-limit)
+    .reverse();
+}
@@ -0,0 +1,63 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Zod (OTLP-JSON 검증)
+ * 
+ * 역할:
+ * - 클라이언트 메트릭 exporter(lib/metrics.ts)가 보낸 최신 메트릭을 탭(instance)별로 보관
+ *   (값이 누적이므로 탭마다 마지막 값만 있으면 됨)
+ * - Prometheus 텍스트 / OTLP-JSON 두 형식을 그대로 보관
+ * 
+ * 사용 위치:
+ * - src/app/api/metrics/route.ts: 수집(POST), 조회(GET)
+ * 
+ * 주의:
+ * - 개발 서버의 HMR 재로딩에도 상태가 유지되도록 globalThis에 저장합니다.
+ * - 실제 프로젝트에서는 Pushgateway / OpenTelemetry Collector로 전달해야 합니다.
+ */
+
+import { z } from "zod";
+
+// 보관할 최대 instance 수 (오래 보고하지 않은 탭부터 제거)
+const MAX_METRIC_INSTANCES = 50;
+
+// 한 번에 받는 최대 본문 크기
+export const MAX_METRICS_BODY_BYTES = 256 * 1024;
+
+export const otlpMetricsInput = z.object({
+  resourceMetrics: z.array(z.object({ scopeMetrics: z.array(z.unknown()) }).passthrough()).max(10)
+});
+
+export type CollectedMetrics = {
+  instance: string;
+  format: "prometheus" | "otlp";
+  // prometheus: 텍스트, otlp: JSON
+  body: string | z.infer<typeof otlpMetricsInput>;
+  receivedAt: string;
+};
+
+const globalForMetrics = globalThis as typeof globalThis & {
+  __demoCollectedMetrics?: Map<string, CollectedMetrics>;
+};
+
+const metrics = (globalForMetrics.__demoCollectedMetrics ??= new Map());
+
+/**
+ * instance의 최신 메트릭 저장
+ */
+export function collectMetrics(entry: Omit<CollectedMetrics, "receivedAt">) {
+  console.info(`[client-metrics] ${entry.instance} ${entry.format}`);
+  // 다시 넣어서 최근 보고한 순서로 유지
+  metrics.delete(entry.instance);
+  metrics.set(entry.instance, { ...entry, receivedAt: new Date().toISOString() });
+  [...metrics.keys()].slice(0, Math.max(0, metrics.size - MAX_METRIC_INSTANCES)).forEach((instance) => {
+    metrics.delete(instance);
+  });
+}
+
+/**
+ * 보관 중인 메트릭 조회 (최근 보고 순)
+ */
+export function listCollectedMetrics(instance?: string) {
+  return [...metrics.values()].filter((entry) => !instance || entry.instance === instance).reverse();
+}
@@ -0,0 +1,100 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Node.js Buffer (커서 인코딩)
+ * 
+ * 역할:
+ * - 오프셋 페이지네이션: page/size로 자르고 { items, page, size, total, totalPages } 반환
+ * - 커서 페이지네이션: 마지막 항목 ID를 불투명한 커서로 인코딩해 { items, next } 반환
+ * - 다음 페이지 Link 헤더 생성 (RFC 8288, rel="next")
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const page = paginateCursor(branches, { cursor, size }, (branch) => branch.id);
+ * if (!page) return apiErrorResponse(422, "INVALID_CURSOR", "Cursor is invalid");
+ * return NextResponse.json(page, { headers: nextLinkHeader(request, { cursor: page.next }) });
+ * ```
+ */
+
+export type OffsetPage<T> = {
+  items: T[];
+  page: number;
+  size: number;
+  total: number;
+  totalPages: number;
+};
+
+export type CursorPage<T> = {
+  items: T[];
+  // 다음 페이지 커서 (마지막 페이지면 null)
+  next: string | null;
+};
+
+/**
+ * 오프셋 페이지 자르기 (page는 1부터)
+ */
+export function paginateOffset<T>(items: T[], { page, size }: { page: number; size: number }): OffsetPage<T> {
+  const start = (page - 1) * size;
+  return {
+    items: items.slice(start, start + size),
+    page,
+    size,
+    total: items.length,
+    totalPages: Math.max(1, Math.ceil(items.length / size))
+  };
+}
+
+function encodeCursor(id: string) {
+  return Buffer.from(id, "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string) {
+  return Buffer.from(cursor, "base64url").toString("utf8");
+}
+
+/**
+ * 커서 페이지 자르기 (커서가 가리키는 항목 다음부터 size개)
+ * 
+ * @returns 커서가 가리키는 항목이 없으면 null (잘못된 커서 → 422)
+ */
+export function paginateCursor<T>(
+  items: T[],
+  { cursor, size }: { cursor?: string; size: number },
+  getId: (item: T) => string
+): CursorPage<T> | null {
+  let start = 0;
+  if (cursor) {
+    const afterId = decodeCursor(cursor);
+    const index = items.findIndex((item) => getId(item) === afterId);
+    if (index < 0) {
+      return null;
+    }
+    start = index + 1;
+  }
+
+  const pageItems = items.slice(start, start + size);
+  const hasNext = start + size < items.length;
+  return {
+    items: pageItems,
+    next: hasNext ? encodeCursor(getId(pageItems[pageItems.length - 1])) : null
+  };
+}
+
+/**
+ * 다음 페이지 Link 헤더 (현재 요청 URL의 쿼리에 params를 덮어씀)
+ * 
+ * @returns 다음 페이지가 없으면(params 값 중 null이 있으면) 빈 객체
+ */
+export function nextLinkHeader(
+  request: Request,
+  params: Record<string, string | number | null>
+): Record<string, string> {
+  const url = new URL(request.url);
+  for (const [name, value] of Object.entries(params)) {
+    if (value === null) {
+      return {};
+    }
+    url.searchParams.set(name, String(value));
+  }
+  return { Link: `<${url.pathname}${url.search}>; rel="next"` };
+}
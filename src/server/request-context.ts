@@ -0,0 +1,41 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Next.js (next/headers)
+ * 
+ * 역할:
+ * - 미들웨어(src/middleware.ts)가 확정한 X-Request-Id / traceparent를 route handler에서 조회
+ * - 에러 응답의 traceId, 서버 로그에 같은 값을 사용해 클라이언트 로그와 연결
+ * 
+ * 사용 방법:
+ * ```typescript
+ * const { requestId, traceId } = getRequestContext();
+ * console.info(`[orders] created`, requestId);
+ * ```
+ */
+
+import { randomUUID } from "crypto";
+import { headers } from "next/headers";
+import { parseTraceparent, REQUEST_ID_HEADER, TRACEPARENT_HEADER } from "@/lib/trace-context";
+
+export type RequestContext = {
+  requestId: string;
+  // W3C trace-id (32자리 16진수)
+  traceId: string;
+};
+
+/**
+ * 현재 요청의 요청 ID / trace ID
+ * 요청 범위 밖에서 호출되거나 미들웨어를 거치지 않았으면 새로 생성한 값을 돌려줍니다.
+ */
+export function getRequestContext(): RequestContext {
+  let requestHeaders: Headers | null = null;
+  try {
+    requestHeaders = headers();
+  } catch {
+    // 요청 범위 밖 (빌드 시점 등)
+  }
+  const requestId = requestHeaders?.get(REQUEST_ID_HEADER) ?? randomUUID();
+  const trace = parseTraceparent(requestHeaders?.get(TRACEPARENT_HEADER));
+  return { requestId, traceId: trace?.traceId ?? requestId };
+}
@@ -0,0 +1,37 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 역할:
+ * - 데모 인증 서버의 역할(role) → scope 매핑
+ * - access token에는 역할(roles)과 그 역할의 scope(공백으로 구분한 scope 클레임)를 함께 담음
+ * - route handler는 역할이 아닌 scope로 권한을 확인합니다 (src/server/auth.ts의 withAuth scopes)
+ * 
+ * scope 이름: "<시스템>:<자원>:<동작>" (예: "vendor:orders:write")
+ */
+
+export type ApiScope =
+  | "hq:read"
+  | "client:profile:read"
+  | "vendor:orders:read"
+  | "vendor:orders:write"
+  // 운영 도구: 수집된 클라이언트 요청 로그 / 메트릭 조회 (GET /api/logs, GET /api/metrics)
+  | "hq:logs:read"
+  | "hq:metrics:read";
+
+// hq-staff: 본사 직원, customer: 고객, vendor: 입점사, vendor-viewer: 입점사 조회 전용 계정, operator: 운영자
+export type Role = "hq-staff" | "customer" | "vendor" | "vendor-viewer" | "operator";
+
+export const ROLE_SCOPES: Record<Role, ApiScope[]> = {
+  "hq-staff": ["hq:read"],
+  customer: ["client:profile:read"],
+  vendor: ["vendor:orders:read", "vendor:orders:write"],
+  "vendor-viewer": ["vendor:orders:read"],
+  operator: ["hq:logs:read", "hq:metrics:read"]
+};
+
+/**
+ * 역할 목록 → scope 목록 (중복 제거)
+ */
+export function scopesForRoles(roles: Role[]): ApiScope[] {
+  return Array.from(new Set(roles.flatMap((role) => ROLE_SCOPES[role])));
+}
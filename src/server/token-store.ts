@@ -0,0 +1,209 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Node.js crypto
+ * 
+ * 역할:
+ * - 데모 인증 서버의 토큰 발급/회전(rotation) 상태를 메모리에 보관
+ * - access token은 짧은 수명의 서명된 JWT로 발급 (src/server/jwt.ts)
+ * - access token의 aud 클레임은 family를 시작할 때 요청한 audience로 고정
+ * - access token에 사용자 역할(roles)과 scope 클레임을 담음 (src/server/roles.ts)
+ * - refresh token 1회용 검증 및 재사용(reuse) 탐지
+ * 
+ * 사용 위치:
+ * - src/app/api/auth/login/route.ts: 로그인 시 새 family 발급
+ * - src/app/api/auth/refresh/route.ts: refresh 요청 처리
+ * - src/app/api/auth/logout/route.ts: 로그아웃 시 family 폐기
+ * 
+ * 환경 변수:
+ * - ENABLE_DEMO_BOOTSTRAP_TOKENS=true: 로그인 없이 부트스트랩 refresh token으로 토큰 발급 (개발 전용, 기본 꺼짐)
+ * 
+ * 주의:
+ * - 개발 서버의 HMR 재로딩에도 상태가 유지되도록 globalThis에 저장합니다.
+ * - 실제 프로젝트에서는 DB/Redis 등 영속 저장소를 사용해야 합니다.
+ */
+
+import { randomUUID } from "crypto";
+import { API_AUDIENCES } from "@/lib/api-audience";
+import { signJwt } from "@/server/jwt";
+import { scopesForRoles, type Role } from "@/server/roles";
+
+// refresh token 유효 기간 (데모: 1일)
+const REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * 부트스트랩 refresh token 사용 여부
+ * 
+ * 로그인을 거치지 않고 토큰을 발급하므로 환경 변수로 명시적으로 켠 개발 서버에서만 허용합니다.
+ * (production 빌드에서는 환경 변수와 관계없이 꺼짐)
+ */
+const BOOTSTRAP_TOKENS_ENABLED =
+  process.env.ENABLE_DEMO_BOOTSTRAP_TOKENS === "true" && process.env.NODE_ENV !== "production";
+
+/**
+ * 개발용 부트스트랩 refresh token (BOOTSTRAP_TOKENS_ENABLED일 때만 사용 가능)
+ * 
+ * 로그인 화면 없이 스크립트/수동 테스트에서 최초 토큰을 얻기 위한 용도로,
+ * 제시될 때마다 새 토큰 family를 시작합니다.
+ * 서버가 회전(rotation)으로 발급한 토큰은 1회만 사용할 수 있습니다.
+ */
+export const BOOTSTRAP_REFRESH_TOKEN = "demo-refresh";
+
+/**
+ * 부트스트랩 refresh token별 사용자
+ * - demo-refresh: 모든 역할 (모든 API 사용 가능)
+ * - demo-refresh-readonly: 입점사 주문 조회만 가능 (주문 생성/변경/취소는 403)
+ */
+const BOOTSTRAP_GRANTS = new Map<string, Omit<TokenGrant, "audience">>([
+  [BOOTSTRAP_REFRESH_TOKEN, { subject: "demo-user", roles: ["hq-staff", "customer", "vendor", "operator"] }],
+  ["demo-refresh-readonly", { subject: "demo-viewer", roles: ["hq-staff", "customer", "vendor-viewer"] }]
+]);
+
+/**
+ * 토큰 family가 유지하는 발급 조건
+ * - subject: 토큰 주체 (사용자 ID)
+ * - name: 화면에 표시할 사용자 이름 (name 클레임, 선택)
+ * - audience: access token의 aud 클레임 (API 시스템 audience 목록)
+ * - roles: 사용자 역할 (scope 클레임은 역할에서 계산)
+ */
+export type TokenGrant = {
+  subject: string;
+  name?: string;
+  audience: string[];
+  roles: Role[];
+};
+
+export type IssuedTokens = {
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type RotateFailureReason = "invalid" | "expired" | "reused";
+
+export type RotateResult =
+  | { ok: true; tokens: IssuedTokens }
+  | { ok: false; reason: RotateFailureReason };
+
+/**
+ * 발급된 refresh token 레코드
+ * - familyId: 같은 로그인 세션에서 회전된 토큰들의 묶음
+ * - grant: 이 family로 발급하는 access token의 조건
+ * - usedAt: 회전에 사용된 시각 (null이면 아직 미사용)
+ */
+type RefreshTokenRecord = {
+  familyId: string;
+  grant: TokenGrant;
+  expiresAt: number;
+  usedAt: number | null;
+};
+
+type TokenStoreState = {
+  refreshTokens: Map<string, RefreshTokenRecord>;
+};
+
+const globalForTokens = globalThis as typeof globalThis & {
+  __demoTokenStore?: TokenStoreState;
+};
+
+const state: TokenStoreState = (globalForTokens.__demoTokenStore ??= {
+  refreshTokens: new Map()
+});
+
+/**
+ * 새 access/refresh token 쌍 발급
+ * 
+ * @param grant - 발급 조건 (주체, audience, 역할)
+ * @param familyId - 이어서 회전할 토큰 family (없으면 새 family 시작)
+ */
+export function issueTokenPair(grant: TokenGrant, familyId: string = randomUUID()): IssuedTokens {
+  const refreshToken = `rt-${randomUUID()}`;
+  state.refreshTokens.set(refreshToken, {
+    familyId,
+    grant,
+    expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS,
+    usedAt: null
+  });
+
+  const { subject, name, audience, roles } = grant;
+  return {
+    accessToken: signJwt({
+      sub: subject,
+      name,
+      aud: audience.length === 1 ? audience[0] : audience,
+      roles,
+      scope: scopesForRoles(roles).join(" ")
+    }),
+    refreshToken
+  };
+}
+
+/**
+ * family에 속한 모든 refresh token 폐기
+ * 재사용이 탐지되면 탈취 가능성이 있으므로 세션 전체를 무효화합니다.
+ */
+function revokeFamily(familyId: string) {
+  state.refreshTokens.forEach((record, token) => {
+    if (record.familyId === familyId) {
+      state.refreshTokens.delete(token);
+    }
+  });
+}
+
+/**
+ * refresh token이 속한 family 폐기 (로그아웃)
+ * 
+ * @returns 폐기할 토큰이 있었는지 여부 (알 수 없는 토큰이면 false)
+ */
+export function revokeRefreshToken(refreshToken: string) {
+  const record = state.refreshTokens.get(refreshToken);
+  if (!record) {
+    return false;
+  }
+  revokeFamily(record.familyId);
+  return true;
+}
+
+/**
+ * refresh token 검증 후 새 토큰 쌍으로 회전
+ * 
+ * 처리 과정:
+ * 1. 부트스트랩 토큰이면(개발용 플래그가 켜진 경우만) 그 사용자와 요청한 audience(없으면 모든 API 시스템)로
+ *    새 family 발급
+ * 2. 알 수 없는 토큰 → invalid
+ * 3. 이미 사용된 토큰 → reused (family 전체 폐기)
+ * 4. 만료된 토큰 → expired
+ * 5. 정상 → 사용 처리 후 같은 family(같은 audience)로 새 토큰 발급
+ * 
+ * 회전할 때는 audience를 넓힐 수 없으므로 요청한 audience는 새 family에만 적용됩니다.
+ * 
+ * @param refreshToken - 제시된 refresh token
+ * @param audience - 요청한 audience (생략 시 모든 API 시스템)
+ */
+export function rotateRefreshToken(
+  refreshToken: string,
+  audience: string[] = Object.values(API_AUDIENCES)
+): RotateResult {
+  const bootstrap = BOOTSTRAP_TOKENS_ENABLED ? BOOTSTRAP_GRANTS.get(refreshToken) : undefined;
+  if (bootstrap) {
+    return { ok: true, tokens: issueTokenPair({ ...bootstrap, audience }) };
+  }
+
+  const record = state.refreshTokens.get(refreshToken);
+  if (!record) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  if (record.usedAt !== null) {
+    console.warn(`[auth] refresh token reuse detected (family: ${record.familyId})`);
+    revokeFamily(record.familyId);
+    return { ok: false, reason: "reused" };
+  }
+
+  if (record.expiresAt <= Date.now()) {
+    state.refreshTokens.delete(refreshToken);
+    return { ok: false, reason: "expired" };
+  }
+
+  record.usedAt = Date.now();
+  return { ok: true, tokens: issueTokenPair(record.grant, record.familyId) };
+}
@@ -0,0 +1,94 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Node.js crypto (scrypt), Zod (로그인 본문 검증)
+ * 
+ * 역할:
+ * - 데모 인증 서버의 사용자 저장소 (메모리)
+ * - 비밀번호는 사용자별 salt + scrypt 해시로만 보관하고, 비교는 timingSafeEqual로 수행
+ * - 사용자마다 역할(roles)을 가지며, 로그인 시 발급하는 토큰의 scope가 역할로 결정됨 (src/server/roles.ts)
+ * 
+ * 사용 위치:
+ * - src/app/api/auth/login/route.ts: 아이디/비밀번호 검증
+ * 
+ * 데모 계정 (비밀번호는 모두 "demo1234"):
+ * - admin: 모든 역할
+ * - hq: 본사 직원 (hq-staff)
+ * - customer: 고객 (customer)
+ * - vendor: 입점사 (vendor)
+ * - viewer: 입점사 조회 전용 (vendor-viewer)
+ * 
+ * 주의:
+ * - 실제 프로젝트에서는 DB와 검증된 인증 서버(IdP)를 사용해야 합니다.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { Role } from "@/server/roles";
+
+const DEMO_PASSWORD = "demo1234";
+
+export type DemoUser = {
+  id: string;
+  username: string;
+  name: string;
+  roles: Role[];
+};
+
+type UserRecord = DemoUser & {
+  salt: Buffer;
+  passwordHash: Buffer;
+};
+
+export const loginInput = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+  // 토큰을 발급받을 API 시스템 audience 목록 (생략 시 모든 시스템)
+  audiences: z.array(z.string()).min(1).optional()
+});
+
+const hashPassword = (password: string, salt: Buffer) => scryptSync(password, salt, 32);
+
+function createUser(user: DemoUser): UserRecord {
+  const salt = randomBytes(16);
+  return { ...user, salt, passwordHash: hashPassword(DEMO_PASSWORD, salt) };
+}
+
+const DEMO_USERS: DemoUser[] = [
+  {
+    id: "u-admin",
+    username: "admin",
+    name: "데모 관리자",
+    roles: ["hq-staff", "customer", "vendor", "operator"]
+  },
+  { id: "u-hq", username: "hq", name: "본사 직원", roles: ["hq-staff"] },
+  { id: "u-customer", username: "customer", name: "고객", roles: ["customer"] },
+  { id: "u-vendor", username: "vendor", name: "입점사 담당자", roles: ["vendor"] },
+  { id: "u-viewer", username: "viewer", name: "입점사 조회 전용", roles: ["vendor-viewer"] }
+];
+
+const users = DEMO_USERS.map(createUser);
+
+const toDemoUser = ({ id, username, name, roles }: UserRecord): DemoUser => ({
+  id,
+  username,
+  name,
+  roles
+});
+
+/**
+ * 아이디/비밀번호 검증
+ * 
+ * 없는 아이디도 같은 비용으로 해시를 계산해 응답 시간으로 아이디 존재 여부를 알 수 없게 합니다.
+ * 
+ * @returns 일치하면 사용자, 아니면 null
+ */
+export function verifyCredentials(username: string, password: string): DemoUser | null {
+  const user = users.find((candidate) => candidate.username === username);
+  const salt = user?.salt ?? randomBytes(16);
+  const hash = hashPassword(password, salt);
+  if (!user || !timingSafeEqual(hash, user.passwordHash)) {
+    return null;
+  }
+  return toDemoUser(user);
+}
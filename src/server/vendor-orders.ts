@@ -0,0 +1,190 @@
+/**
+ * 레이어: 서버 공통 레이어 (Server Shared Layer)
+ * 
+ * 사용 라이브러리: Zod (요청 본문/쿼리 검증)
+ * 
+ * 역할:
+ * - 입점사 ERP 주문 데이터를 메모리에 보관 (데모용 저장소)
+ * - 주문 목록 조회(페이지네이션/필터/정렬), 단건 조회, 생성, 상태 변경, 취소
+ * - 주문마다 version을 두고 변경할 때마다 1씩 증가 (If-Match 동시성 제어용)
+ * - 상태 전이 규칙: pending → confirmed → shipped → delivered, 취소는 pending/confirmed에서만
+ * 
+ * 사용 위치:
+ * - src/app/api/vendor-erp/orders/route.ts: 목록 조회, 생성
+ * - src/app/api/vendor-erp/orders/[orderId]/route.ts: 단건 조회, 상태 변경
+ * - src/app/api/vendor-erp/orders/[orderId]/cancel/route.ts: 취소
+ * 
+ * 주의:
+ * - 개발 서버의 HMR 재로딩에도 상태가 유지되도록 globalThis에 저장합니다.
+ */
+
+import { z } from "zod";
+import { paginateOffset, type OffsetPage } from "@/server/pagination";
+
+export const ORDER_STATUSES = ["pending", "confirmed", "shipped", "delivered", "canceled"] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// 상태별로 바꿀 수 있는 다음 상태
+const NEXT_STATUSES: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "canceled"],
+  confirmed: ["shipped", "canceled"],
+  shipped: ["delivered"],
+  delivered: [],
+  canceled: []
+};
+
+export const createOrderInput = z.object({
+  sku: z.string().trim().min(1, "SKU is required").max(40, "SKU must be 40 characters or less"),
+  quantity: z.number().int("Quantity must be an integer").positive("Quantity must be positive"),
+  note: z.string().trim().max(200, "Note must be 200 characters or less").optional()
+});
+
+// 취소는 별도 엔드포인트(POST /orders/:orderId/cancel)로만 가능
+export const updateOrderStatusInput = z.object({
+  status: z.enum(["confirmed", "shipped", "delivered"])
+});
+
+export const cancelOrderInput = z.object({
+  reason: z.string().trim().max(200, "Reason must be 200 characters or less").optional()
+});
+
+export const ORDER_SORT_FIELDS = ["createdAt", "updatedAt", "quantity", "sku"] as const;
+
+export const listOrdersQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  size: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.enum(ORDER_STATUSES).optional(),
+  // 주문 ID 또는 SKU 부분 일치
+  q: z.string().trim().optional(),
+  sort: z.enum(ORDER_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc")
+});
+
+export type CreateOrderInput = z.infer<typeof createOrderInput>;
+export type ListOrdersQuery = z.infer<typeof listOrdersQuery>;
+
+export type VendorOrder = {
+  id: string;
+  sku: string;
+  quantity: number;
+  note: string | null;
+  status: OrderStatus;
+  cancelReason: string | null;
+  // 변경할 때마다 1씩 증가 (ETag / If-Match)
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// 응답 본문: 화면에서 버튼을 그릴 수 있도록 가능한 다음 상태를 함께 보냄
+export type VendorOrderJson = VendorOrder & { nextStatuses: OrderStatus[] };
+
+export type VendorOrderPage = OffsetPage<VendorOrderJson>;
+
+const globalForOrders = globalThis as typeof globalThis & {
+  __demoVendorOrders?: { orders: VendorOrder[]; sequence: number };
+};
+
+const store = (globalForOrders.__demoVendorOrders ??= seedOrders());
+
+/**
+ * 목록 데모용 초기 주문 (상태/수량/생성 시각이 섞이도록)
+ */
+function seedOrders() {
+  const now = Date.now();
+  const orders = Array.from({ length: 23 }, (_, index): VendorOrder => {
+    const createdAt = new Date(now - (23 - index) * 1000 * 60 * 37).toISOString();
+    return {
+      id: formatOrderId(index + 1),
+      sku: `SKU-${["APPLE", "BREAD", "COFFEE", "DUMPLING", "EGG"][index % 5]}-${(index % 3) + 1}`,
+      quantity: ((index * 7) % 20) + 1,
+      note: null,
+      status: ORDER_STATUSES[index % 4],
+      cancelReason: null,
+      version: 1,
+      createdAt,
+      updatedAt: createdAt
+    };
+  });
+  return { orders, sequence: orders.length };
+}
+
+function formatOrderId(sequence: number) {
+  return `ORD-${String(sequence).padStart(4, "0")}`;
+}
+
+export function toOrderJson(order: VendorOrder): VendorOrderJson {
+  return { ...order, nextStatuses: NEXT_STATUSES[order.status] };
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return NEXT_STATUSES[from].includes(to);
+}
+
+/**
+ * 주문 목록 (필터 → 정렬 → 페이지 자르기)
+ */
+export function listVendorOrders({ page, size, status, q, sort, order }: ListOrdersQuery): VendorOrderPage {
+  const keyword = q?.toLowerCase();
+  const filtered = store.orders.filter(
+    (item) =>
+      (!status || item.status === status) &&
+      (!keyword ||
+        item.id.toLowerCase().includes(keyword) ||
+        item.sku.toLowerCase().includes(keyword))
+  );
+
+  const direction = order === "asc" ? 1 : -1;
+  const sorted = [...filtered].sort((a, b) => {
+    const left = a[sort];
+    const right = b[sort];
+    const compared =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right));
+    // 같은 값이면 ID 순서로 고정 (페이지 사이에서 항목이 섞이지 않도록)
+    return (compared || a.id.localeCompare(b.id)) * direction;
+  });
+
+  const result = paginateOffset(sorted, { page, size });
+  return { ...result, items: result.items.map(toOrderJson) };
+}
+
+export function findVendorOrder(id: string) {
+  return store.orders.find((order) => order.id === id) ?? null;
+}
+
+/**
+ * 주문 생성
+ */
+export function createVendorOrder({ sku, quantity, note }: CreateOrderInput): VendorOrder {
+  store.sequence += 1;
+  const now = new Date().toISOString();
+  const order: VendorOrder = {
+    id: formatOrderId(store.sequence),
+    sku,
+    quantity,
+    note: note || null,
+    status: "pending",
+    cancelReason: null,
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+  store.orders.push(order);
+  return order;
+}
+
+/**
+ * 주문 변경 (version 증가, 상태 전이/버전 검증은 route handler가 먼저 수행)
+ */
+export function updateVendorOrder(
+  order: VendorOrder,
+  changes: Partial<Pick<VendorOrder, "status" | "cancelReason">>
+) {
+  Object.assign(order, changes, {
+    version: order.version + 1,
+    updatedAt: new Date().toISOString()
+  });
+  return order;
+}
@@ -0,0 +1,101 @@
+/**
+ * ============================================================================
+ * 레이어: 전역 상태 관리 - 탭 간 동기화 (Global State Layer - Cross-tab Sync)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: BroadcastChannel (브라우저 내장), Zustand
+ * 🔗 연결 레이어:
+ *   - Zustand (src/store/auth.ts): 토큰 변경 시 다른 탭에 전파
+ *   - 인증 세션 (src/lib/auth-session.ts): refresh 시작/완료를 다른 탭에 알림
+ * 
+ * 역할:
+ * - 한 탭에서 토큰이 바뀌면 모든 탭의 스토어에 반영
+ * - 한 탭에서 refresh가 진행 중이면 다른 탭은 refresh를 새로 시작하지 않고 결과를 기다림
+ *   (refresh token rotation 환경에서 탭마다 refresh를 보내면 재사용 탐지로 세션이 폐기됨)
+ * 
+ * SSR 안전성:
+ * - 서버나 BroadcastChannel 미지원 브라우저에서는 모든 함수가 아무 동작도 하지 않습니다.
+ */
+
+import { useAuthStore, type ApiSystem, type AuthTokens } from "@/store/auth";
+
+const CHANNEL_NAME = "auth-tokens";
+
+export type AuthChannelMessage =
+  // 스토어 전체 토큰 동기화
+  | { type: "tokens"; tokens: Record<ApiSystem, AuthTokens> }
+  // 다른 탭에서 refresh 시작
+  | { type: "refresh-start"; system: ApiSystem }
+  // 다른 탭의 refresh 완료 (실패 시 accessToken은 null)
+  | { type: "refresh-end"; system: ApiSystem; accessToken: string | null };
+
+type AuthChannelListener = (message: AuthChannelMessage) => void;
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<AuthChannelListener>();
+
+/**
+ * 채널은 처음 사용할 때 생성합니다 (서버 렌더링 중에는 생성하지 않음).
+ */
+function getChannel() {
+  // Node.js 18+에도 전역 BroadcastChannel이 있으므로 브라우저 여부로 확인
+  if (channel || typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+    return channel;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<AuthChannelMessage>) => {
+    listeners.forEach((listener) => listener(event.data));
+  };
+  return channel;
+}
+
+/**
+ * 다른 탭에 메시지 전송 (자기 탭에는 전달되지 않음)
+ */
+export function postAuthMessage(message: AuthChannelMessage) {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * 다른 탭에서 보낸 메시지 구독
+ * @returns 구독 해제 함수
+ */
+export function subscribeAuthMessages(listener: AuthChannelListener) {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 스토어 ↔ 다른 탭 토큰 동기화 시작
+ * 
+ * - 이 탭에서 토큰이 바뀌면 "tokens" 메시지로 전파
+ * - 다른 탭의 "tokens" 메시지를 받으면 스토어에 반영 (다시 전파하지 않음)
+ * 
+ * @returns 동기화 중지 함수
+ */
+export function startAuthSync() {
+  let applyingRemote = false;
+
+  const unsubscribeChannel = subscribeAuthMessages((message) => {
+    if (message.type !== "tokens") {
+      return;
+    }
+    applyingRemote = true;
+    useAuthStore.setState({ tokens: message.tokens });
+    applyingRemote = false;
+  });
+
+  const unsubscribeStore = useAuthStore.subscribe((state, prevState) => {
+    if (!applyingRemote && state.tokens !== prevState.tokens) {
+      postAuthMessage({ type: "tokens", tokens: state.tokens });
+    }
+  });
+
+  return () => {
+    unsubscribeChannel();
+    unsubscribeStore();
+  };
+}
@@ -6,35 +6,101 @@
  * 📦 사용 라이브러리: Zustand
  * 
  * 역할:
- * - Access Token과 Refresh Token을 전역으로 관리
+ * - Access Token과 Refresh Token을 API 시스템(hqErp, clientApp, vendorErp)별로 전역 관리
  * - axios 인터셉터에서 토큰을 참조하여 Authorization 헤더에 추가
  * - UI 컴포넌트에서 토큰을 읽고 수정 가능
  * 
  * 사용 위치:
- * - src/lib/axios.ts: 요청 인터셉터에서 토큰 참조
+ * - src/lib/auth-session.ts: 인증 세션이 자기 시스템의 토큰을 참조/갱신
  * - src/app/page.tsx: 토큰 입력/조회 UI
  * 
  * 특징:
+ * - 새로고침 후에도 토큰 유지 (persist 미들웨어, 저장소 백엔드 교체 가능)
+ * - 탭 간 토큰 동기화 (BroadcastChannel)
  * - 가벼운 상태 관리 라이브러리 (Redux 대안)
  * - Provider 없이 사용 가능
  * - TypeScript 지원
  */
 
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { AUTH_STORAGE_KEY, createTokenStorage } from "@/store/persistence";
+
+/**
+ * 토큰을 따로 관리하는 API 시스템 목록
+ * 각 시스템은 서로 다른 인증 서버에서 토큰을 발급받습니다.
+ */
+export const API_SYSTEMS = ["hqErp", "clientApp", "vendorErp"] as const;
+export type ApiSystem = (typeof API_SYSTEMS)[number];
 
 export type AuthTokens = {
   accessToken: string | null;
   refreshToken: string | null;
 };
 
-type AuthState = AuthTokens & {
-  setTokens: (tokens: AuthTokens) => void;
-  clearTokens: () => void;
+export const EMPTY_TOKENS: AuthTokens = { accessToken: null, refreshToken: null };
+
+const initialTokens = (): Record<ApiSystem, AuthTokens> => ({
+  hqErp: EMPTY_TOKENS,
+  clientApp: EMPTY_TOKENS,
+  vendorErp: EMPTY_TOKENS
+});
+
+type AuthState = {
+  // API 시스템별 토큰
+  tokens: Record<ApiSystem, AuthTokens>;
+  setTokens: (system: ApiSystem, tokens: AuthTokens) => void;
+  // system을 생략하면 모든 시스템의 토큰을 초기화합니다
+  clearTokens: (system?: ApiSystem) => void;
 };
 
-export const useAuthStore = create<AuthState>((set) => ({
-  accessToken: null,
-  refreshToken: null,
-  setTokens: (tokens) => set(tokens),
-  clearTokens: () => set({ accessToken: null, refreshToken: null })
-}));
+/**
+ * persist 미들웨어로 토큰을 저장소 백엔드(src/store/persistence.ts)에 영속화합니다.
+ * 
+ * - skipHydration: 서버 렌더링 결과와 첫 클라이언트 렌더링을 일치시키기 위해
+ *   저장된 토큰은 마운트 이후 Providers에서 rehydrate()로 불러옵니다.
+ * - 다른 탭과의 동기화는 src/store/auth-channel.ts가 담당합니다.
+ */
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      tokens: initialTokens(),
+      setTokens: (system, tokens) =>
+        set((state) => ({ tokens: { ...state.tokens, [system]: tokens } })),
+      clearTokens: (system) =>
+        set((state) => ({
+          tokens: system ? { ...state.tokens, [system]: EMPTY_TOKENS } : initialTokens()
+        }))
+    }),
+    {
+      name: AUTH_STORAGE_KEY,
+      storage: createJSONStorage(() => createTokenStorage()),
+      partialize: (state) => ({ tokens: state.tokens }),
+      // 저장된 값에 없는 시스템(새로 추가된 시스템)은 빈 토큰으로 채움
+      merge: (persisted, current) => ({
+        ...current,
+        tokens: { ...current.tokens, ...(persisted as Partial<AuthState> | undefined)?.tokens }
+      }),
+      skipHydration: true
+    }
+  )
+);
+
+/**
+ * 시스템별 selector
+ * 
+ * 컴포넌트: useAuthStore(selectTokens("hqErp"))
+ * 인터셉터 등 React 밖: getTokens("hqErp")
+ */
+export const selectTokens = (system: ApiSystem) => (state: AuthState) => state.tokens[system];
+export const selectAccessToken = (system: ApiSystem) => (state: AuthState) =>
+  state.tokens[system].accessToken;
+
+export const getTokens = (system: ApiSystem) => selectTokens(system)(useAuthStore.getState());
+
+/**
+ * 시스템별 setter (React 밖에서 사용)
+ */
+export const setTokens = (system: ApiSystem, tokens: AuthTokens) =>
+  useAuthStore.getState().setTokens(system, tokens);
+export const clearTokens = (system?: ApiSystem) => useAuthStore.getState().clearTokens(system);
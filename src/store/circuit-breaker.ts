@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * 레이어: 전역 상태 관리 - 서킷 브레이커 (Global State Layer - Circuit Breaker)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand
+ * 
+ * 역할:
+ * - API 시스템별 서킷 브레이커(src/lib/circuit-breaker.ts) 상태를 UI에 노출
+ * - 상태 전이와 판단은 lib/circuit-breaker.ts가 담당하고,
+ *   이 스토어는 화면 표시용 스냅샷만 보관합니다.
+ * 
+ * 사용 위치:
+ * - src/lib/circuit-breaker.ts: 요청 결과/상태 전이마다 스냅샷 갱신
+ * - src/components/service-status-banner.tsx: "서비스 지연" 표시
+ */
+
+import { create } from "zustand";
+import { API_SYSTEMS, type ApiSystem } from "@/store/auth";
+
+// closed: 정상, open: 요청을 보내지 않고 바로 실패, half-open: 일부 요청만 보내서 복구 확인
+export type CircuitState = "closed" | "open" | "half-open";
+
+// open된 이유 (consecutive-failures: 연속 실패, error-rate: 최근 에러율, probe-failed: half-open 확인 요청 실패)
+export type CircuitOpenReason = "consecutive-failures" | "error-rate" | "probe-failed";
+
+export type CircuitSnapshot = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // 최근 구간(windowMs)의 요청 / 실패 수
+  recentRequests: number;
+  recentFailures: number;
+  reason: CircuitOpenReason | null;
+  // open된 시각, half-open으로 바뀌는 시각 (closed면 null)
+  openedAt: number | null;
+  retryAt: number | null;
+};
+
+export const CLOSED_CIRCUIT: CircuitSnapshot = {
+  state: "closed",
+  consecutiveFailures: 0,
+  recentRequests: 0,
+  recentFailures: 0,
+  reason: null,
+  openedAt: null,
+  retryAt: null
+};
+
+type CircuitBreakerState = {
+  circuits: Record<ApiSystem, CircuitSnapshot>;
+};
+
+export const useCircuitBreakerStore = create<CircuitBreakerState>()(() => ({
+  circuits: Object.fromEntries(API_SYSTEMS.map((system) => [system, CLOSED_CIRCUIT])) as Record<
+    ApiSystem,
+    CircuitSnapshot
+  >
+}));
+
+export const selectCircuit = (system: ApiSystem) => (state: CircuitBreakerState) =>
+  state.circuits[system];
+
+// open / half-open이면 서비스 지연으로 표시
+export const selectIsDegraded = (system: ApiSystem) => (state: CircuitBreakerState) =>
+  state.circuits[system].state !== "closed";
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * 레이어: 전역 상태 관리 - 네트워크 인스펙터 (Global State Layer - Network Inspector)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand
+ * 
+ * 역할:
+ * - 네트워크 인스펙터 패널에 표시할 요청 기록과 토큰 refresh 이벤트 보관
+ * - 패널 열림 여부, 클라이언트/상태 필터
+ * - 기록 수집과 재전송은 lib/network-inspector.ts가 담당하고, 이 스토어는 화면 표시용 상태만 보관합니다.
+ * 
+ * 사용 위치:
+ * - src/lib/network-inspector.ts: 요청 로그 sink / refresh 이벤트 구독에서 기록 추가
+ * - src/components/network-inspector.tsx: 타임라인, 요청 목록, refresh 이벤트 표시
+ */
+
+import { create } from "zustand";
+import type { AuthSessionEvent } from "@/lib/auth-session";
+import type { RequestLogEntry } from "@/lib/request-log";
+
+export type InspectedRequest = RequestLogEntry & {
+  // 기록 ID (같은 X-Request-Id의 401 응답과 refresh 후 재요청은 서로 다른 기록)
+  id: string;
+  // 인스펙터에서 재전송한 요청이면 true
+  replayed: boolean;
+  // 재전송할 수 없는 이유 (null이면 재전송 가능)
+  replayBlockedReason: string | null;
+};
+
+// all: 전체, error: 응답 없음(타임아웃/네트워크 오류)
+export type InspectorStatusFilter = "all" | "2xx" | "3xx" | "4xx" | "5xx" | "error" | "canceled";
+
+type NetworkInspectorState = {
+  open: boolean;
+  // 오래된 순서
+  requests: InspectedRequest[];
+  refreshEvents: AuthSessionEvent[];
+  // apiName (null이면 전체)
+  clientFilter: string | null;
+  statusFilter: InspectorStatusFilter;
+};
+
+export const useNetworkInspectorStore = create<NetworkInspectorState>()(() => ({
+  open: false,
+  requests: [],
+  refreshEvents: [],
+  clientFilter: null,
+  statusFilter: "all"
+}));
+
+/**
+ * 상태 필터 적용
+ */
+export function matchesStatusFilter(request: InspectedRequest, filter: InspectorStatusFilter) {
+  if (filter === "all") {
+    return true;
+  }
+  if (filter === "canceled") {
+    return request.outcome === "canceled";
+  }
+  if (filter === "error") {
+    return request.status === null && request.outcome === "error";
+  }
+  return request.status !== null && `${Math.floor(request.status / 100)}xx` === filter;
+}
+
+export const selectFilteredRequests = (state: NetworkInspectorState) =>
+  state.requests.filter(
+    (request) =>
+      (state.clientFilter === null || request.apiName === state.clientFilter) &&
+      matchesStatusFilter(request, state.statusFilter)
+  );
@@ -0,0 +1,55 @@
+/**
+ * ============================================================================
+ * 레이어: 전역 상태 관리 - 오프라인 큐 (Global State Layer - Offline Queue)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand
+ * 
+ * 역할:
+ * - 오프라인 큐(src/lib/offline-queue.ts)에 쌓인 요청의 상태를 UI에 노출
+ * - 큐 자체의 영속화(IndexedDB)와 재전송은 lib/offline-queue.ts가 담당하고,
+ *   이 스토어는 화면 표시용 스냅샷만 보관합니다.
+ * 
+ * 사용 위치:
+ * - src/lib/offline-queue.ts: 큐가 바뀔 때마다 스냅샷 갱신
+ * - src/components/offline-queue-panel.tsx: 대기/실패 요청 목록 표시
+ */
+
+import { create } from "zustand";
+
+// pending: 재전송 대기 중, failed: 서버가 거절함 (다시 시도 또는 삭제 필요)
+export type OfflineRequestStatus = "pending" | "failed";
+
+export type OfflineRequestSummary = {
+  id: string;
+  apiName: string;
+  method: string;
+  url: string;
+  idempotencyKey: string;
+  status: OfflineRequestStatus;
+  // 마지막 실패 메시지 (failed일 때)
+  error: string | null;
+  // 재전송 시도 횟수
+  attempts: number;
+  createdAt: number;
+};
+
+type OfflineQueueState = {
+  // 저장된 순서(= 재전송 순서)대로 정렬된 요청 목록
+  entries: OfflineRequestSummary[];
+  // navigator.onLine
+  online: boolean;
+  // 재전송 진행 중 여부
+  replaying: boolean;
+};
+
+export const useOfflineQueueStore = create<OfflineQueueState>()(() => ({
+  entries: [],
+  online: true,
+  replaying: false
+}));
+
+export const selectPendingCount = (state: OfflineQueueState) =>
+  state.entries.filter((entry) => entry.status === "pending").length;
+export const selectFailedCount = (state: OfflineQueueState) =>
+  state.entries.filter((entry) => entry.status === "failed").length;
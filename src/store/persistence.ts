@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * 레이어: 전역 상태 관리 - 영속화 (Global State Layer - Persistence)
+ * ============================================================================
+ * 
+ * 📦 사용 라이브러리: Zustand (persist 미들웨어의 StateStorage)
+ * 
+ * 역할:
+ * - 토큰 스토어를 저장할 백엔드를 교체 가능하게 제공
+ *   - memory: 새로고침 시 사라짐 (탭 간 공유는 BroadcastChannel로만)
+ *   - session: sessionStorage (탭마다 분리, 새로고침 유지)
+ *   - local: localStorage (모든 탭 공유, 브라우저 재시작 후에도 유지)
+ *   - cookie: 쿠키 (서버 컴포넌트/라우트 핸들러에서도 읽을 수 있음)
+ * 
+ * SSR 안전성:
+ * - 서버 렌더링 중에는 window/document가 없으므로 모든 백엔드가 memory로 대체됩니다.
+ * 
+ * 사용 위치:
+ * - src/store/auth.ts: persist 미들웨어의 storage로 사용
+ */
+
+import type { StateStorage } from "zustand/middleware";
+
+export type TokenStorageKind = "memory" | "session" | "local" | "cookie";
+
+// 토큰 스토어 저장 키 (cookie 모드에서는 쿠키 이름으로 사용)
+export const AUTH_STORAGE_KEY = "auth-tokens";
+
+// cookie 모드의 쿠키 유효 기간 (refresh token 유효 기간과 동일: 1일)
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24;
+
+const isBrowser = () => typeof window !== "undefined";
+
+function createMemoryStorage(): StateStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value);
+    },
+    removeItem: (name) => {
+      items.delete(name);
+    }
+  };
+}
+
+/**
+ * 쿠키 저장소
+ * 
+ * httpOnly가 아닌 쿠키이므로 클라이언트 JS와 서버(요청 쿠키) 모두 읽을 수 있습니다.
+ * 실제 프로젝트에서는 refresh token을 httpOnly 쿠키로 분리하는 것을 권장합니다.
+ */
+function createCookieStorage(): StateStorage {
+  return {
+    getItem: (name) => {
+      const prefix = `${name}=`;
+      const cookie = document.cookie.split("; ").find((item) => item.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+    setItem: (name, value) => {
+      const secure = window.location.protocol === "https:" ? "; Secure" : "";
+      document.cookie = `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${COOKIE_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+    },
+    removeItem: (name) => {
+      document.cookie = `${name}=; Path=/; Max-Age=0; SameSite=Lax`;
+    }
+  };
+}
+
+/**
+ * 저장소 백엔드 생성 함수
+ * 
+ * @param kind - 저장소 종류 (기본값: NEXT_PUBLIC_TOKEN_STORAGE 환경 변수 또는 "local")
+ */
+export function createTokenStorage(kind: TokenStorageKind = resolveStorageKind()): StateStorage {
+  if (!isBrowser() || kind === "memory") {
+    return createMemoryStorage();
+  }
+  if (kind === "cookie") {
+    return createCookieStorage();
+  }
+  return kind === "session" ? window.sessionStorage : window.localStorage;
+}
+
+function resolveStorageKind(): TokenStorageKind {
+  const kind = process.env.NEXT_PUBLIC_TOKEN_STORAGE;
+  if (kind === "memory" || kind === "session" || kind === "local" || kind === "cookie") {
+    return kind;
+  }
+  return "local";
+}